@@ -0,0 +1,73 @@
+// public/sw.js
+// 離線用的 Service Worker：預先快取 App 外殼，頁面導覽走網路優先（離線時回傳快取的 index.html），
+// 打包後的 /assets/* 檔名含雜湊，快取優先；Tailwind CDN 先回快取再背景更新。
+// 題目與作答資料不經過這裡，由 IndexedDB 的題庫快取與作答佇列處理。
+const VERSION = 'v2';
+const SHELL = `mca-shell-${VERSION}`;
+const RUNTIME = `mca-runtime-${VERSION}`;
+const SHELL_FILES = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+// 每次部署的 /assets/* 檔名都不同，執行期快取只留最近的這麼多筆，舊版檔案依加入順序淘汰
+const RUNTIME_MAX_ENTRIES = 60;
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL).then(c => c.addAll(SHELL_FILES)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(k => k !== SHELL && k !== RUNTIME).map(k => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+const trimCache = async (cache, max) => {
+  const keys = await cache.keys();   // 依加入順序排列
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - max)).map(k => cache.delete(k)));
+};
+
+const putInCache = async (cacheName, request, response) => {
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(cacheName);
+    await cache.delete(request);     // 先刪再放，重新加入的項目排到最後，不會被當成最舊的淘汰
+    await cache.put(request, response.clone());
+    if (cacheName === RUNTIME) await trimCache(cache, RUNTIME_MAX_ENTRIES);
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(res => putInCache(SHELL, '/index.html', res))
+        .catch(() => caches.match('/index.html', { ignoreSearch: true })),
+    );
+    return;
+  }
+
+  if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(
+      caches.match(request).then(hit => hit || fetch(request).then(res => putInCache(RUNTIME, request, res))),
+    );
+    return;
+  }
+
+  if (url.origin === self.location.origin && SHELL_FILES.includes(url.pathname)) {
+    event.respondWith(caches.match(request).then(hit => hit || fetch(request)));
+    return;
+  }
+
+  if (url.hostname === 'cdn.tailwindcss.com') {
+    event.respondWith(
+      caches.match(request).then(hit => {
+        const network = fetch(request).then(res => putInCache(RUNTIME, request, res)).catch(() => hit);
+        return hit || network;
+      }),
+    );
+  }
+});
@@ -1,112 +1,93 @@
 import React, { useEffect, useRef, useState } from 'react';
 
-import { initializeApp, type FirebaseApp } from 'firebase/app';
+import { storage, type AttemptInput, type AuthUser, type QuestionCursor } from './lib/storage';
+import { mergeQuestions, questionCache } from './lib/question-cache';
+import { attemptOutbox } from './lib/outbox';
+import { passageSegments, questionSegments } from './lib/speech';
+import { loadPreferences, usePreferences } from './lib/preferences';
+import { loadGlossary } from './lib/glossary';
+import { useDisplay } from './lib/display';
+import { onPracticeKeyDown, PRACTICE_KEYS_HELP } from './lib/practice-keys';
+import { sanitizeQuestion } from './lib/sanitize';
+import { buildPracticeSet, seededRandom, type PracticeSetCriteria } from './lib/practice-set';
 import {
-  getAuth,
-  onAuthStateChanged,
-  createUserWithEmailAndPassword,
-  signInWithEmailAndPassword,
-  signOut,
-  type Auth,
-} from 'firebase/auth';
+  criteriaFromSearch,
+  navigate,
+  PAGE_PATH,
+  parseRoute,
+  questionPath,
+  searchFromCriteria,
+  useLocation,
+} from './lib/router';
+import { isChoiceCorrect, normalizeChoiceArray, optionLetter } from './lib/grading';
+import { formatScore, resolveRule, scoreChoice } from './lib/scoring';
 import {
-  getFirestore,
-  collection,
-  addDoc,
-  doc,
-  getDoc,
-  getDocs,
-  query,
-  orderBy,
-  Timestamp,
-  where,
-  limit,
-  serverTimestamp,
-  deleteDoc,            // ⬅️ 用於刪題
-  type Firestore,
-  type DocumentData,
-} from 'firebase/firestore';
-
-/* =========================================================================
-   1) 型別定義
-   ========================================================================= */
-interface BaseQuestion {
-  id: string;
-  createdAt: Timestamp;
-  explanation?: string;
-  errorAnalysis?: Record<string, string>;
-}
-interface SingleChoiceQuestion extends BaseQuestion {
-  type: 'single_choice';
-  title: string;          // 題幹（可含 HTML：.definition / .translation）
-  options: string[];      // 選項（可含 HTML）
-  correctAnswer: string;  // 'A' | 'B' | ...
-}
-interface MultiSelectQuestion extends BaseQuestion {
-  type: 'multi_select';
-  title: string;
-  options: string[];
-  correctAnswers: string[]; // 如 ['A','C']
-}
-interface ReadingSubItem {
-  id: string;
-  subtype: 'single_choice' | 'multi_select';
-  stem: string;
-  options: string[];
-  answer?: string;
-  correctAnswers?: string[];
-  explanation?: string;
-  errorAnalysis?: Record<string, string>;
-  evidenceRefs?: string[];
-}
-interface ReadingQuestion extends BaseQuestion {
-  type: 'reading';
-  passage: {
-    title: string;
-    textHtml: string;
-    plainText?: string;
-    audioUrl?: string;
-  };
-  items: ReadingSubItem[];
-}
-type Question = SingleChoiceQuestion | MultiSelectQuestion | ReadingQuestion;
-
-/* =========================================================================
-   2) 工具
-   ========================================================================= */
-const normalizeChoiceArray = (choices: string[]): string[] =>
-  [...new Set(choices)].sort();
-
-const isMultiCorrect = (chosen: string[], correct: string[]): boolean => {
-  if (chosen.length !== correct.length) return false;
-  for (let i = 0; i < chosen.length; i++) if (chosen[i] !== correct[i]) return false;
-  return true;
-};
-
-/* =========================================================================
-   3) Firebase 初始化（沿用你的 .env 設定；若你已寫死也可替換成常數）
-   ========================================================================= */
-const firebaseConfig = {
-  apiKey: import.meta.env.VITE_FB_API_KEY,
-  authDomain: import.meta.env.VITE_FB_AUTH_DOMAIN,
-  projectId: import.meta.env.VITE_FB_PROJECT_ID,
-  storageBucket: import.meta.env.VITE_FB_STORAGE_BUCKET,
-  messagingSenderId: import.meta.env.VITE_FB_MESSAGING_SENDER_ID,
-  appId: import.meta.env.VITE_FB_APP_ID,
-  measurementId: import.meta.env.VITE_FB_MEASUREMENT_ID,
-};
-
-let app!: FirebaseApp;
-let auth!: Auth;
-let db!: Firestore;
-if (firebaseConfig.apiKey && firebaseConfig.apiKey !== 'YOUR_API_KEY') {
-  app = initializeApp(firebaseConfig);
-  auth = getAuth(app);
-  db = getFirestore(app);
-}
+  applyHintPenalty,
+  availableHints,
+  distractorsOf,
+  eliminatedOption,
+  hasDefinitions,
+  HINT_SCORE_FACTOR,
+  MAX_HINT_LEVEL,
+  type HintLevel,
+} from './lib/hints';
+import { QUESTION_TYPE_LABEL, questionTitle } from './lib/question-schema';
+import { htmlToText } from './lib/html';
+import { parsePaste, type PasteKind } from './lib/paste-parser';
+import { collectMetaOptions, curriculumLabel } from './lib/curriculum';
+import BulkImport from './components/BulkImport';
+import QuestionExport from './components/QuestionExport';
+import QuestionEditor from './components/QuestionEditor';
+import RevisionHistory from './components/RevisionHistory';
+import TrashBin from './components/TrashBin';
+import MetaFields from './components/MetaFields';
+import PracticeSetBuilder from './components/PracticeSetBuilder';
+import LazyRender from './components/LazyRender';
+import ScrollSentinel from './components/ScrollSentinel';
+import ExamModule from './components/ExamModule';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import { dateStamp, downloadFile, historyToCsv } from './lib/exporters';
+import { topDistractors, type LearningStats } from './lib/stats';
+import { mistakeDetail, mistakeId, type MistakeEntry } from './lib/mistakes';
+import { cardIdOf } from './lib/srs';
+import {
+  assignmentUnits,
+  resultFromAttempt,
+  resultMark,
+  submissionProgress,
+  submissionStatus,
+  SUBMISSION_STATUS_LABEL,
+  type SubmissionStatus,
+} from './lib/assignment';
+import MistakeCard from './components/MistakeCard';
+import HintButton from './components/HintButton';
+import TeacherClasses from './components/TeacherClasses';
+import JoinClass from './components/JoinClass';
+import TeacherRoles from './components/TeacherRoles';
+import SyncStatus from './components/SyncStatus';
+import Link from './components/Link';
+import PassageAudio from './components/PassageAudio';
+import ReadAloud from './components/ReadAloud';
+import RubyToggle from './components/RubyToggle';
+import OptionResult from './components/OptionResult';
+import DisplayOptions from './components/DisplayOptions';
+import TermTooltip from './components/TermTooltip';
+import GlossaryManager from './components/GlossaryManager';
+import type {
+  MultiSelectQuestion,
+  Question,
+  QuestionDraft,
+  QuestionMeta,
+  QuestionType,
+  ReadingQuestion,
+  ReadingSubItem,
+  SingleChoiceQuestion,
+} from './types/question';
+import type { Assignment, AssignmentSubmission } from './types/assignment';
+import type { Classroom } from './types/classroom';
 
 /* =========================================================================
-   4) 圖示（純前端）
+   1) 圖示（純前端）
    ========================================================================= */
 const icons = {
   book: (
@@ -121,6 +102,23 @@ const icons = {
             d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
     </svg>
   ),
+  clock: (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+    </svg>
+  ),
+  assignment: (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+            d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+    </svg>
+  ),
+  notebook: (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+            d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+    </svg>
+  ),
   target: (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
@@ -133,6 +131,12 @@ const icons = {
             d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
     </svg>
   ),
+  users: (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+            d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+    </svg>
+  ),
   logout: (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
@@ -149,15 +153,35 @@ const icons = {
 };
 
 /* =========================================================================
-   5) 題目呈現元件
+   2) 題目呈現元件
    ========================================================================= */
-function SingleChoiceBlock({
-  data, number, userId,
-}: { data: SingleChoiceQuestion; number: number; userId: string }) {
+type BlockProps<Q> = {
+  data: Q;
+  number: number;
+  userId: string;
+  assignmentId?: string;      // 在作業中作答時，作答紀錄帶上作業 id
+  onAttempted?: (attempt: AttemptInput) => void;   // 作答紀錄寫入後通知（錯題本更新精熟進度、作業記錄成績）
+};
+
+function SingleChoiceBlock({ data, number, userId, assignmentId, onAttempted }: BlockProps<SingleChoiceQuestion>) {
+  const display = useDisplay();
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [showDefinition, setShowDefinition] = useState(false);
   const [showTranslation, setShowTranslation] = useState(false);
   const [userAnswer, setUserAnswer] = useState<string | null>(null);
+  const [hintLevel, setHintLevel] = useState<HintLevel>(0);
+
+  const distractors = distractorsOf(data.options.length, [data.correctAnswer]);
+  const hints = availableHints({ hasDefinitions: hasDefinitions(data.title, ...data.options), distractors, hasEvidence: false });
+  const eliminated = hintLevel >= 2 ? eliminatedOption(data.id, distractors) : null;
+
+  // 提示 1：作答前打開釋義；提示 2：刪去一個錯誤選項（已選到就取消）
+  const useHint = (level: HintLevel) => {
+    setHintLevel(level);
+    if (level >= 1) setShowDefinition(true);
+    const out = level >= 2 ? eliminatedOption(data.id, distractors) : null;
+    if (out && userAnswer === out) setUserAnswer(null);
+  };
 
   const toggleText = (which: 'definition' | 'translation') => {
     if (which === 'definition') setShowDefinition(v => !v);
@@ -166,7 +190,7 @@ function SingleChoiceBlock({
 
   const parseContent = (content: string) => {
     const div = document.createElement('div');
-    div.innerHTML = content;
+    div.innerHTML = display.annotate(content);
     div.querySelectorAll('.definition').forEach(el => {
       (el as HTMLElement).style.display = showDefinition ? 'inline' : 'none';
     });
@@ -176,58 +200,46 @@ function SingleChoiceBlock({
     return { __html: div.innerHTML };
   };
 
-  const readAloud = () => {
-    const div = document.createElement('div');
-    div.innerHTML = data.title;
-    let text = `${number}. ${div.textContent ?? ''}`;
-    data.options.forEach((opt, i) => {
-      const letter = String.fromCharCode(65 + i);
-      div.innerHTML = opt;
-      text += ` 選項 ${letter}：${div.textContent ?? ''}；`;
-    });
-    if ('speechSynthesis' in window) {
-      window.speechSynthesis.cancel();
-      const u = new SpeechSynthesisUtterance(text);
-      u.lang = 'zh-TW';
-      window.speechSynthesis.speak(u);
-    } else {
-      alert('此瀏覽器不支援語音朗讀。');
-    }
-  };
-
   const checkAnswer = async () => {
     if (!userAnswer) return alert('請先選一個答案');
     setIsSubmitted(true);
 
-    const correct = userAnswer === data.correctAnswer;
-    const next = new Date();
-    next.setDate(next.getDate() + (correct ? 7 : 1));
-
-    await addDoc(collection(db, 'users', userId, 'history'), {
+    const ok = userAnswer === data.correctAnswer;
+    const attempt: AttemptInput = {
       type: 'single_choice',
       questionId: data.id,
       chosen: userAnswer,
-      isCorrect: correct,
-      hintLevel: 0,
-      timestamp: serverTimestamp(),
-      nextReviewDate: Timestamp.fromDate(next),
+      isCorrect: ok,
+      score: applyHintPenalty(ok ? 1 : 0, hintLevel),
+      hintLevel,
       questionTitle: data.title,
-    });
+      ...(assignmentId ? { assignmentId } : {}),
+    };
+    await attemptOutbox.record(userId, attempt);
+    onAttempted?.(attempt);
   };
 
   const optionStyle = (letter: string) => {
-    if (!isSubmitted) return 'hover:bg-gray-100 focus-within:ring-2 focus-within:ring-blue-400';
+    if (!isSubmitted) {
+      if (letter === eliminated) return 'opacity-50 line-through cursor-not-allowed';
+      return 'hover:bg-gray-100 focus-within:ring-2 focus-within:ring-blue-400';
+    }
     if (letter === data.correctAnswer) return 'bg-green-100 border-green-500';
     if (letter === userAnswer) return 'bg-red-100 border-red-500';
     return 'bg-white';
   };
 
+  // 釋義與翻譯在作答前算提示 1，用過提示或交卷後才能自由切換（詞語註釋同）
+  const glossesOpen = isSubmitted || hintLevel >= 1 || !hints.includes(1);
+  const isCorrect = userAnswer === data.correctAnswer;
+
   return (
-    <div className="bg-white p-6 rounded-xl shadow-sm">
-      <p className="text-lg font-semibold mb-4" dangerouslySetInnerHTML={{ __html: `${number}. （　　）${data.title}` }} />
+    <div data-question tabIndex={-1} onKeyDown={onPracticeKeyDown} role="group" aria-labelledby={`${data.id}-title`}
+         className={`bg-white p-6 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-300 ${glossesOpen ? '' : 'hide-definitions'}`}>
+      <p id={`${data.id}-title`} className="text-lg font-semibold mb-4" dangerouslySetInnerHTML={{ __html: `${number}. （　　）${display.annotate(data.title)}` }} />
       <div className="space-y-3">
         {data.options.map((opt, i) => {
-          const letter = String.fromCharCode(65 + i);
+          const letter = optionLetter(i);
           return (
             <label key={letter} className={`p-3 border rounded-md cursor-pointer flex items-start ${optionStyle(letter)}`}>
               <input
@@ -236,39 +248,55 @@ function SingleChoiceBlock({
                 value={letter}
                 checked={userAnswer === letter}
                 onChange={e => setUserAnswer(e.target.value)}
-                disabled={isSubmitted}
+                disabled={isSubmitted || letter === eliminated}
                 className="mr-3 mt-1 h-5 w-5"
               />
               <span dangerouslySetInnerHTML={parseContent(`(${letter}) ${opt}`)} />
+              {letter === eliminated && !isSubmitted && <span className="sr-only">（已刪去）</span>}
+              {isSubmitted && <OptionResult correct={letter === data.correctAnswer} chosen={letter === userAnswer} />}
             </label>
           );
         })}
       </div>
 
-      <div className="mt-4 flex gap-2 flex-wrap">
-        <button onClick={() => toggleText('definition')} className="bg-gray-200 px-3 py-1 rounded-md text-sm">顯示/隱藏釋義</button>
-        <button onClick={() => toggleText('translation')} className="bg-gray-200 px-3 py-1 rounded-md text-sm">顯示/隱藏翻譯</button>
-        <button onClick={readAloud} className="bg-gray-500 text-white px-3 py-1 rounded-md text-sm">朗讀</button>
+      <div className="mt-4 flex gap-2 flex-wrap items-center">
+        {glossesOpen && (
+          <>
+            <button onClick={() => toggleText('definition')} className="bg-gray-200 px-3 py-1 rounded-md text-sm">顯示/隱藏釋義</button>
+            <button onClick={() => toggleText('translation')} className="bg-gray-200 px-3 py-1 rounded-md text-sm">顯示/隱藏翻譯</button>
+          </>
+        )}
+        <RubyToggle />
+        <ReadAloud build={() => questionSegments(data.title, data.options, { prefix: `${number}.`, tags: data.meta?.tags })} />
+        {!isSubmitted && <HintButton level={hintLevel} available={hints} onHint={useHint} />}
         {!isSubmitted ? (
-          <button onClick={checkAnswer} className="bg-green-600 text-white px-4 py-2 rounded-md">提交答案</button>
+          <button data-action="submit" onClick={checkAnswer} className="bg-green-600 text-white px-4 py-2 rounded-md">提交答案</button>
         ) : (
-          <button onClick={() => { setIsSubmitted(false); setUserAnswer(null); }} className="bg-yellow-500 text-black px-4 py-2 rounded-md">重做此題</button>
+          <button data-action="retry" onClick={() => { setIsSubmitted(false); setUserAnswer(null); setHintLevel(0); setShowDefinition(false); setShowTranslation(false); }}
+                  className="bg-yellow-500 text-black px-4 py-2 rounded-md">重做此題</button>
         )}
       </div>
 
+      <p role="status" className="sr-only">
+        {isSubmitted ? `第 ${number} 題${isCorrect ? '回答正確' : `回答錯誤，正確答案是 ${data.correctAnswer}`}` : ''}
+      </p>
+
       {isSubmitted && (
         <div className="mt-4 p-4 bg-yellow-50 border-t">
-          <p className={`font-bold mb-2 ${userAnswer === data.correctAnswer ? 'text-green-600' : 'text-red-600'}`}>
-            {userAnswer === data.correctAnswer ? '回答正確！' : '回答錯誤。'}
+          <p className={`font-bold mb-2 ${isCorrect ? 'text-green-600' : 'text-red-600'}`}>
+            {isCorrect ? '✅ 回答正確！' : '❌ 回答錯誤。'}
+            {isCorrect && hintLevel > 0 && (
+              <span className="ml-2 text-sm font-normal text-amber-700">（使用提示 {hintLevel} 級，得分 ×{HINT_SCORE_FACTOR[hintLevel]}）</span>
+            )}
           </p>
           <p><span className="font-semibold">✅ 正確答案：</span>{data.correctAnswer}</p>
-          {userAnswer !== data.correctAnswer && userAnswer && data.errorAnalysis?.[userAnswer] && (
-            <p className="mt-2 text-red-700"><span className="font-semibold">🔍 錯因分析：</span>{data.errorAnalysis[userAnswer]}</p>
+          {!isCorrect && userAnswer && data.errorAnalysis?.[userAnswer] && (
+            <p className="mt-2 text-red-700"><span className="font-semibold">🔍 錯因分析：</span>{display.text(data.errorAnalysis[userAnswer])}</p>
           )}
           {data.explanation && (
             <p className="mt-2">
               <span className="font-semibold">📖 詳細解析：</span>
-              <span dangerouslySetInnerHTML={{ __html: data.explanation }} />
+              <span dangerouslySetInnerHTML={{ __html: display.html(data.explanation) }} />
             </p>
           )}
         </div>
@@ -277,12 +305,24 @@ function SingleChoiceBlock({
   );
 }
 
-function MultiSelectBlock({
-  data, number, userId,
-}: { data: MultiSelectQuestion; number: number; userId: string }) {
+function MultiSelectBlock({ data, number, userId, assignmentId, onAttempted }: BlockProps<MultiSelectQuestion>) {
+  const display = useDisplay();
   const [chosen, setChosen] = useState<string[]>([]);
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
+  const [score, setScore] = useState(0);
+  const [hintLevel, setHintLevel] = useState<HintLevel>(0);
+
+  // 題幹與選項以清理後的 HTML 呈現（含詞庫標註），但多選題沒有可切換的釋義，只提供刪去選項
+  const distractors = distractorsOf(data.options.length, data.correctAnswers);
+  const hints = availableHints({ hasDefinitions: false, distractors, hasEvidence: false });
+  const eliminated = hintLevel >= 2 ? eliminatedOption(data.id, distractors) : null;
+
+  const useHint = (level: HintLevel) => {
+    setHintLevel(level);
+    const out = level >= 2 ? eliminatedOption(data.id, distractors) : null;
+    if (out) setChosen(prev => prev.filter(x => x !== out));
+  };
 
   const toggle = (opt: string) =>
     setChosen(prev => (prev.includes(opt) ? prev.filter(x => x !== opt) : [...prev, opt]));
@@ -291,76 +331,95 @@ function MultiSelectBlock({
     e.preventDefault();
     if (chosen.length === 0) return alert('請至少選一個選項');
 
-    const ok = isMultiCorrect(normalizeChoiceArray(chosen), normalizeChoiceArray(data.correctAnswers));
+    const ok = isChoiceCorrect(chosen, data.correctAnswers);
+    const s = applyHintPenalty(scoreChoice(chosen, data.correctAnswers, data.options.length, resolveRule(data)), hintLevel);
     setIsCorrect(ok);
+    setScore(s);
     setIsSubmitted(true);
 
-    const next = new Date();
-    next.setDate(next.getDate() + (ok ? 7 : 1));
-    await addDoc(collection(db, 'users', userId, 'history'), {
+    const attempt: AttemptInput = {
       type: 'multi_select',
       questionId: data.id,
       chosen: normalizeChoiceArray(chosen),
       isCorrect: ok,
-      hintLevel: 0,
-      timestamp: serverTimestamp(),
-      nextReviewDate: Timestamp.fromDate(next),
-    });
+      score: s,
+      hintLevel,
+      ...(assignmentId ? { assignmentId } : {}),
+    };
+    await attemptOutbox.record(userId, attempt);
+    onAttempted?.(attempt);
   };
 
   const optCls = (letter: string) => {
-    if (!isSubmitted) return 'hover:bg-gray-100';
+    if (!isSubmitted) return letter === eliminated ? 'opacity-50 line-through' : 'hover:bg-gray-100';
     if (data.correctAnswers.includes(letter)) return 'bg-green-100 border-green-500';
     if (chosen.includes(letter) && !data.correctAnswers.includes(letter)) return 'bg-red-100 border-red-500';
     return 'bg-white';
   };
 
   return (
-    <div className="p-6 border rounded-xl bg-white shadow-sm">
+    <div data-question tabIndex={-1} onKeyDown={onPracticeKeyDown} role="group" aria-labelledby={`${data.id}-title`}
+         className="p-6 border rounded-xl bg-white shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-300">
       <div className="mb-2 text-sm text-gray-500">第 {number} 題｜多選</div>
-      <div className="font-semibold mb-3">{data.title}</div>
+      <div id={`${data.id}-title`} className="font-semibold mb-3" dangerouslySetInnerHTML={{ __html: display.annotate(data.title) }} />
 
       <form onSubmit={handleSubmit}>
         <ul className="space-y-2">
           {data.options.map((opt, idx) => {
-            const letter = String.fromCharCode(65 + idx);
+            const letter = optionLetter(idx);
             const id = `${data.id}-${letter}`;
             const checked = chosen.includes(letter);
             return (
               <li key={id} className={`p-2 border rounded-md flex items-start gap-2 ${optCls(letter)}`}>
-                <input id={id} type="checkbox" checked={checked} onChange={() => toggle(letter)} className="mt-1" />
-                <label htmlFor={id} className="select-none">{`${letter}. ${opt}`}</label>
+                <input id={id} type="checkbox" checked={checked} onChange={() => toggle(letter)} className="mt-1"
+                       disabled={isSubmitted || letter === eliminated} />
+                <label htmlFor={id} className="select-none" dangerouslySetInnerHTML={{ __html: `${letter}. ${display.annotate(opt)}` }} />
+                {letter === eliminated && !isSubmitted && <span className="sr-only">（已刪去）</span>}
+                {isSubmitted && <OptionResult correct={data.correctAnswers.includes(letter)} chosen={checked} />}
               </li>
             );
           })}
         </ul>
 
-        <div className="mt-4 flex gap-2">
+        <div className="mt-4 flex gap-2 flex-wrap items-center">
+          <RubyToggle />
+          <ReadAloud build={() => questionSegments(data.title, data.options, { prefix: `${number}.`, tags: data.meta?.tags })} />
+          {!isSubmitted && <HintButton level={hintLevel} available={hints} onHint={useHint} />}
           {!isSubmitted ? (
-            <button type="submit" className="bg-green-600 text-white px-4 py-2 rounded-md">提交答案</button>
+            <button type="submit" data-action="submit" className="bg-green-600 text-white px-4 py-2 rounded-md">提交答案</button>
           ) : (
-            <button type="button" className="bg-yellow-500 text-black px-4 py-2 rounded-md"
-                    onClick={() => { setIsSubmitted(false); setChosen([]); setIsCorrect(null); }}>
+            <button type="button" data-action="retry" className="bg-yellow-500 text-black px-4 py-2 rounded-md"
+                    onClick={() => { setIsSubmitted(false); setChosen([]); setIsCorrect(null); setHintLevel(0); }}>
               重做此題
             </button>
           )}
         </div>
       </form>
 
+      <p role="status" className="sr-only">
+        {isSubmitted
+          ? `第 ${number} 題${isCorrect ? '回答正確' : score > 0 ? `部分正確，得分 ${formatScore(score)}` : '回答錯誤'}，正確答案是 ${normalizeChoiceArray(data.correctAnswers).join('、')}`
+          : ''}
+      </p>
+
       {isSubmitted && (
         <div className="mt-3">
-          {isCorrect ? <p className="text-green-700">✅ 正確！</p> : <p className="text-red-700">❌ 有誤。</p>}
+          {isCorrect
+            ? <p className="text-green-700">✅ 正確！{hintLevel > 0 && `（使用提示 ${hintLevel} 級，得分 ${formatScore(score)}）`}</p>
+            : score > 0
+              ? <p className="text-amber-700">🟡 部分正確，得分 {formatScore(score)}。</p>
+              : <p className="text-red-700">❌ 有誤。</p>}
           {!isCorrect && data.errorAnalysis && (
             <div className="mt-2 space-y-1 text-sm">
               {Object.entries(data.errorAnalysis).map(([k, v]) =>
-                <p key={k}><span className="font-semibold">{k}</span>：{v}</p>
+                <p key={k}><span className="font-semibold">{k}</span>：{display.text(v)}</p>
               )}
             </div>
           )}
           {data.explanation && (
             <p className="mt-2 text-sm">
               <span className="font-semibold">📖 詳細解析：</span>
-              <span dangerouslySetInnerHTML={{ __html: data.explanation }} />
+              <span dangerouslySetInnerHTML={{ __html: display.html(data.explanation) }} />
             </p>
           )}
         </div>
@@ -369,21 +428,190 @@ function MultiSelectBlock({
   );
 }
 
-function ReadingBlock({
-  data, number, userId,
-}: { data: ReadingQuestion; number: number; userId: string }) {
+function ReadingSubQuestion({
+  data, item, userId, assignmentId, hintLevel, onHint, onActivate, onSubmitted, onRetry, onAttempted,
+}: {
+  data: ReadingQuestion;
+  item: ReadingSubItem;
+  userId: string;
+  hintLevel: HintLevel;
+  onHint: (level: HintLevel) => void;
+  onActivate: () => void;     // 成為作答中的小題（決定文章要開放哪些釋義、標示哪些證據）
+  onSubmitted: (ok: boolean) => void;
+  onRetry: () => void;        // 重做：題組清掉這一小題的作答進度與提示
+  assignmentId?: string;
+  onAttempted?: (attempt: AttemptInput) => void;
+}) {
+  const [chosen, setChosen] = useState<string[]>([]);
+  const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
+  const [score, setScore] = useState(0);
+  const [localSubmitted, setLocalSubmitted] = useState(false);
+  const display = useDisplay();
+
+  const corrects = item.subtype === 'multi_select' ? item.correctAnswers || [] : item.answer ? [item.answer] : [];
+  const distractors = distractorsOf(item.options.length, corrects);
+  const hints = availableHints({
+    hasDefinitions: hasDefinitions(data.passage.textHtml),
+    distractors,
+    hasEvidence: !!item.evidenceRefs?.length,
+  });
+  const eliminated = hintLevel >= 2 ? eliminatedOption(`${data.id}__${item.id}`, distractors) : null;
+
+  const useHint = (level: HintLevel) => {
+    onActivate();
+    onHint(level);
+    const out = level >= 2 ? eliminatedOption(`${data.id}__${item.id}`, distractors) : null;
+    if (out) setChosen(prev => prev.filter(x => x !== out));
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (chosen.length === 0) return alert('請選擇答案');
+    onActivate();
+
+    const payload: string | string[] =
+      item.subtype === 'multi_select' ? normalizeChoiceArray(chosen) : chosen[0];
+    const correct = item.subtype === 'multi_select' ? item.correctAnswers || [] : item.answer || '';
+    const ok = isChoiceCorrect(payload, correct);
+    const s = applyHintPenalty(scoreChoice(payload, correct, item.options.length, resolveRule(data)), hintLevel);
+
+    setIsCorrect(ok);
+    setScore(s);
+    setLocalSubmitted(true);
+    onSubmitted(ok);
+
+    const attempt: AttemptInput = {
+      type: 'reading',
+      questionId: data.id,
+      subItemId: item.id,
+      chosen: payload,
+      isCorrect: ok,
+      score: s,
+      hintLevel,
+      ...(assignmentId ? { assignmentId } : {}),
+    };
+    await attemptOutbox.record(userId, attempt);
+    onAttempted?.(attempt);
+  };
+
+  const retry = () => {
+    onActivate();
+    onRetry();
+    setChosen([]);
+    setIsCorrect(null);
+    setScore(0);
+    setLocalSubmitted(false);
+  };
+
+  const setChoice = (letter: string) => {
+    onActivate();
+    if (item.subtype === 'single_choice') setChosen([letter]);
+    else setChosen(prev => {
+      const s = new Set(prev);
+      s.has(letter) ? s.delete(letter) : s.add(letter);
+      return [...s];
+    });
+  };
+
+  const optCls = (letter: string) => {
+    if (!localSubmitted) return letter === eliminated ? 'opacity-50 line-through cursor-not-allowed' : 'hover:bg-gray-100';
+    if (corrects.includes(letter)) return 'bg-green-100 border-green-500';
+    if (chosen.includes(letter)) return 'bg-red-100 border-red-500';
+    return 'bg-white';
+  };
+
+  return (
+    <div data-question tabIndex={-1} onKeyDown={e => { onActivate(); onPracticeKeyDown(e); }}
+         role="group" aria-labelledby={`${data.id}-${item.id}-stem`}
+         className={`p-4 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-300 ${localSubmitted ? 'bg-gray-50' : 'bg-white'}`}>
+      <form onSubmit={submit}>
+        <p id={`${data.id}-${item.id}-stem`} className="font-medium mb-3" dangerouslySetInnerHTML={{ __html: display.annotate(item.stem) }} />
+        <div className="space-y-2">
+          {item.options.map((opt, i) => {
+            const letter = optionLetter(i);
+            return (
+              <label key={letter} className={`p-2 border rounded-md cursor-pointer flex items-start text-sm ${optCls(letter)}`}>
+                <input
+                  type={item.subtype === 'multi_select' ? 'checkbox' : 'radio'}
+                  name={item.id}
+                  value={letter}
+                  checked={chosen.includes(letter)}
+                  onChange={() => setChoice(letter)}
+                  disabled={localSubmitted || letter === eliminated}
+                  className="mr-3 mt-1 h-4 w-4"
+                />
+                <span dangerouslySetInnerHTML={{ __html: `(${letter}) ${display.annotate(opt)}` }} />
+                {letter === eliminated && !localSubmitted && <span className="sr-only">（已刪去）</span>}
+                {localSubmitted && <OptionResult correct={corrects.includes(letter)} chosen={chosen.includes(letter)} />}
+              </label>
+            );
+          })}
+        </div>
+        <div className="mt-3">
+          <ReadAloud label="朗讀此題" build={() => questionSegments(item.stem, item.options, { tags: data.meta?.tags })} />
+        </div>
+        {!localSubmitted && (
+          <>
+            <div className="mt-3"><HintButton level={hintLevel} available={hints} onHint={useHint} /></div>
+            <button type="submit" data-action="submit" className="mt-3 w-full bg-blue-600 text-white px-4 py-1.5 rounded-md text-sm">提交此題</button>
+          </>
+        )}
+      </form>
+
+      <p role="status" className="sr-only">
+        {localSubmitted
+          ? `${isCorrect ? '回答正確' : score > 0 ? `部分正確，得分 ${formatScore(score)}` : '回答錯誤'}，正解是 ${normalizeChoiceArray(corrects).join('、')}`
+          : ''}
+      </p>
+
+      {localSubmitted && (
+        <div className="mt-3 pt-3 border-t">
+          <p className={`font-bold ${isCorrect ? 'text-green-600' : score > 0 ? 'text-amber-600' : 'text-red-600'}`}>
+            {isCorrect ? '✅ 回答正確' : score > 0 ? `🟡 部分正確（${formatScore(score)}）` : '❌ 回答錯誤'}
+            {isCorrect && hintLevel > 0 && (
+              <span className="ml-2 text-sm font-normal text-amber-700">（使用提示 {hintLevel} 級，得分 {formatScore(score)}）</span>
+            )}
+          </p>
+          <p className="text-sm">
+            <span className="font-semibold">正解：</span>
+            {item.subtype === 'multi_select'
+              ? normalizeChoiceArray(item.correctAnswers || []).join('、')
+              : item.answer}
+          </p>
+          {item.explanation && (
+            <p className="text-sm mt-1">
+              <span className="font-semibold">解析：</span>
+              <span dangerouslySetInnerHTML={{ __html: display.html(item.explanation) }} />
+            </p>
+          )}
+          <button type="button" data-action="retry" onClick={retry}
+                  className="mt-3 w-full bg-yellow-500 text-black px-4 py-1.5 rounded-md text-sm">重做此題</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ReadingBlock({ data, number, userId, assignmentId, onAttempted }: BlockProps<ReadingQuestion>) {
   const [submissions, setSubmissions] = useState<Record<string, { isCorrect: boolean }>>({});
-  const [highlightedRefs, setHighlightedRefs] = useState<string[]>([]);
-  const [tooltip, setTooltip] = useState<{ content: string; x: number; y: number } | null>(null);
+  const [hints, setHints] = useState<Record<string, HintLevel>>({});
+  const [activeItem, setActiveItem] = useState<string | null>(null);
+  const display = useDisplay();
   const passageRef = useRef<HTMLDivElement>(null);
 
-  const handleSubItemFocus = (itemId: string) => {
-    const cur = data.items.find(i => i.id === itemId);
-    setHighlightedRefs(cur?.evidenceRefs || []);
-  };
   const handleSubmission = (id: string, ok: boolean) =>
     setSubmissions(prev => ({ ...prev, [id]: { isCorrect: ok } }));
 
+  const handleRetry = (id: string) => {
+    setSubmissions(({ [id]: _, ...rest }) => rest);
+    setHints(({ [id]: _, ...rest }) => rest);
+  };
+
+  // 作答中的小題用了提示 1 才顯示文章釋義、用了提示 3 才標示證據；交卷後都開放
+  const activeHint = activeItem ? (submissions[activeItem] ? MAX_HINT_LEVEL : hints[activeItem] ?? 0) : 0;
+  const highlightedRefs = activeHint >= 3 ? data.items.find(i => i.id === activeItem)?.evidenceRefs ?? [] : [];
+  const highlightKey = highlightedRefs.join('|');
+
   useEffect(() => {
     const el = passageRef.current;
     if (!el) return;
@@ -399,123 +627,7 @@ function ReadingBlock({
         t.scrollIntoView({ behavior: 'smooth', block: 'center' });
       }
     });
-  }, [highlightedRefs]);
-
-  useEffect(() => {
-    const el = passageRef.current;
-    if (!el) return;
-    const over = (e: MouseEvent) => {
-      const t = e.target as HTMLElement;
-      if (t.dataset.term) {
-        const r = t.getBoundingClientRect();
-        setTooltip({ content: t.dataset.term, x: r.left + window.scrollX, y: r.top + window.scrollY - 10 });
-      }
-    };
-    const out = () => setTooltip(null);
-    el.addEventListener('mouseover', over);
-    el.addEventListener('mouseout', out);
-    return () => { el.removeEventListener('mouseover', over); el.removeEventListener('mouseout', out); };
-  }, []);
-
-  const SubQ = ({ item, isSubmitted: parentSubmitted }: { item: ReadingSubItem; isSubmitted: boolean }) => {
-    const [chosen, setChosen] = useState<string[]>([]);
-    const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
-    const [localSubmitted, setLocalSubmitted] = useState(parentSubmitted);
-
-    const submit = async (e: React.FormEvent) => {
-      e.preventDefault();
-      if (chosen.length === 0) return alert('請選擇答案');
-
-      let ok = false;
-      let payload: string | string[];
-      if (item.subtype === 'multi_select') {
-        const u = normalizeChoiceArray(chosen);
-        const c = normalizeChoiceArray(item.correctAnswers || []);
-        ok = isMultiCorrect(u, c);
-        payload = u;
-      } else {
-        payload = chosen[0];
-        ok = payload === item.answer;
-      }
-
-      setIsCorrect(ok);
-      setLocalSubmitted(true);
-      handleSubmission(item.id, ok);
-
-      const next = new Date();
-      next.setDate(next.getDate() + (ok ? 7 : 1));
-      await addDoc(collection(db, 'users', userId, 'history'), {
-        type: 'reading',
-        questionId: data.id,
-        subItemId: item.id,
-        chosen: payload,
-        isCorrect: ok,
-        hintLevel: 0,
-        timestamp: serverTimestamp(),
-        nextReviewDate: Timestamp.fromDate(next),
-      });
-    };
-
-    const setChoice = (letter: string) => {
-      if (item.subtype === 'single_choice') setChosen([letter]);
-      else setChosen(prev => {
-        const s = new Set(prev);
-        s.has(letter) ? s.delete(letter) : s.add(letter);
-        return [...s];
-      });
-    };
-
-    const optCls = (letter: string) => {
-      if (!localSubmitted) return 'hover:bg-gray-100';
-      const corrects = item.subtype === 'multi_select' ? item.correctAnswers : [item.answer];
-      if (corrects?.includes(letter)) return 'bg-green-100 border-green-500';
-      if (chosen.includes(letter)) return 'bg-red-100 border-red-500';
-      return 'bg-white';
-    };
-
-    return (
-      <div className={`p-4 border rounded-lg ${localSubmitted ? 'bg-gray-50' : 'bg-white'}`} onFocus={() => handleSubItemFocus(item.id)} tabIndex={-1}>
-        <form onSubmit={submit}>
-          <p className="font-medium mb-3">{item.stem}</p>
-          <div className="space-y-2">
-            {item.options.map((opt, i) => {
-              const letter = String.fromCharCode(65 + i);
-              return (
-                <label key={letter} className={`p-2 border rounded-md cursor-pointer flex items-start text-sm ${optCls(letter)}`}>
-                  <input
-                    type={item.subtype === 'multi_select' ? 'checkbox' : 'radio'}
-                    name={item.id}
-                    value={letter}
-                    checked={chosen.includes(letter)}
-                    onChange={() => setChoice(letter)}
-                    disabled={localSubmitted}
-                    className="mr-3 mt-1 h-4 w-4"
-                  />
-                  <span>{`(${letter}) ${opt}`}</span>
-                </label>
-              );
-            })}
-          </div>
-          {!localSubmitted && (
-            <button type="submit" className="mt-3 w-full bg-blue-600 text-white px-4 py-1.5 rounded-md text-sm">提交此題</button>
-          )}
-        </form>
-
-        {localSubmitted && (
-          <div className="mt-3 pt-3 border-t">
-            <p className={`font-bold ${isCorrect ? 'text-green-600' : 'text-red-600'}`}>{isCorrect ? '回答正確' : '回答錯誤'}</p>
-            <p className="text-sm">
-              <span className="font-semibold">正解：</span>
-              {item.subtype === 'multi_select'
-                ? normalizeChoiceArray(item.correctAnswers || []).join('、')
-                : item.answer}
-            </p>
-            {item.explanation && <p className="text-sm mt-1"><span className="font-semibold">解析：</span>{item.explanation}</p>}
-          </div>
-        )}
-      </div>
-    );
-  };
+  }, [highlightKey]);
 
   const total = data.items.length;
   const completed = Object.keys(submissions).length;
@@ -523,21 +635,32 @@ function ReadingBlock({
 
   return (
     <div className="bg-white p-6 rounded-xl shadow-sm">
-      <h2 className="text-xl font-bold mb-4">{`${number}. 閱讀測驗：${data.passage.title}`}</h2>
+      <h2 id={`${data.id}-passage`} className="text-xl font-bold mb-4">{`${number}. 閱讀測驗：${display.text(data.passage.title)}`}</h2>
 
-      {tooltip && (
-        <div className="absolute z-50 p-2 text-sm bg-gray-800 text-white rounded-md -translate-y-full pointer-events-none"
-             style={{ left: tooltip.x, top: tooltip.y }}>
-          {tooltip.content}
-        </div>
-      )}
+      {data.passage.audioUrl && <PassageAudio src={data.passage.audioUrl} passageRef={passageRef} />}
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        <RubyToggle />
+        <ReadAloud label="朗讀文章" build={() => passageSegments(data.passage.title, data.passage.textHtml, data.meta?.tags)} />
+      </div>
 
       <div className="flex flex-col lg:flex-row gap-8">
-        <article ref={passageRef} className="lg:w-1/2 prose max-w-none prose-sm sm:prose-base leading-relaxed">
-          <div dangerouslySetInnerHTML={{ __html: data.passage.textHtml }} />
+        <article ref={passageRef} aria-labelledby={`${data.id}-passage`}
+                 className={`lg:w-1/2 prose max-w-none prose-sm sm:prose-base leading-relaxed ${activeHint >= 1 ? '' : 'hide-definitions'}`}>
+          <div dangerouslySetInnerHTML={{ __html: display.annotate(data.passage.textHtml) }} />
+          <p role="status" className="sr-only">
+            {highlightedRefs.length ? `已在文章中以黃底標示 ${highlightedRefs.length} 處作答依據` : ''}
+          </p>
         </article>
         <aside className="lg:w-1/2 space-y-4">
-          {data.items.map(item => <div key={item.id}><SubQ item={item} isSubmitted={!!submissions[item.id]} /></div>)}
+          {data.items.map(item => (
+            <ReadingSubQuestion key={item.id} data={data} item={item} userId={userId}
+                                hintLevel={hints[item.id] ?? 0}
+                                onHint={level => setHints(prev => ({ ...prev, [item.id]: level }))}
+                                onActivate={() => setActiveItem(item.id)}
+                                onSubmitted={ok => handleSubmission(item.id, ok)}
+                                onRetry={() => handleRetry(item.id)}
+                                assignmentId={assignmentId} onAttempted={onAttempted} />
+          ))}
         </aside>
       </div>
 
@@ -554,81 +677,250 @@ function ReadingBlock({
 }
 
 /* =========================================================================
-   6) 題目渲染器 & 模組
+   3) 題目渲染器 & 模組
    ========================================================================= */
 function QuestionRenderer({
-  questionData, number, userId,
-}: { questionData: any; number: number; userId: string }) {
-  const type = questionData.type ?? 'single_choice';
-  switch (type) {
-    case 'multi_select': return <MultiSelectBlock data={questionData} number={number} userId={userId} />;
-    case 'reading':      return <ReadingBlock data={questionData} number={number} userId={userId} />;
-    case 'single_choice':
-    default:             return <SingleChoiceBlock data={questionData as SingleChoiceQuestion} number={number} userId={userId} />;
+  questionData, ...rest
+}: { questionData: Question } & Omit<BlockProps<Question>, 'data'>) {
+  switch (questionData.type) {
+    case 'multi_select':  return <MultiSelectBlock data={questionData} {...rest} />;
+    case 'reading':       return <ReadingBlock data={questionData} {...rest} />;
+    case 'single_choice': return <SingleChoiceBlock data={questionData} {...rest} />;
+  }
+}
+
+const PAGE_SIZE = 20;
+
+/** 複製目前網址（分享單題或練習卷） */
+async function copyCurrentLink() {
+  try {
+    await navigator.clipboard.writeText(location.href);
+    alert('✅ 已複製連結');
+  } catch {
+    prompt('請複製以下連結：', location.href);
   }
 }
 
-function PracticeModule({ userId }: { userId: string }) {
+function PracticeModule({ userId, search }: { userId: string; search: string }) {
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [practiceSet, setPracticeSet] = useState<Question[] | null>(null);
+  const [cursor, setCursor] = useState<QuestionCursor | null>(null);
+  const [complete, setComplete] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const busy = useRef(false);
 
+  // 先顯示 IndexedDB 快取並增量同步；沒有快取才從第一頁開始讀
   useEffect(() => {
+    let cancelled = false;
     const run = async () => {
       setLoading(true);
       try {
-        const qy = query(collection(db, 'questions'), orderBy('createdAt', 'desc'));
-        const snap = await getDocs(qy);
-        setQuestions(snap.docs.map(d => ({ id: d.id, ...(d.data() as any) })));
+        const cached = await questionCache.restore();
+        if (cached) {
+          if (cancelled) return;
+          setQuestions(cached.questions);
+          setCursor(cached.next);
+          setComplete(cached.complete);
+          setLoading(false);
+          if (!navigator.onLine) return;   // 離線時先用快取作答，恢復連線後下次進入再同步
+          const changed = await questionCache.sync();
+          if (!cancelled && changed.length) setQuestions(prev => mergeQuestions(prev, changed));
+        } else {
+          const page = await questionCache.fetchPage(null, PAGE_SIZE);
+          if (cancelled) return;
+          setQuestions(mergeQuestions([], page.questions));
+          setCursor(page.next);
+          setComplete(!page.next);
+        }
       } catch (e) { console.error(e); }
-      finally { setLoading(false); }
+      finally { if (!cancelled) setLoading(false); }
     };
     run();
+    return () => { cancelled = true; };
   }, [userId]);
 
+  // 回傳載入後的題目清單（all＝讀到最後一頁，組卷時要從整個題庫挑）
+  const loadMore = async (all = false): Promise<Question[]> => {
+    let loaded = questions;
+    if (busy.current || complete || !cursor) return loaded;
+    busy.current = true;
+    setLoadingMore(true);
+    try {
+      let next: QuestionCursor | null = cursor;
+      do {
+        const page = await questionCache.fetchPage(next, PAGE_SIZE);
+        loaded = mergeQuestions(loaded, page.questions);
+        setQuestions(prev => mergeQuestions(prev, page.questions));
+        next = page.next;
+      } while (all && next);
+      setCursor(next);
+      setComplete(!next);
+    } catch (e) { console.error(e); }
+    finally {
+      busy.current = false;
+      setLoadingMore(false);
+    }
+    return loaded;
+  };
+
+  // 網址帶有練習卷時依題目 id 還原；只在網址改變或首次載入完成時處理，之後載入更多題目不重抽
+  const criteria = criteriaFromSearch(search);
+  useEffect(() => {
+    if (loading) return;
+    if (!criteria) return setPracticeSet(null);
+    let cancelled = false;
+    const open = async () => {
+      if (criteria.ids) {
+        // 還沒載入的題目直接依 id 讀取，開連結的人不必先載完整個題庫
+        const byId = new Map(questions.map(q => [q.id, q]));
+        const missing = criteria.ids.filter(id => !byId.has(id));
+        if (missing.length) (await storage.questions.getMany(missing)).forEach(q => byId.set(q.id, q));
+        if (cancelled) return;
+        setPracticeSet(criteria.ids.flatMap(id => {
+          const q = byId.get(id);
+          return q && !q.archived ? [q] : [];
+        }));
+      } else {
+        // 舊連結只有條件與 seed：先載入整個題庫再抽
+        const pool = await loadMore(true);
+        if (!cancelled) setPracticeSet(buildPracticeSet(pool, criteria, criteria.seed ? seededRandom(criteria.seed) : Math.random));
+      }
+    };
+    open().catch(e => console.error('開啟練習卷失敗', e));
+    return () => { cancelled = true; };
+  }, [search, loading]);
+
+  // 從整個題庫抽題，抽中的題目 id 寫進網址，分享出去的連結才會是同一份卷
+  const build = async (c: PracticeSetCriteria | null) => {
+    if (!c) return navigate(PAGE_PATH.practice);
+    const set = buildPracticeSet(await loadMore(true), c);
+    navigate(PAGE_PATH.practice + searchFromCriteria({ ...c, ids: set.map(q => q.id) }));
+  };
+
+  const shown = practiceSet ?? questions;
+
   return (
     <div>
-      <h2 className="text-3xl font-bold mb-6">智慧測驗</h2>
+      <h2 className="text-3xl font-bold mb-2">智慧測驗</h2>
+      <p className="text-xs text-gray-500 mb-6">{PRACTICE_KEYS_HELP}（先點選或用 Tab 移到題目上）</p>
       {loading && <p>載入題目中…</p>}
       {!loading && questions.length === 0 && <p>目前題庫沒有題目。</p>}
+      {!loading && questions.length > 0 && (
+        <>
+          {!complete && (
+            <p className="text-sm text-gray-500 mb-2">
+              已載入 {questions.length} 題；組練習卷時會先載入全部題目再挑選。
+              <button type="button" onClick={() => loadMore(true)} disabled={loadingMore}
+                      className="ml-2 text-blue-700 underline disabled:opacity-50">
+                載入全部題目
+              </button>
+            </p>
+          )}
+          <PracticeSetBuilder key={search} questions={questions} initial={criteria} onBuild={build} />
+        </>
+      )}
+      {practiceSet && (
+        <p className="text-sm text-gray-600 mb-4">
+          練習卷共 {practiceSet.length} 題。
+          <button type="button" onClick={copyCurrentLink} className="ml-2 text-blue-700 underline">複製練習卷連結</button>
+        </p>
+      )}
       <div className="space-y-8">
-        {questions.map((q, i) => <QuestionRenderer key={q.id} questionData={q} number={i + 1} userId={userId} />)}
+        {shown.map((q, i) => (
+          <LazyRender key={q.id}>
+            <div>
+              <Link to={questionPath(q.id)} className="float-right text-xs text-gray-500 hover:text-blue-700">🔗 單題連結</Link>
+              <QuestionRenderer questionData={q} number={i + 1} userId={userId} />
+            </div>
+          </LazyRender>
+        ))}
+      </div>
+      {!practiceSet && !loading && !complete && (
+        <>
+          <ScrollSentinel onVisible={() => loadMore()} disabled={loadingMore} />
+          <p className="text-center text-sm text-gray-500 mt-4">{loadingMore ? '載入更多題目中…' : ''}</p>
+        </>
+      )}
+    </div>
+  );
+}
+
+/** 單題頁（/q/:id）：分享出去的單題連結 */
+function QuestionPage({ id, userId }: { id: string; userId: string }) {
+  const [question, setQuestion] = useState<Question | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    storage.questions.get(id)
+      .then(q => setQuestion(q && !q.archived ? q : null))
+      .catch(e => { console.error(e); setQuestion(null); })
+      .finally(() => setLoading(false));
+  }, [id]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <Link to={PAGE_PATH.practice} className="text-blue-700 hover:underline">← 回到智慧測驗</Link>
+        {question && <button type="button" onClick={copyCurrentLink} className="text-sm text-blue-700 underline">複製題目連結</button>}
       </div>
+      {loading && <p>載入題目中…</p>}
+      {!loading && !question && <p>找不到這一題，可能已被刪除。</p>}
+      {question && <p className="text-xs text-gray-500 mb-2">{PRACTICE_KEYS_HELP}</p>}
+      {question && <QuestionRenderer key={question.id} questionData={question} number={1} userId={userId} />}
     </div>
   );
 }
 
 function AnalysisModule({ userId }: { userId: string }) {
-  const [stats, setStats] = useState<{ total: number; correct: number; accuracy: string } | null>(null);
+  const [stats, setStats] = useState<LearningStats | null>(null);
+  const [dueCount, setDueCount] = useState(0);
+  const [distractorQuestions, setDistractorQuestions] = useState<Question[]>([]);
   const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
 
+  // 匯出自己的作答紀錄（題目標題由題庫補上並轉成純文字）
+  const exportHistory = async () => {
+    setExporting(true);
+    try {
+      const history = await storage.history.listAttempts(userId);
+      const questions = await storage.questions.getMany([...new Set(history.map(h => h.questionId))]);
+      downloadFile(`history-${dateStamp()}.csv`, historyToCsv(history, questions), 'text/csv');
+    } catch (e) {
+      console.error(e);
+      alert('匯出失敗，請稍後再試。');
+    } finally { setExporting(false); }
+  };
+
+  // 只讀增量維護的摘要，不下載全部作答紀錄
   useEffect(() => {
     const run = async () => {
       setLoading(true);
-      const snap = await getDocs(collection(db, 'users', userId, 'history'));
-      let total = 0, correct = 0;
-      snap.forEach(d => { total++; if ((d.data() as any).isCorrect) correct++; });
-      setStats({ total, correct, accuracy: total ? (correct / total * 100).toFixed(1) : '0.0' });
-      setLoading(false);
+      try {
+        const [s, due] = await Promise.all([storage.history.stats(userId), storage.history.dueCount(userId)]);
+        setStats(s);
+        setDueCount(due);
+        setDistractorQuestions(await storage.questions.getMany([...new Set(topDistractors(s).map(d => d.questionId))]));
+      } catch (e) { console.error(e); }
+      finally { setLoading(false); }
     };
     run();
   }, [userId]);
 
   if (loading) return <p>分析報告生成中…</p>;
-  if (!stats || stats.total === 0) return <p>尚無作答紀錄，請先到「智慧測驗」。</p>;
+  if (!stats || stats.total.attempts === 0) return <p>尚無作答紀錄，請先到「智慧測驗」。</p>;
 
   return (
     <div>
-      <h2 className="text-3xl font-bold mb-6">學習分析</h2>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        <div className="bg-white p-6 rounded-lg shadow text-center">
-          <p className="text-sm text-gray-500">總答題數</p>
-          <p className="text-4xl font-bold">{stats.total}</p>
-        </div>
-        <div className="bg-white p-6 rounded-lg shadow text-center">
-          <p className="text-sm text-gray-500">總正確率</p>
-          <p className="text-4xl font-bold text-green-600">{stats.accuracy}%</p>
-        </div>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-3xl font-bold">學習分析</h2>
+        <button onClick={exportHistory} disabled={exporting}
+                className="px-3 py-1.5 text-sm rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50">
+          {exporting ? '匯出中…' : '匯出作答紀錄（CSV）'}
+        </button>
       </div>
+      <AnalyticsDashboard stats={stats} dueCount={dueCount} questions={distractorQuestions} />
     </div>
   );
 }
@@ -641,20 +933,13 @@ function ReinforcementModule({ userId }: { userId: string }) {
     const run = async () => {
       setLoading(true);
       try {
-        const today = Timestamp.now();
-        const hist = query(
-          collection(db, 'users', userId, 'history'),
-          where('nextReviewDate', '<=', today),
-          orderBy('nextReviewDate'),
-          limit(10),
-        );
-        const hsnap = await getDocs(hist);
-        if (hsnap.empty) { setReviewQuestions([]); setLoading(false); return; }
-        const ids = [...new Set(hsnap.docs.map(d => (d.data() as any).questionId))];
+        // 到期的複習卡（閱讀題組可能多張卡對應同一題）
+        const cards = await storage.history.dueCards(userId, 10);
+        const ids = [...new Set(cards.map(c => c.questionId))];
         if (!ids.length) { setReviewQuestions([]); setLoading(false); return; }
 
-        const qsnap = await getDocs(query(collection(db, 'questions'), where('__name__', 'in', ids)));
-        setReviewQuestions(qsnap.docs.map(d => ({ id: d.id, ...(d.data() as any) })));
+        // 已移到回收桶的題目不再排入複習
+        setReviewQuestions((await storage.questions.getMany(ids)).filter(q => !q.archived));
       } catch (e) {
         console.error('讀取複習題失敗', e);
         setReviewQuestions([]);
@@ -676,114 +961,365 @@ function ReinforcementModule({ userId }: { userId: string }) {
   );
 }
 
+type StudentAssignment = {
+  classroom: Classroom;
+  assignment: Assignment;
+  submission: AssignmentSubmission | null;
+};
+
+// 需要處理的排前面：進行中、缺交（仍可補交）、尚未開放，最後是已繳交
+const STATUS_ORDER: SubmissionStatus[] = ['open', 'missing', 'upcoming', 'late', 'submitted'];
+
+function AssignmentWork({
+  item, user, onBack, onChanged,
+}: { item: StudentAssignment; user: AuthUser; onBack: () => void; onChanged: (sub: AssignmentSubmission) => void }) {
+  const { assignment } = item;
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [submission, setSubmission] = useState(item.submission);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    storage.questions.getMany(assignment.questionIds)
+      .then(qs => {
+        const byId = new Map(qs.map(q => [q.id, q]));
+        setQuestions(assignment.questionIds.flatMap(id => byId.get(id) ?? []));
+      })
+      .catch(e => console.error('讀取作業題目失敗', e))
+      .finally(() => setLoading(false));
+  }, [assignment.id]);
+
+  const units = assignmentUnits(assignment, questions);
+  const progress = submissionProgress(units, submission);
+  const status = submissionStatus(assignment, submission);
+
+  const update = (sub: AssignmentSubmission) => { setSubmission(sub); onChanged(sub); };
+
+  // 成績先放進待上傳佇列（離線時恢復連線後重送）；畫面上先記下這一題，每題只計第一次作答
+  const record = async (attempt: AttemptInput) => {
+    const key = cardIdOf(attempt.questionId, attempt.subItemId);
+    const current = submission ?? { userId: user.uid, email: user.email, results: {} };
+    if (!current.submittedAt && !current.results[key]) {
+      update({ ...current, results: { ...current.results, [key]: resultFromAttempt(attempt) } });
+    }
+    await attemptOutbox.recordAssignment(assignment, user, attempt);
+  };
+
+  const submit = async () => {
+    const left = progress.total - progress.answered;
+    if (left > 0 && !confirm(`還有 ${left} 題沒有作答，確定要繳交嗎？`)) return;
+    setSubmitting(true);
+    try {
+      // 成績要比繳交先到伺服器，否則繳交後才送達的成績會被拒收
+      const unsent = await attemptOutbox.flushAssignment(user.uid, assignment.id);
+      if (unsent > 0) {
+        alert(`還有 ${unsent} 題的成績尚未上傳（可能是離線中），請恢復連線後再繳交，以免這些作答沒有計分。`);
+        return;
+      }
+      const submittedAt = await storage.assignments.submit(assignment, user);
+      update({ ...(submission ?? { userId: user.uid, email: user.email, results: {} }), submittedAt });
+    } catch (e) {
+      console.error(e);
+      alert('繳交失敗，請稍後再試。');
+    } finally { setSubmitting(false); }
+  };
+
+  return (
+    <div>
+      <button onClick={onBack} className="mb-4 text-sm text-blue-600 hover:underline">← 回到作業列表</button>
+      <h2 className="text-3xl font-bold mb-1">{assignment.title}</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        {item.classroom.name}｜截止 {assignment.dueAt.toLocaleString()}｜{SUBMISSION_STATUS_LABEL[status]}｜
+        已作答 {progress.answered} / {progress.total}（每題以第一次作答計分）
+      </p>
+
+      {loading ? <p>讀取題目中…</p> : submission?.submittedAt ? (
+        <section className="bg-white p-6 rounded-lg shadow">
+          <p className="mb-3">已於 {submission.submittedAt.toLocaleString()} 繳交，得分率 {Math.round(progress.rate * 100)}%。</p>
+          <ul className="flex flex-wrap gap-2 text-sm">
+            {units.map(u => {
+              const { mark, label } = resultMark(submission.results[u.key]);
+              return <li key={u.key} className="border rounded px-2 py-1">第 {u.label} 題：<span aria-hidden="true">{mark}</span> {label}</li>;
+            })}
+          </ul>
+        </section>
+      ) : (
+        <>
+          <div className="space-y-8">
+            {questions.map((q, i) => (
+              <QuestionRenderer key={q.id} questionData={q} number={i + 1} userId={user.uid}
+                                assignmentId={assignment.id} onAttempted={record} />
+            ))}
+          </div>
+          <div className="mt-8 flex items-center gap-3">
+            <button onClick={submit} disabled={submitting} className="px-6 py-2 rounded bg-green-600 text-white disabled:opacity-50">
+              {submitting ? '繳交中…' : status === 'missing' ? '補交作業' : '繳交作業'}
+            </button>
+            {status === 'missing' && <span className="text-sm text-red-700">已過截止時間，現在繳交會記為遲交。</span>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function AssignmentsModule({ user }: { user: AuthUser }) {
+  const [items, setItems] = useState<StudentAssignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      try {
+        const joined = await storage.classes.listJoined(user.uid);
+        const perClass = await Promise.all(joined.map(async classroom => {
+          const list = await storage.assignments.listForClass(classroom.id);
+          return Promise.all(list.map(async assignment => ({
+            classroom,
+            assignment,
+            submission: await storage.assignments.submission(classroom.id, assignment.id, user.uid),
+          })));
+        }));
+        setItems(perClass.flat());
+      } catch (e) { console.error('讀取作業失敗', e); }
+      finally { setLoading(false); }
+    };
+    run();
+  }, [user.uid]);
+
+  const open = items.find(x => x.assignment.id === openId);
+  if (open) {
+    return (
+      <AssignmentWork item={open} user={user} onBack={() => setOpenId(null)}
+                      onChanged={sub => setItems(prev => prev.map(x => (x.assignment.id === openId ? { ...x, submission: sub } : x)))} />
+    );
+  }
+
+  if (loading) return <p>讀取作業中…</p>;
+  if (items.length === 0) return <p>目前沒有作業。加入班級後，老師出的作業會出現在這裡。</p>;
+
+  const now = new Date();
+  const rows = items
+    .map(x => ({ ...x, status: submissionStatus(x.assignment, x.submission, now) }))
+    .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)
+      || a.assignment.dueAt.getTime() - b.assignment.dueAt.getTime());
+
+  return (
+    <div>
+      <h2 className="text-3xl font-bold mb-6">我的作業</h2>
+      <ul className="space-y-3">
+        {rows.map(({ classroom, assignment, submission, status }) => (
+          <li key={assignment.id} className="bg-white p-4 rounded-lg shadow flex items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <p className="font-semibold">{assignment.title}</p>
+              <p className="text-xs text-gray-500">
+                {classroom.name}｜{assignment.questionIds.length} 題｜
+                {status === 'upcoming' ? `${assignment.opensAt.toLocaleString()} 開放` : `截止 ${assignment.dueAt.toLocaleString()}`}
+                {submission && !submission.submittedAt ? `｜已作答 ${Object.keys(submission.results).length} 個小題` : ''}
+              </p>
+            </div>
+            <span className={`text-sm ${status === 'missing' ? 'text-red-700 font-semibold' : status === 'late' ? 'text-amber-700' : ''}`}>
+              {SUBMISSION_STATUS_LABEL[status]}
+            </span>
+            <button onClick={() => setOpenId(assignment.id)} disabled={status === 'upcoming'}
+                    className="px-3 py-1.5 rounded bg-blue-600 text-white text-sm disabled:opacity-40">
+              {submission?.submittedAt ? '查看' : '作答'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+type MistakeFilter = {
+  type: QuestionType | '';
+  tag: string;
+  from: string;   // 'YYYY-MM-DD'，依最近答錯日期
+  to: string;
+  status: 'open' | 'mastered' | 'all';
+};
+
+function MistakeNotebookModule({ userId }: { userId: string }) {
+  const [entries, setEntries] = useState<MistakeEntry[]>([]);
+  const [questions, setQuestions] = useState<Map<string, Question>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<MistakeFilter>({ type: '', tag: '', from: '', to: '', status: 'open' });
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  const refresh = async () => setEntries(await storage.history.listMistakes(userId));
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      try {
+        const list = await storage.history.listMistakes(userId);
+        const qs = await storage.questions.getMany([...new Set(list.map(m => m.questionId))]);
+        setQuestions(new Map(qs.filter(q => !q.archived).map(q => [q.id, q])));
+        setEntries(list);
+      } catch (e) { console.error('讀取錯題本失敗', e); }
+      finally { setLoading(false); }
+    };
+    run();
+  }, [userId]);
+
+  // 題目已刪除、封存或小題已移除的錯題不列出
+  const rows = entries.flatMap(entry => {
+    const q = questions.get(entry.questionId);
+    const detail = q && mistakeDetail(entry, q);
+    return q && detail ? [{ entry, q, detail }] : [];
+  });
+  const tags = [...new Set(rows.flatMap(r => r.q.meta?.tags ?? []))].sort((a, b) => a.localeCompare(b, 'zh-Hant'));
+
+  const from = filter.from ? new Date(`${filter.from}T00:00:00`) : null;
+  const to = filter.to ? new Date(`${filter.to}T23:59:59.999`) : null;
+  const visible = rows.filter(({ entry, q }) =>
+    (filter.status === 'all' || entry.mastered === (filter.status === 'mastered')) &&
+    (!filter.type || entry.type === filter.type) &&
+    (!filter.tag || (q.meta?.tags ?? []).includes(filter.tag)) &&
+    (!from || entry.lastWrongAt >= from) &&
+    (!to || entry.lastWrongAt <= to));
+
+  const set = <K extends keyof MistakeFilter>(key: K, value: MistakeFilter[K]) => setFilter(f => ({ ...f, [key]: value }));
+
+  if (loading) return <p>錯題本載入中…</p>;
+  if (rows.length === 0) return <p>目前沒有錯題，繼續保持！</p>;
+
+  const openCount = rows.filter(r => !r.entry.mastered).length;
+
+  return (
+    <div>
+      <h2 className="text-3xl font-bold mb-2">錯題本</h2>
+      <p className="text-sm text-gray-500 mb-6">未精熟 {openCount} 題，已精熟 {rows.length - openCount} 題。</p>
+
+      <div className="bg-white p-4 rounded-lg shadow mb-6 flex flex-wrap gap-3 items-end text-sm">
+        <label className="flex flex-col">狀態
+          <select value={filter.status} onChange={e => set('status', e.target.value as MistakeFilter['status'])} className="border rounded p-1">
+            <option value="open">未精熟</option>
+            <option value="mastered">已精熟</option>
+            <option value="all">全部</option>
+          </select>
+        </label>
+        <label className="flex flex-col">題型
+          <select value={filter.type} onChange={e => set('type', e.target.value as MistakeFilter['type'])} className="border rounded p-1">
+            <option value="">全部</option>
+            {(Object.keys(QUESTION_TYPE_LABEL) as QuestionType[]).map(t => <option key={t} value={t}>{QUESTION_TYPE_LABEL[t]}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col">標籤
+          <select value={filter.tag} onChange={e => set('tag', e.target.value)} className="border rounded p-1">
+            <option value="">全部</option>
+            {tags.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col">答錯日期（起）
+          <input type="date" value={filter.from} onChange={e => set('from', e.target.value)} className="border rounded p-1" />
+        </label>
+        <label className="flex flex-col">（迄）
+          <input type="date" value={filter.to} onChange={e => set('to', e.target.value)} className="border rounded p-1" />
+        </label>
+      </div>
+
+      {visible.length === 0 ? <p className="text-gray-500">沒有符合條件的錯題。</p> : (
+        <ul className="space-y-4">
+          {visible.map(({ entry, q, detail }) => {
+            const id = mistakeId(entry);
+            return (
+              <MistakeCard key={id} entry={entry} detail={detail} curriculum={curriculumLabel(q)}
+                           retrying={retrying === id} onRetry={() => setRetrying(r => (r === id ? null : id))}>
+                <QuestionRenderer questionData={q} number={1} userId={userId} onAttempted={refresh} />
+              </MistakeCard>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 /* =========================================================================
-   7) 管理員後台（含「最近題目（可刪除）」）
+   4) 管理員後台（含「最近題目（可編輯／刪除）」與修訂紀錄）
    ========================================================================= */
-function AdminModule() {
+function AdminModule({ user }: { user: AuthUser }) {
   // 既有：貼題入庫
   const [pastedContent, setPastedContent] = useState('');
+  const [pasteKind, setPasteKind] = useState<PasteKind>('auto');
+  const [pasteMeta, setPasteMeta] = useState<QuestionMeta | undefined>(undefined);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [message, setMessage] = useState('');
 
-  // 新增：清單 + 篩選 + 刪除
-  type LiteQ = { id: string; title?: string; createdAt?: any; correctAnswer?: string; type?: string };
+  // 新增：清單 + 篩選 + 封存（軟刪除）
+  const [view, setView] = useState<'list' | 'trash'>('list');
+  const [selected, setSelected] = useState<string[]>([]);
   const [listLoading, setListLoading] = useState(true);
-  const [items, setItems] = useState<LiteQ[]>([]);
+  const [items, setItems] = useState<Question[]>([]);
   const [kw, setKw] = useState('');
-
-  const htmlToText = (html?: string) => {
-    const div = document.createElement('div');
-    div.innerHTML = html || '';
-    return (div.textContent || '').replace(/\s+/g, ' ').trim();
-    // 可把 <span class="definition/translation"> 一併轉成文字檢索
+  const [panel, setPanel] = useState<{ id: string; mode: 'edit' | 'history' } | null>(null);
+
+  const togglePanel = (id: string, mode: 'edit' | 'history') =>
+    setPanel(p => (p?.id === id && p.mode === mode ? null : { id, mode }));
+
+  const handleSave = async (id: string, content: QuestionDraft) => {
+    const { question, removed } = sanitizeQuestion(content);
+    const rev = await storage.questions.update(id, question, user);
+    const note = removed.length ? `已移除不安全的 HTML：${removed.join('、')}。` : '';
+    setMessage(rev ? `✅ 已儲存修改（${rev.diff.length} 個欄位）。${note}` : '內容沒有變動。');
+    setPanel(null);
+    fetchRecent();
   };
 
   const fetchRecent = async () => {
     setListLoading(true);
     try {
-      const qy = query(collection(db, 'questions'), orderBy('createdAt', 'desc'), limit(50));
-      const snap = await getDocs(qy);
-      setItems(snap.docs.map(d => ({ id: d.id, ...(d.data() as DocumentData) } as LiteQ)));
-    } catch {
-      // 舊資料缺 createdAt 的保底
-      const snap = await getDocs(collection(db, 'questions'));
-      setItems(snap.docs.map(d => ({ id: d.id, ...(d.data() as DocumentData) } as LiteQ)));
+      setItems(await storage.questions.list({ max: 50 }));
     } finally {
       setListLoading(false);
     }
   };
   useEffect(() => { fetchRecent(); }, []);
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('確定要刪除此題嗎？刪除後無法復原。')) return;
+  // 刪除＝封存：題目移到回收桶，作答紀錄與複習卡仍可對應
+  const handleArchive = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    if (!confirm(`確定要刪除 ${ids.length} 題嗎？題目會移到回收桶，可再還原。`)) return;
     try {
-      await deleteDoc(doc(db, 'questions', id));
-      setItems(prev => prev.filter(x => x.id !== id));
-      setMessage('✅ 已刪除 1 題。');
+      await storage.questions.archive(ids, user);
+      setItems(prev => prev.filter(x => !ids.includes(x.id)));
+      setSelected(prev => prev.filter(id => !ids.includes(id)));
+      setMessage(`✅ 已將 ${ids.length} 題移到回收桶。`);
     } catch (err) {
       console.error(err);
       setMessage('❌ 刪除失敗，請稍後再試。');
     }
   };
 
-  // 既有：貼題入庫（保留原解析格式）
+  // 舊題目缺建立時間時，練習頁的分頁讀不到它們；補一次就好
+  const handleBackfill = async () => {
+    try {
+      const n = await storage.questions.backfillCreatedAt();
+      setMessage(n ? `✅ 已替 ${n} 題補上建立時間。` : '✅ 所有題目都有建立時間，不需要整理。');
+    } catch (err: any) {
+      setMessage(`❌ 整理失敗：${err?.message || '未知錯誤'}`);
+    }
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelected(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+
+  // 既有：貼題入庫（格式見 lib/paste-parser）
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
     setMessage('');
 
     try {
-      const div = document.createElement('div');
-      div.innerHTML = pastedContent;
-      const plain = div.textContent || '';
-
-      if (!plain.includes('正確答案：')) throw new Error("找不到 '✅ 正確答案：'。");
-      if (!plain.includes('詳解：'))     throw new Error("找不到 '📖 詳解：'。");
-
-      const errorParts = pastedContent.split(/🔍/i);
-      const mainHtml = errorParts[0];
-      const errorHtml = errorParts[1] || '';
-
-      const explanationParts = mainHtml.split(/📖/i);
-      const explanation = explanationParts[1]?.replace('詳解：', '').trim() || '';
-      const contentBeforeExplanationHtml = explanationParts[0];
-
-      const ans = plain.match(/✅\s*正確答案：\s*([A-Z])/i);
-      if (!ans) throw new Error("無法解析正確答案（例：✅ 正確答案：C）。");
-      const correctAnswer = ans[1].toUpperCase();
-
-      const contentBeforeAnswerHtml = contentBeforeExplanationHtml.split(/✅/i)[0].trim();
-      const firstIdx = contentBeforeAnswerHtml.search(/\(\s*[A-Z]\s*\)/);
-      if (firstIdx === -1) throw new Error("找不到任何選項標記（例如 (A)）。");
-
-      const title = contentBeforeAnswerHtml
-        .substring(0, firstIdx)
-        .replace(/^[0-9]+\.\s*（\s*　?\s*）/, '')
-        .trim();
-
-      const optionsBlock = contentBeforeAnswerHtml.substring(firstIdx);
-      const options = optionsBlock.split(/\(\s*[A-Z]\s*\)/).slice(1).map(s => s.trim());
-
-      const errorAnalysis: Record<string, string> = {};
-      if (errorHtml) {
-        errorHtml.replace('錯因分析：', '').trim().split('\n').forEach(line => {
-          const [k, v] = line.split(/[:：]/);
-          const key = (k || '').trim().toUpperCase();
-          if (['A','B','C','D','E'].includes(key) && v) errorAnalysis[key] = v.trim();
-        });
-      }
+      const { question: draft, removed } = sanitizeQuestion(parsePaste(pastedContent, pasteKind));
+      await storage.questions.add(pasteMeta ? { ...draft, meta: { ...draft.meta, ...pasteMeta } } : draft);
 
-      await addDoc(collection(db, 'questions'), {
-        type: 'single_choice',
-        title,
-        options,
-        correctAnswer,
-        explanation,
-        errorAnalysis,
-        createdAt: serverTimestamp(),
-      });
-
-      setMessage('✅ 成功新增題目！');
+      setMessage(removed.length
+        ? `✅ 成功新增題目！已移除不安全的 HTML：${removed.join('、')}。`
+        : '✅ 成功新增題目！');
       setPastedContent('');
       fetchRecent();
     } catch (err: any) {
@@ -795,13 +1331,15 @@ function AdminModule() {
 
   const filtered = items.filter(i =>
     !kw ||
-    htmlToText(i.title).includes(kw) ||
-    (i.correctAnswer || '').toUpperCase().includes(kw.toUpperCase())
+    htmlToText(questionTitle(i)).includes(kw) ||
+    (i.type === 'single_choice' && i.correctAnswer.toUpperCase().includes(kw.toUpperCase()))
   );
+  const { lessons } = collectMetaOptions(items);
+  const allFilteredSelected = filtered.length > 0 && filtered.every(q => selected.includes(q.id));
 
   return (
     <div className="space-y-6">
-      <h2 className="text-3xl font-bold">管理員後台 - 智慧產生器（單選題）</h2>
+      <h2 className="text-3xl font-bold">管理員後台 - 智慧產生器（單選／多選／閱讀題組）</h2>
       {message && (
         <p className={`p-3 rounded-md ${message.startsWith('✅') ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
           {message}
@@ -810,13 +1348,28 @@ function AdminModule() {
 
       {/* 貼題入庫 */}
       <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow">
+        <div className="flex items-center gap-2 mb-3 text-sm">
+          <label htmlFor="paste-kind" className="font-semibold">題型</label>
+          <select id="paste-kind" value={pasteKind} onChange={e => setPasteKind(e.target.value as PasteKind)}
+                  className="border rounded px-2 py-1">
+            <option value="auto">自動判斷</option>
+            <option value="single_choice">單選題</option>
+            <option value="multi_select">多選題（✅ 正確答案：A、C）</option>
+            <option value="reading">閱讀題組（📄 文章 + ❓ 小題 + 📌 依據）</option>
+          </select>
+        </div>
         <textarea
           value={pastedContent}
           onChange={(e) => setPastedContent(e.target.value)}
           rows={18}
           className="w-full p-2 border rounded-md font-mono text-sm"
-          placeholder="把完整題目貼在這裡（要含：✅ 正確答案：X、📖 詳解：…、以及 (A)(B)(C)(D) 選項；可含 .definition / .translation）"
+          placeholder={'把完整題目貼在這裡（要含：✅ 正確答案：X、📖 詳解：…、以及 (A)(B)(C)(D) 選項；可含 .definition / .translation）\n'
+            + '多選：✅ 正確答案：A、C\n'
+            + '閱讀題組：📄 閱讀測驗：標題 → 文章（以 {p1|句子} 標出依據句）→ 每個小題以 ❓ 開頭，可加 📌 依據：p1、p2；只有一個答案的多選小題寫 ❓[多選]'}
         />
+        <div className="mt-3">
+          <MetaFields value={pasteMeta} lessons={lessons} onChange={setPasteMeta} />
+        </div>
         <button
           type="submit"
           disabled={isSubmitting}
@@ -826,11 +1379,47 @@ function AdminModule() {
         </button>
       </form>
 
-      {/* 最近題目（可刪除） */}
+      {/* 批次匯入 */}
+      <BulkImport onImported={fetchRecent} />
+
+      {/* 匯出 */}
+      <QuestionExport />
+
+      {/* 詞語註釋詞庫 */}
+      <section className="bg-white p-6 rounded-lg shadow">
+        <h3 className="text-xl font-semibold mb-3">詞語註釋詞庫</h3>
+        <GlossaryManager />
+      </section>
+
+      {/* 教師帳號 */}
+      <section className="bg-white p-6 rounded-lg shadow">
+        <h3 className="text-xl font-semibold mb-3">教師帳號</h3>
+        <TeacherRoles />
+      </section>
+
+      {/* 資料維護 */}
+      <section className="bg-white p-6 rounded-lg shadow">
+        <h3 className="text-xl font-semibold mb-3">資料維護</h3>
+        <p className="text-sm text-gray-600 mb-3">早期匯入的題目可能缺建立時間，練習頁依建立時間分頁，讀不到這些題目。執行一次即可補齊（會讀取整個題庫）。</p>
+        <button type="button" onClick={handleBackfill} className="px-3 py-1.5 text-sm rounded bg-gray-200 hover:bg-gray-300">
+          補上舊題目的建立時間
+        </button>
+      </section>
+
+      {/* 最近題目（可編輯／刪除） */}
       <section className="bg-white p-6 rounded-lg shadow">
         <div className="flex items-center justify-between mb-3">
-          <h3 className="text-xl font-semibold">最近題目（可刪除）</h3>
           <div className="flex gap-2">
+            <button type="button" onClick={() => setView('list')}
+                    className={`text-xl font-semibold px-2 rounded ${view === 'list' ? 'bg-gray-200' : 'text-gray-500'}`}>
+              最近題目（可編輯／刪除）
+            </button>
+            <button type="button" onClick={() => setView('trash')}
+                    className={`text-xl font-semibold px-2 rounded ${view === 'trash' ? 'bg-gray-200' : 'text-gray-500'}`}>
+              回收桶
+            </button>
+          </div>
+          {view === 'list' && <div className="flex gap-2">
             <input
               value={kw}
               onChange={(e) => setKw(e.target.value)}
@@ -840,37 +1429,93 @@ function AdminModule() {
             <button onClick={fetchRecent} type="button" className="px-3 py-1.5 text-sm rounded bg-gray-200 hover:bg-gray-300">
               重新整理列表
             </button>
-          </div>
+          </div>}
         </div>
 
-        {listLoading ? (
+        {view === 'trash' ? (
+          <TrashBin onChanged={fetchRecent} />
+        ) : listLoading ? (
           <p>讀取中…</p>
         ) : filtered.length === 0 ? (
           <p className="text-gray-500">目前沒有資料。</p>
         ) : (
+          <>
+          <div className="flex items-center gap-3 mb-2 text-sm">
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={allFilteredSelected}
+                onChange={() => setSelected(allFilteredSelected ? [] : filtered.map(q => q.id))}
+              />
+              全選
+            </label>
+            <button
+              type="button"
+              disabled={selected.length === 0}
+              onClick={() => handleArchive(selected)}
+              className="px-3 py-1 rounded bg-red-50 text-red-700 hover:bg-red-100 disabled:opacity-40"
+            >
+              刪除選取的 {selected.length} 題
+            </button>
+          </div>
           <ul className="divide-y">
             {filtered.map(q => {
-              const created =
-                q.createdAt?.toDate ? q.createdAt.toDate() :
-                (q.createdAt?.seconds ? new Date(q.createdAt.seconds * 1000) : null);
+              const created = q.createdAt;
               return (
-                <li key={q.id} className="py-3 flex items-start gap-3">
-                  <div className="flex-1 min-w-0">
-                    <div className="font-medium truncate">{htmlToText(q.title)}</div>
-                    <div className="text-xs text-gray-500">
-                      ID：{q.id}　{created ? `建立：${created.toLocaleString()}` : ''}{q.correctAnswer ? `　答案：${q.correctAnswer}` : ''}
+                <li key={q.id} className="py-3">
+                  <div className="flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      aria-label="選取此題"
+                      checked={selected.includes(q.id)}
+                      onChange={() => toggleSelected(q.id)}
+                      className="mt-1.5"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{htmlToText(questionTitle(q))}</div>
+                      <div className="text-xs text-gray-500">
+                        ID：{q.id}　{created ? `建立：${created.toLocaleString()}` : ''}
+                        {q.updatedAt && q.updatedAt.getTime() !== created?.getTime() ? `　修改：${q.updatedAt.toLocaleString()}` : ''}
+                        {q.type === 'single_choice' ? `　答案：${q.correctAnswer}` : ''}
+                      </div>
+                      {(curriculumLabel(q) || q.meta?.difficulty || q.meta?.tags?.length) && (
+                        <div className="flex flex-wrap gap-1 mt-1 text-xs">
+                          {curriculumLabel(q) && <span className="bg-blue-50 text-blue-700 rounded px-2">{curriculumLabel(q)}</span>}
+                          {q.meta?.difficulty && <span className="bg-yellow-50 text-yellow-800 rounded px-2">難度 {q.meta.difficulty}</span>}
+                          {(q.meta?.tags ?? []).map(t => <span key={t} className="bg-gray-100 rounded px-2">{t}</span>)}
+                        </div>
+                      )}
                     </div>
+                    <button
+                      onClick={() => togglePanel(q.id, 'edit')}
+                      className="shrink-0 px-3 py-1.5 rounded bg-blue-50 text-blue-700 hover:bg-blue-100"
+                    >
+                      編輯
+                    </button>
+                    <button
+                      onClick={() => togglePanel(q.id, 'history')}
+                      className="shrink-0 px-3 py-1.5 rounded bg-gray-100 hover:bg-gray-200"
+                    >
+                      修訂紀錄
+                    </button>
+                    <button
+                      onClick={() => handleArchive([q.id])}
+                      className="shrink-0 px-3 py-1.5 rounded bg-red-50 text-red-700 hover:bg-red-100"
+                    >
+                      刪除
+                    </button>
                   </div>
-                  <button
-                    onClick={() => handleDelete(q.id)}
-                    className="shrink-0 px-3 py-1.5 rounded bg-red-50 text-red-700 hover:bg-red-100"
-                  >
-                    刪除
-                  </button>
+                  {panel?.id === q.id && panel.mode === 'edit' && (
+                    <QuestionEditor question={q} lessons={lessons} onSave={content => handleSave(q.id, content)} onCancel={() => setPanel(null)} />
+                  )}
+                  {panel?.id === q.id && panel.mode === 'history' && (
+                    <RevisionHistory questionId={q.id} user={user} onRestored={fetchRecent} />
+                  )}
                 </li>
               );
             })}
           </ul>
+          </>
         )}
       </section>
     </div>
@@ -878,42 +1523,61 @@ function AdminModule() {
 }
 
 /* =========================================================================
-   8) App（登入 / 導覽 / 模組切換）
+   5) App（登入 / 導覽 / 模組切換）
    ========================================================================= */
 export default function App() {
-  const [user, setUser] = useState<any>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
-  const [page, setPage] = useState<'practice' | 'analysis' | 'reinforcement' | 'admin'>('practice');
+  const { pathname, search } = useLocation();
+  const route = parseRoute(pathname);
+  const { display } = usePreferences();
   const [authMode, setAuthMode] = useState<'login' | 'signup'>('login');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isAdmin, setIsAdmin] = useState(false);
+  const [isTeacher, setIsTeacher] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
-    if (!auth) { setLoading(false); return; }
-    const unsub = onAuthStateChanged(auth, async cur => {
+    const unsub = storage.users.onAuthChange(async cur => {
       if (cur) {
-        const adminDoc = await getDoc(doc(db, 'admins', cur.uid));
-        setIsAdmin(adminDoc.exists());
+        // 離線啟動或讀取失敗時先當一般帳號，不能讓畫面卡在「載入中」
+        const role = (check: Promise<boolean>, what: string) =>
+          check.catch(err => { console.error(`讀取${what}身分失敗`, err); return false; });
+        const [admin, teacher] = await Promise.all([
+          role(storage.users.isAdmin(cur.uid), '管理員'),
+          role(storage.users.isTeacher(cur.uid), '教師'),
+        ]);
+        setIsAdmin(admin);
+        setIsTeacher(teacher);
         setUser(cur);
+        loadPreferences(cur.uid);
+        loadGlossary();
       } else {
         setUser(null);
+        loadPreferences(null);
         setIsAdmin(false);
+        setIsTeacher(false);
       }
       setLoading(false);
     });
     return () => unsub();
   }, []);
 
+  // 不存在的路徑回首頁；非管理員進入後台也導回首頁（以 replace 避免上一頁又回到被擋的網址）
+  const blocked = route.page === 'not_found' || (route.page === 'admin' && !!user && !isAdmin);
+  useEffect(() => {
+    if (!loading && blocked) navigate(PAGE_PATH.practice, { replace: true });
+  }, [loading, blocked]);
+
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
     setError('');
     try {
-      if (authMode === 'login') await signInWithEmailAndPassword(auth, email, password);
-      else await createUserWithEmailAndPassword(auth, email, password);
+      if (authMode === 'login') await storage.users.signIn(email, password);
+      else await storage.users.signUp(email, password);
     } catch (err: any) {
       if (err.code === 'auth/email-already-in-use') setError('註冊失敗：此 Email 已被註冊。');
       else if (['auth/invalid-credential', 'auth/wrong-password'].includes(err.code)) setError('登入失敗：帳號或密碼錯誤。');
@@ -921,31 +1585,25 @@ export default function App() {
     } finally { setIsSubmitting(false); }
   };
 
-  const logout = async () => { await signOut(auth); setPage('practice'); };
+  const logout = async () => { await storage.users.signOut(); navigate(PAGE_PATH.practice); };
 
   const renderContent = () => {
     if (!user) return null;
-    const uid = user.uid as string;
-    switch (page) {
-      case 'practice':      return <PracticeModule userId={uid} />;
+    const uid = user.uid;
+    switch (route.page) {
+      case 'practice':      return <PracticeModule userId={uid} search={search} />;
+      case 'question':      return <QuestionPage id={route.id} userId={uid} />;
+      case 'exam':          return <ExamModule userId={uid} />;
       case 'analysis':      return <AnalysisModule userId={uid} />;
       case 'reinforcement': return <ReinforcementModule userId={uid} />;
-      case 'admin':         return isAdmin ? <AdminModule /> : <p>權限不足。</p>;
-      default:              return <PracticeModule userId={uid} />;
+      case 'mistakes':      return <MistakeNotebookModule userId={uid} />;
+      case 'assignments':   return <AssignmentsModule user={user} />;
+      case 'classes':       return isTeacher ? <TeacherClasses user={user} /> : <JoinClass user={user} />;
+      case 'admin':         return isAdmin ? <AdminModule user={user} /> : null;
+      default:              return null;
     }
   };
 
-  if (!app) {
-    return (
-      <div className="min-h-screen bg-red-100 flex items-center justify-center p-4">
-        <div className="bg-white p-8 rounded-lg shadow-lg border-4 border-red-500">
-          <h1 className="text-3xl font-bold text-center text-red-700">系統設定錯誤</h1>
-          <p className="text-center text-gray-700 mt-4">尚未正確設定 Firebase 金鑰。</p>
-        </div>
-      </div>
-    );
-  }
-
   if (loading) return <div className="flex justify-center items-center h-screen bg-gray-100"><div className="text-xl font-bold">載入中…</div></div>;
 
   if (!user) {
@@ -984,37 +1642,59 @@ export default function App() {
 
   return (
     <>
-      {/* 讓 .definition / .translation 在題目中有顏色 */}
-      <style>{`.definition{color:#d9534f} .translation{color:#0275d8} .prose{max-width:65ch}`}</style>
+      {/* 讓 .definition / .translation 在題目中有顏色；模擬考不顯示釋義與翻譯；讀音關閉時隱藏 ruby，詞庫讀音與釋義同樣受提示限制 */}
+      <style>{`.definition{color:#d9534f} .translation{color:#0275d8} .prose{max-width:65ch} .exam-paper .definition,.exam-paper .translation{display:none} .hide-definitions .definition{display:none} .glossary-term{border-bottom:1px dotted #6b7280;cursor:help} .hide-definitions .glossary-term,.exam-paper .glossary-term{border-bottom:none;cursor:auto} .ruby-off rt,.ruby-off rp,.hide-definitions .auto-ruby rt,.hide-definitions .auto-ruby rp,.exam-paper .auto-ruby rt,.exam-paper .auto-ruby rp{display:none} rt{font-size:0.6em}`}</style>
+      <TermTooltip />
 
-      <div className="flex h-screen bg-gray-100 font-sans">
+      <div className={`flex h-screen bg-gray-100 font-sans ${display.ruby ? '' : 'ruby-off'}`}>
         <aside className="w-64 bg-white shadow-md flex flex-col flex-shrink-0">
           <div className="p-6 border-b">
             <h1 className="text-2xl font-bold text-gray-800">智慧取分系統</h1>
             <p className="text-sm text-gray-500">龍騰版高中國文</p>
+            {storage.backend === 'local' && (
+              <p className="mt-2 text-xs text-amber-700 bg-amber-50 rounded px-2 py-1">本機示範模式：資料只存在此瀏覽器</p>
+            )}
           </div>
           <nav className="flex-1 px-4 py-4">
-            <a href="#" onClick={e => { e.preventDefault(); setPage('practice'); }}
-               className={`flex items-center gap-2 px-4 py-2 rounded-md hover:bg-gray-200 ${page === 'practice' ? 'bg-gray-200' : ''}`}>
+            <Link to={PAGE_PATH.practice} aria-current={route.page === 'practice' ? 'page' : undefined}
+               className={`flex items-center gap-2 px-4 py-2 rounded-md hover:bg-gray-200 ${route.page === 'practice' ? 'bg-gray-200' : ''}`}>
               {icons.book}<span>智慧測驗</span>
-            </a>
-            <a href="#" onClick={e => { e.preventDefault(); setPage('analysis'); }}
-               className={`flex items-center gap-2 px-4 py-2 mt-2 rounded-md hover:bg-gray-200 ${page === 'analysis' ? 'bg-gray-200' : ''}`}>
+            </Link>
+            <Link to={PAGE_PATH.exam} aria-current={route.page === 'exam' ? 'page' : undefined}
+               className={`flex items-center gap-2 px-4 py-2 mt-2 rounded-md hover:bg-gray-200 ${route.page === 'exam' ? 'bg-gray-200' : ''}`}>
+              {icons.clock}<span>模擬考</span>
+            </Link>
+            <Link to={PAGE_PATH.analysis} aria-current={route.page === 'analysis' ? 'page' : undefined}
+               className={`flex items-center gap-2 px-4 py-2 mt-2 rounded-md hover:bg-gray-200 ${route.page === 'analysis' ? 'bg-gray-200' : ''}`}>
               {icons.brain}<span>學習分析</span>
-            </a>
-            <a href="#" onClick={e => { e.preventDefault(); setPage('reinforcement'); }}
-               className={`flex items-center gap-2 px-4 py-2 mt-2 rounded-md hover:bg-gray-200 ${page === 'reinforcement' ? 'bg-gray-200' : ''}`}>
+            </Link>
+            <Link to={PAGE_PATH.reinforcement} aria-current={route.page === 'reinforcement' ? 'page' : undefined}
+               className={`flex items-center gap-2 px-4 py-2 mt-2 rounded-md hover:bg-gray-200 ${route.page === 'reinforcement' ? 'bg-gray-200' : ''}`}>
               {icons.target}<span>個人化強化複習</span>
-            </a>
+            </Link>
+            <Link to={PAGE_PATH.mistakes} aria-current={route.page === 'mistakes' ? 'page' : undefined}
+               className={`flex items-center gap-2 px-4 py-2 mt-2 rounded-md hover:bg-gray-200 ${route.page === 'mistakes' ? 'bg-gray-200' : ''}`}>
+              {icons.notebook}<span>錯題本</span>
+            </Link>
+            <Link to={PAGE_PATH.assignments} aria-current={route.page === 'assignments' ? 'page' : undefined}
+               className={`flex items-center gap-2 px-4 py-2 mt-2 rounded-md hover:bg-gray-200 ${route.page === 'assignments' ? 'bg-gray-200' : ''}`}>
+              {icons.assignment}<span>我的作業</span>
+            </Link>
+            <Link to={PAGE_PATH.classes} aria-current={route.page === 'classes' ? 'page' : undefined}
+               className={`flex items-center gap-2 px-4 py-2 mt-2 rounded-md hover:bg-gray-200 ${route.page === 'classes' ? 'bg-gray-200' : ''}`}>
+              {icons.users}<span>{isTeacher ? '班級管理' : '我的班級'}</span>
+            </Link>
             {isAdmin && (
-              <a href="#" onClick={e => { e.preventDefault(); setPage('admin'); }}
-                 className={`flex items-center gap-2 px-4 py-2 mt-5 text-red-700 rounded-md hover:bg-red-100 ${page === 'admin' ? 'bg-red-100' : ''}`}>
+              <Link to={PAGE_PATH.admin} aria-current={route.page === 'admin' ? 'page' : undefined}
+                 className={`flex items-center gap-2 px-4 py-2 mt-5 text-red-700 rounded-md hover:bg-red-100 ${route.page === 'admin' ? 'bg-red-100' : ''}`}>
                 {icons.admin}<span>管理員後台</span>
-              </a>
+              </Link>
             )}
           </nav>
           <div className="p-4 border-t">
             <div className="flex items-center gap-2">{icons.user}<span className="text-sm font-semibold">{user.email}</span></div>
+            <SyncStatus userId={user.uid} />
+            <DisplayOptions />
             <button onClick={logout} className="flex items-center gap-2 w-full px-4 py-2 mt-4 text-sm text-gray-600 rounded-md hover:bg-gray-200">
               {icons.logout}<span>登出</span>
             </button>
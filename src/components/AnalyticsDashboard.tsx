@@ -0,0 +1,135 @@
+import { useState, type ReactNode } from 'react';
+import type { Question, QuestionType } from '../types/question';
+import {
+  dailyTrend,
+  rateOf,
+  topDistractors,
+  weakestConcepts,
+  weeklyTrend,
+  type LearningStats,
+  type Tally,
+} from '../lib/stats';
+import { DIFFICULTIES } from '../lib/curriculum';
+import { QUESTION_TYPE_LABEL, questionTitle } from '../lib/question-schema';
+import { htmlToText } from '../lib/html';
+import BarChart from './BarChart';
+import TrendChart from './TrendChart';
+
+type Props = {
+  stats: LearningStats;
+  dueCount: number;
+  questions: Question[];   // 最常選錯選項所屬的題目
+};
+
+const bars = (map: Record<string, Tally>, order?: string[], label = (k: string) => k) =>
+  Object.entries(map)
+    .sort(([a], [b]) => (order ? order.indexOf(a) - order.indexOf(b) : a.localeCompare(b, 'zh-Hant')))
+    .map(([k, t]) => ({ label: label(k), value: rateOf(t), note: `${t.attempts} 題` }));
+
+function Card({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="bg-white p-6 rounded-lg shadow">
+      <h3 className="text-lg font-semibold mb-3">{title}</h3>
+      {children}
+    </section>
+  );
+}
+
+export default function AnalyticsDashboard({ stats, dueCount, questions }: Props) {
+  const [period, setPeriod] = useState<'day' | 'week'>('day');
+  const byId = new Map(questions.map(q => [q.id, q]));
+  const weak = weakestConcepts(stats);
+  const distractors = topDistractors(stats);
+
+  const optionText = (questionId: string, subItemId: string | undefined, letter: string) => {
+    const q = byId.get(questionId);
+    if (!q) return { title: '（題目已刪除）', option: '', reason: '' };
+    const i = letter.charCodeAt(0) - 65;
+    if (q.type === 'reading') {
+      const item = q.items.find(x => x.id === subItemId);
+      return {
+        title: `${htmlToText(q.passage.title)}：${htmlToText(item?.stem)}`,
+        option: htmlToText(item?.options[i]),
+        reason: item?.errorAnalysis?.[letter] ?? '',
+      };
+    }
+    return { title: htmlToText(questionTitle(q)), option: htmlToText(q.options[i]), reason: q.errorAnalysis?.[letter] ?? '' };
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {[
+          { label: '總答題數', value: String(stats.total.attempts), cls: '' },
+          { label: '總得分率', value: `${(rateOf(stats.total) * 100).toFixed(1)}%`, cls: 'text-green-600' },
+          { label: '完全答對', value: String(stats.total.correct), cls: '' },
+          { label: '待複習題數', value: String(dueCount), cls: dueCount > 0 ? 'text-amber-600' : '' },
+        ].map(c => (
+          <div key={c.label} className="bg-white p-5 rounded-lg shadow text-center">
+            <p className="text-sm text-gray-500">{c.label}</p>
+            <p className={`text-3xl font-bold ${c.cls}`}>{c.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <Card title="得分率趨勢">
+        <div className="flex gap-2 mb-2 text-sm" role="group" aria-label="趨勢區間">
+          {(['day', 'week'] as const).map(p => (
+            <button key={p} type="button" onClick={() => setPeriod(p)} aria-pressed={period === p}
+                    className={`px-3 py-1 rounded ${period === p ? 'bg-blue-600 text-white' : 'bg-gray-100'}`}>
+              {p === 'day' ? '近 14 天' : '近 8 週'}
+            </button>
+          ))}
+        </div>
+        <TrendChart title="得分率趨勢" points={period === 'day' ? dailyTrend(stats) : weeklyTrend(stats)} />
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card title="依題型">
+          <BarChart title="依題型的得分率" data={bars(stats.byType, Object.keys(QUESTION_TYPE_LABEL),
+            k => QUESTION_TYPE_LABEL[k as QuestionType] ?? k)} />
+        </Card>
+        <Card title="依難度">
+          <BarChart title="依難度的得分率" data={bars(stats.byDifficulty, DIFFICULTIES)} />
+        </Card>
+        <Card title="依能力標籤">
+          <BarChart title="依能力標籤的得分率" data={bars(stats.byTag)} />
+        </Card>
+        <Card title="依課次">
+          <BarChart title="依課次的得分率" data={bars(stats.byLesson)} />
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card title="最需要加強的概念">
+          {weak.length === 0 ? <p className="text-sm text-gray-500">作答次數還不夠（每個標籤或課次至少 3 題）。</p> : (
+            <ol className="list-decimal pl-5 space-y-1 text-sm">
+              {weak.map(c => (
+                <li key={`${c.kind}-${c.name}`}>
+                  <span className="text-xs bg-gray-100 rounded px-1 mr-1">{c.kind}</span>
+                  {c.name}：{Math.round(rateOf(c.tally) * 100)}%（{c.tally.attempts} 題）
+                </li>
+              ))}
+            </ol>
+          )}
+        </Card>
+        <Card title="最常選的錯誤選項">
+          {distractors.length === 0 ? <p className="text-sm text-gray-500">目前沒有選錯的紀錄。</p> : (
+            <ol className="list-decimal pl-5 space-y-2 text-sm">
+              {distractors.map(d => {
+                const t = optionText(d.questionId, d.subItemId, d.letter);
+                return (
+                  <li key={`${d.questionId}-${d.subItemId ?? ''}-${d.letter}`}>
+                    <p className="truncate">{t.title}</p>
+                    <p>選 ({d.letter}) {t.option} <span className="text-red-700">× {d.count}</span></p>
+                    {t.reason && <p className="text-gray-600">🔍 {t.reason}</p>}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
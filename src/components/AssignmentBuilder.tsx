@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import type { Question } from '../types/question';
+import type { Assignment } from '../types/assignment';
+import { storage, type AuthUser } from '../lib/storage';
+import { collectMetaOptions } from '../lib/curriculum';
+import { matchesCriteria } from '../lib/practice-set';
+import { toLocalInput } from '../lib/assignment';
+import { questionTitle, QUESTION_TYPE_LABEL } from '../lib/question-schema';
+import { htmlToText } from '../lib/html';
+
+type Props = {
+  classId: string;
+  teacher: AuthUser;
+  questions: Question[];
+  onCreated: (a: Assignment) => void;
+  onCancel: () => void;
+};
+
+const selectCls = 'border rounded px-2 py-1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 出作業：先用冊別／課次／標籤篩選，再勾選題目（預設全選篩選結果） */
+export default function AssignmentBuilder({ classId, teacher, questions, onCreated, onCancel }: Props) {
+  const [title, setTitle] = useState('');
+  const [unit, setUnit] = useState('');
+  const [lesson, setLesson] = useState('');
+  const [tag, setTag] = useState('');
+  const [picked, setPicked] = useState<string[]>([]);
+  const [opensAt, setOpensAt] = useState(() => toLocalInput(new Date()));
+  const [dueAt, setDueAt] = useState(() => toLocalInput(new Date(Date.now() + 7 * DAY_MS)));
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const options = collectMetaOptions(questions, unit);
+  const filtered = questions.filter(q => matchesCriteria(q, { unit, lesson, tags: tag ? [tag] : [] }));
+  const filtering = !!(unit || lesson || tag);
+
+  const toggle = (id: string) => setPicked(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  const pickAllFiltered = () => setPicked(prev => [...prev, ...filtered.map(q => q.id).filter(id => !prev.includes(id))]);
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const opens = new Date(opensAt);
+    const due = new Date(dueAt);
+    if (!title.trim()) return setMessage('❌ 請輸入作業名稱。');
+    if (picked.length === 0) return setMessage('❌ 請至少選一題。');
+    if (!(due > opens)) return setMessage('❌ 截止時間必須晚於開放時間。');
+    setSaving(true);
+    try {
+      // 依題庫列表的順序出題
+      const questionIds = questions.map(q => q.id).filter(id => picked.includes(id));
+      onCreated(await storage.assignments.create({
+        classId, teacherId: teacher.uid, title: title.trim(), questionIds, opensAt: opens, dueAt: due,
+      }));
+    } catch (err: any) {
+      setMessage(`❌ 建立作業失敗：${err?.message || ''}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={save} className="border rounded-lg p-4 mb-4 text-sm space-y-3">
+      <div className="flex flex-wrap gap-3 items-end">
+        <label className="flex flex-col flex-1 min-w-[12rem]">作業名稱
+          <input value={title} onChange={e => setTitle(e.target.value)} placeholder="例：第三課課後練習" className="border rounded p-1" />
+        </label>
+        <label className="flex flex-col">開放時間
+          <input type="datetime-local" value={opensAt} onChange={e => setOpensAt(e.target.value)} className="border rounded p-1" />
+        </label>
+        <label className="flex flex-col">截止時間
+          <input type="datetime-local" value={dueAt} onChange={e => setDueAt(e.target.value)} className="border rounded p-1" />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-3 items-end">
+        <label className="flex flex-col">冊別
+          <select value={unit} onChange={e => { setUnit(e.target.value); setLesson(''); }} className={selectCls}>
+            <option value="">全部</option>
+            {options.units.map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col">課次
+          <select value={lesson} onChange={e => setLesson(e.target.value)} className={selectCls}>
+            <option value="">全部</option>
+            {options.lessons.map(l => <option key={l} value={l}>{l}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col">標籤
+          <select value={tag} onChange={e => setTag(e.target.value)} className={selectCls}>
+            <option value="">全部</option>
+            {options.tags.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </label>
+        {filtering && (
+          <button type="button" onClick={pickAllFiltered} className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200">
+            加入篩選結果（{filtered.length} 題）
+          </button>
+        )}
+        <span className="text-gray-600">已選 {picked.length} 題</span>
+        {picked.length > 0 && (
+          <button type="button" onClick={() => setPicked([])} className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200">清除</button>
+        )}
+      </div>
+
+      <ul className="max-h-72 overflow-y-auto border rounded divide-y">
+        {filtered.map(q => (
+          <li key={q.id}>
+            <label className="flex items-start gap-2 p-2 cursor-pointer hover:bg-gray-50">
+              <input type="checkbox" checked={picked.includes(q.id)} onChange={() => toggle(q.id)} className="mt-1" />
+              <span className="text-xs bg-gray-100 rounded px-1 shrink-0">{QUESTION_TYPE_LABEL[q.type]}</span>
+              <span className="truncate">{htmlToText(questionTitle(q))}</span>
+            </label>
+          </li>
+        ))}
+        {filtered.length === 0 && <li className="p-2 text-gray-500">沒有符合條件的題目。</li>}
+      </ul>
+
+      {message && <p>{message}</p>}
+      <div className="flex gap-2">
+        <button type="submit" disabled={saving} className="px-4 py-2 rounded bg-blue-600 text-white disabled:opacity-50">
+          {saving ? '建立中…' : '發布作業'}
+        </button>
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded bg-gray-100 hover:bg-gray-200">取消</button>
+      </div>
+    </form>
+  );
+}
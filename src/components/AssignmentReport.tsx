@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { storage } from '../lib/storage';
+import {
+  assignmentUnits,
+  resultMark,
+  submissionProgress,
+  submissionStatus,
+  SUBMISSION_STATUS_LABEL,
+  unitCorrectRate,
+  type AssignmentUnit,
+} from '../lib/assignment';
+import type { Assignment, AssignmentSubmission } from '../types/assignment';
+import type { ClassMember } from '../types/classroom';
+
+const STATUS_CLS: Record<string, string> = {
+  submitted: 'text-green-700',
+  late: 'text-amber-700',
+  missing: 'text-red-700 font-semibold',
+};
+
+const MARK_CLS: Record<string, string> = { '✓': 'text-green-700', '✓*': 'text-green-700', '△': 'text-amber-700', '✗': 'text-red-700' };
+
+/** 作業報告：每位學生的繳交狀態（含遲交、缺交）與逐題成績格 */
+export default function AssignmentReport({ assignment }: { assignment: Assignment }) {
+  const [members, setMembers] = useState<ClassMember[]>([]);
+  const [subs, setSubs] = useState<Map<string, AssignmentSubmission>>(new Map());
+  const [units, setUnits] = useState<AssignmentUnit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      try {
+        const [m, s, qs] = await Promise.all([
+          storage.classes.members(assignment.classId),
+          storage.assignments.submissions(assignment.classId, assignment.id),
+          storage.questions.getMany(assignment.questionIds),
+        ]);
+        setMembers(m);
+        setSubs(new Map(s.map(x => [x.userId, x])));
+        setUnits(assignmentUnits(assignment, qs));
+      } catch (err: any) {
+        setMessage(`❌ 讀取作業報告失敗：${err?.message || ''}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+    run();
+  }, [assignment.id, assignment.classId]);
+
+  if (loading) return <p>讀取作業報告中…</p>;
+  if (message) return <p className="text-sm">{message}</p>;
+
+  const now = new Date();
+  const statuses = members.map(m => submissionStatus(assignment, subs.get(m.uid), now));
+  const count = (s: string) => statuses.filter(x => x === s).length;
+  const allSubs = [...subs.values()];
+
+  return (
+    <div className="text-sm">
+      <p className="mb-3 text-gray-600">
+        開放 {assignment.opensAt.toLocaleString()}　截止 {assignment.dueAt.toLocaleString()}　
+        已繳交 {count('submitted')}、遲交 {count('late')}、缺交 {count('missing')}、進行中 {count('open')}（共 {members.length} 人）
+      </p>
+      {members.length === 0 ? <p className="text-gray-500">班上還沒有學生。</p> : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full border-collapse">
+            <caption className="sr-only">{assignment.title} 逐題成績：✓ 答對、✓* 用提示答對、△ 部分正確、✗ 答錯、— 未作答</caption>
+            <thead>
+              <tr className="border-b text-left">
+                <th className="py-2 pr-3">學生</th>
+                <th className="py-2 pr-3">狀態</th>
+                <th className="py-2 pr-3">得分率</th>
+                {units.map(u => <th key={u.key} className="py-2 px-1 text-center font-mono">{u.label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {members.map((m, i) => {
+                const sub = subs.get(m.uid);
+                const progress = submissionProgress(units, sub);
+                return (
+                  <tr key={m.uid} className="border-b">
+                    <td className="py-1 pr-3 whitespace-nowrap">{m.email ?? m.uid}</td>
+                    <td className={`py-1 pr-3 whitespace-nowrap ${STATUS_CLS[statuses[i]] ?? ''}`}>
+                      {SUBMISSION_STATUS_LABEL[statuses[i]]}
+                      {sub?.submittedAt && <span className="block text-xs text-gray-500">{sub.submittedAt.toLocaleString()}</span>}
+                    </td>
+                    <td className="py-1 pr-3">{progress.answered ? `${Math.round(progress.rate * 100)}%` : '—'}</td>
+                    {units.map(u => {
+                      const { mark, label } = resultMark(sub?.results[u.key]);
+                      return (
+                        <td key={u.key} className={`py-1 px-1 text-center ${MARK_CLS[mark] ?? 'text-gray-400'}`} title={label}>
+                          <span aria-hidden="true">{mark}</span><span className="sr-only">{label}</span>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+            <tfoot>
+              <tr className="text-gray-600">
+                <td className="py-2 pr-3" colSpan={3}>各題答對率</td>
+                {units.map(u => {
+                  const rate = unitCorrectRate(u, allSubs);
+                  return <td key={u.key} className="py-2 px-1 text-center">{rate === null ? '—' : `${Math.round(rate * 100)}%`}</td>;
+                })}
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
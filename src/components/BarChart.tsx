@@ -0,0 +1,28 @@
+type Bar = {
+  label: string;
+  value: number;     // 0–1
+  note?: string;     // 顯示在長條右側，如「12 題」
+};
+
+/** 橫向長條圖（得分率等比例資料），不另外引入圖表套件 */
+export default function BarChart({ data, title }: { data: Bar[]; title: string }) {
+  if (data.length === 0) return <p className="text-sm text-gray-500">尚無資料。</p>;
+  return (
+    <ul className="space-y-2 text-sm" aria-label={title}>
+      {data.map(d => {
+        const pct = Math.round(d.value * 100);
+        return (
+          <li key={d.label} className="flex items-center gap-2">
+            <span className="w-28 shrink-0 truncate" title={d.label}>{d.label}</span>
+            <div className="flex-1 h-4 bg-gray-100 rounded" role="img" aria-label={`${d.label}：${pct}%`}>
+              <div className={`h-4 rounded ${pct >= 80 ? 'bg-green-500' : pct >= 60 ? 'bg-yellow-400' : 'bg-red-400'}`}
+                   style={{ width: `${pct}%` }} />
+            </div>
+            <span className="w-12 text-right font-mono">{pct}%</span>
+            {d.note && <span className="w-16 text-right text-gray-500">{d.note}</span>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { storage } from '../lib/storage';
+import { parseImportFile, type ImportItem } from '../lib/importers';
+import { sanitizeQuestion } from '../lib/sanitize';
+
+const TYPE_LABEL: Record<string, string> = {
+  single_choice: '單選',
+  multi_select: '多選',
+  reading: '閱讀',
+};
+
+type Report = { dryRun: boolean; inserted: number; skipped: number; failed: number; notes: string[] };
+
+export default function BulkImport({ onImported }: { onImported?: () => void }) {
+  const [fileName, setFileName] = useState('');
+  const [items, setItems] = useState<ImportItem[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [report, setReport] = useState<Report | null>(null);
+
+  const valid = items.filter(i => i.question && i.errors.length === 0);
+  const invalidCount = items.length - valid.length;
+
+  const handleFile = async (file: File | undefined) => {
+    setReport(null);
+    if (!file) { setItems([]); setFileName(''); return; }
+    setFileName(file.name);
+    setItems(parseImportFile(file.name, await file.text()));
+  };
+
+  const run = async (dryRun: boolean) => {
+    setBusy(true);
+    setReport(null);
+    try {
+      // 入庫前清理 HTML，移除的內容列在報告中
+      const cleaned = valid.map(i => ({ item: i, ...sanitizeQuestion(i.question!) }));
+      const questions = cleaned.map(c => c.question);
+      const sanitizeNotes = cleaned
+        .filter(c => c.removed.length)
+        .map(c => `第 ${c.item.index} 題已移除不安全的 HTML：${c.removed.join('、')}`);
+      const ids = questions.flatMap(q => (q.id ? [q.id] : []));
+      if (dryRun) {
+        const existing = await storage.questions.existingIds(ids);
+        setReport({
+          dryRun,
+          inserted: questions.length - existing.length,
+          skipped: invalidCount + existing.length,
+          failed: 0,
+          notes: [...(existing.length ? [`已存在而會略過的 id：${existing.join('、')}`] : []), ...sanitizeNotes],
+        });
+        return;
+      }
+      const r = await storage.questions.addMany(questions);
+      setReport({
+        dryRun,
+        inserted: r.inserted,
+        skipped: invalidCount + r.skipped.length,
+        failed: r.failed,
+        notes: [
+          ...(r.skipped.length ? [`已存在而略過的 id：${r.skipped.join('、')}`] : []),
+          ...r.errors,
+          ...sanitizeNotes,
+        ],
+      });
+      if (r.inserted) onImported?.();
+    } catch (err: any) {
+      setReport({ dryRun, inserted: 0, skipped: invalidCount, failed: valid.length, notes: [err?.message || '未知錯誤'] });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <section className="bg-white p-6 rounded-lg shadow">
+      <h3 className="text-xl font-semibold mb-1">批次匯入題庫</h3>
+      <p className="text-sm text-gray-500 mb-3">
+        支援 JSON（題目陣列）、CSV（欄位：id,type,title,A–E,answer,explanation,errorA–E,tags,difficulty,source）、
+        Markdown/TXT（貼題格式，題與題之間以一行 --- 分隔）。
+      </p>
+      <input
+        type="file"
+        accept=".json,.csv,.md,.markdown,.txt"
+        onChange={e => handleFile(e.target.files?.[0])}
+        className="text-sm"
+      />
+
+      {items.length > 0 && (
+        <>
+          <p className="mt-4 text-sm">
+            {fileName}：共 {items.length} 題，
+            <span className="text-green-700">可匯入 {valid.length} 題</span>
+            {invalidCount > 0 && <span className="text-red-700">，{invalidCount} 題有錯誤將略過</span>}
+          </p>
+          <div className="mt-2 max-h-96 overflow-auto border rounded">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100 sticky top-0">
+                <tr>
+                  <th className="p-2 text-left">#</th>
+                  <th className="p-2 text-left">行</th>
+                  <th className="p-2 text-left">題型</th>
+                  <th className="p-2 text-left">題目</th>
+                  <th className="p-2 text-left">檢查結果</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {items.map(item => (
+                  <tr key={item.index} className={item.errors.length ? 'bg-red-50' : ''}>
+                    <td className="p-2 align-top">{item.index}</td>
+                    <td className="p-2 align-top">{item.line ?? '—'}</td>
+                    <td className="p-2 align-top">{item.question ? TYPE_LABEL[item.question.type] : '—'}</td>
+                    <td className="p-2 align-top">{item.label || '（無題幹）'}</td>
+                    <td className="p-2 align-top">
+                      {item.errors.length === 0
+                        ? <span className="text-green-700">✅ 可匯入</span>
+                        : <ul className="text-red-700 list-disc pl-4">{item.errors.map((e, i) => <li key={i}>{e}</li>)}</ul>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 flex gap-2">
+            <button type="button" disabled={busy || valid.length === 0} onClick={() => run(true)}
+                    className="px-4 py-2 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50">
+              試算（不寫入）
+            </button>
+            <button type="button" disabled={busy || valid.length === 0} onClick={() => run(false)}
+                    className="px-4 py-2 rounded bg-green-600 hover:bg-green-700 text-white disabled:bg-green-300">
+              {busy ? '處理中…' : `匯入 ${valid.length} 題`}
+            </button>
+          </div>
+        </>
+      )}
+
+      {report && (
+        <div className={`mt-4 p-3 rounded-md ${report.failed ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}`}>
+          <p className="font-semibold">
+            {report.dryRun ? '試算結果（未寫入）' : '匯入完成'}：
+            {report.dryRun ? '將新增' : '新增'} {report.inserted} 題、略過 {report.skipped} 題、失敗 {report.failed} 題
+          </p>
+          {report.notes.map((n, i) => <p key={i} className="text-sm mt-1">{n}</p>)}
+        </div>
+      )}
+    </section>
+  );
+}
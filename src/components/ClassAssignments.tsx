@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { storage, type AuthUser } from '../lib/storage';
+import type { Question } from '../types/question';
+import type { Assignment } from '../types/assignment';
+import type { Classroom } from '../types/classroom';
+import AssignmentBuilder from './AssignmentBuilder';
+import AssignmentReport from './AssignmentReport';
+
+/** 班級的作業列表：出作業、刪除作業、看作業報告 */
+export default function ClassAssignments({ classroom, user }: { classroom: Classroom; user: AuthUser }) {
+  const [items, setItems] = useState<Assignment[]>([]);
+  const [questions, setQuestions] = useState<Question[] | null>(null);
+  const [building, setBuilding] = useState(false);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    setSelected(null);
+    storage.assignments.listForClass(classroom.id)
+      .then(setItems)
+      .catch(err => setMessage(`❌ 讀取作業失敗：${err?.message || ''}`));
+  }, [classroom.id]);
+
+  const startBuilding = async () => {
+    setBuilding(true);
+    if (!questions) {
+      try {
+        setQuestions(await storage.questions.list());
+      } catch (err: any) {
+        setMessage(`❌ 讀取題庫失敗：${err?.message || ''}`);
+      }
+    }
+  };
+
+  const remove = async (a: Assignment) => {
+    if (!confirm(`確定要刪除作業「${a.title}」嗎？學生的繳交紀錄也會一併刪除。`)) return;
+    try {
+      await storage.assignments.remove(classroom.id, a.id);
+      setItems(prev => prev.filter(x => x.id !== a.id));
+      if (selected === a.id) setSelected(null);
+    } catch (err: any) {
+      setMessage(`❌ 刪除失敗：${err?.message || ''}`);
+    }
+  };
+
+  const now = new Date();
+
+  return (
+    <div>
+      {message && <p className="mb-3 text-sm">{message}</p>}
+      {building ? (
+        questions ? (
+          <AssignmentBuilder classId={classroom.id} teacher={user} questions={questions}
+                             onCancel={() => setBuilding(false)}
+                             onCreated={a => {
+                               setItems(prev => [...prev, a].sort((x, y) => x.dueAt.getTime() - y.dueAt.getTime()));
+                               setBuilding(false);
+                               setSelected(a.id);
+                             }} />
+        ) : <p className="mb-4">讀取題庫中…</p>
+      ) : (
+        <button onClick={startBuilding} className="mb-4 px-3 py-1.5 rounded bg-blue-600 text-white text-sm">出新作業</button>
+      )}
+
+      {items.length === 0 ? <p className="text-gray-500">這個班級還沒有作業。</p> : (
+        <ul className="divide-y border rounded mb-4">
+          {items.map(a => (
+            <li key={a.id} className="p-3">
+              <div className="flex items-center gap-3">
+                <button type="button" onClick={() => setSelected(s => (s === a.id ? null : a.id))} aria-expanded={selected === a.id}
+                        className="flex-1 text-left">
+                  <span className="font-semibold">{a.title}</span>
+                  <span className="ml-2 text-xs text-gray-500">
+                    {a.questionIds.length} 題｜截止 {a.dueAt.toLocaleString()}
+                    {now < a.opensAt ? '｜尚未開放' : now > a.dueAt ? '｜已截止' : '｜進行中'}
+                  </span>
+                </button>
+                <button onClick={() => remove(a)} className="px-2 py-1 text-sm rounded bg-red-50 text-red-700 hover:bg-red-100">刪除</button>
+              </div>
+              {selected === a.id && <div className="mt-3"><AssignmentReport assignment={a} /></div>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
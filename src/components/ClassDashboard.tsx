@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { storage } from '../lib/storage';
+import { summarizeStudent } from '../lib/classroom';
+import type { Classroom, StudentSummary } from '../types/classroom';
+
+type SortKey = 'email' | 'attempts' | 'recentAttempts' | 'rate' | 'dueCount';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'email', label: '學生' },
+  { key: 'attempts', label: '作答數' },
+  { key: 'recentAttempts', label: '近 7 天' },
+  { key: 'rate', label: '得分率' },
+  { key: 'dueCount', label: '待複習' },
+];
+
+/** 班級儀表板：逐一讀取班上學生的作答紀錄與複習卡 */
+export default function ClassDashboard({ classroom }: { classroom: Classroom }) {
+  const [rows, setRows] = useState<StudentSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState('');
+  const [sort, setSort] = useState<SortKey>('email');
+
+  const load = async () => {
+    setLoading(true);
+    setMessage('');
+    try {
+      const members = await storage.classes.members(classroom.id);
+      setRows(await Promise.all(members.map(async m => {
+        const [history, due] = await Promise.all([storage.history.listAttempts(m.uid), storage.history.dueCount(m.uid)]);
+        return summarizeStudent(m, history, due);
+      })));
+    } catch (err: any) {
+      setMessage(`❌ 讀取班級資料失敗：${err?.message || ''}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+  useEffect(() => { load(); }, [classroom.id]);
+
+  const remove = async (s: StudentSummary) => {
+    if (!confirm(`確定要把 ${s.email ?? s.uid} 移出「${classroom.name}」嗎？`)) return;
+    try {
+      await storage.classes.removeMember(classroom.id, s.uid);
+      setRows(prev => prev.filter(r => r.uid !== s.uid));
+    } catch (err: any) {
+      setMessage(`❌ 移除失敗：${err?.message || ''}`);
+    }
+  };
+
+  const sorted = [...rows].sort((a, b) =>
+    sort === 'email' ? (a.email ?? '').localeCompare(b.email ?? '') : b[sort] - a[sort]);
+  const attempts = rows.reduce((n, r) => n + r.attempts, 0);
+  const classRate = attempts ? rows.reduce((n, r) => n + r.rate * r.attempts, 0) / attempts : 0;
+
+  if (loading) return <p>讀取班級資料中…</p>;
+
+  return (
+    <div>
+      {message && <p className="mb-3 text-sm">{message}</p>}
+      <p className="text-sm text-gray-600 mb-3">
+        共 {rows.length} 位學生，累計作答 {attempts} 題，全班得分率 {Math.round(classRate * 100)}%。
+      </p>
+      {rows.length === 0 ? <p className="text-gray-500">還沒有學生加入，請把加入代碼 {classroom.joinCode} 給學生。</p> : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                {COLUMNS.map(c => (
+                  <th key={c.key} className="py-2 pr-4" aria-sort={sort === c.key ? (c.key === 'email' ? 'ascending' : 'descending') : 'none'}>
+                    <button type="button" onClick={() => setSort(c.key)} className="hover:underline">
+                      {c.label}{sort === c.key ? ' ▾' : ''}
+                    </button>
+                  </th>
+                ))}
+                <th className="py-2 pr-4">完全答對</th>
+                <th className="py-2 pr-4">最後作答</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map(s => (
+                <tr key={s.uid} className="border-b">
+                  <td className="py-2 pr-4">{s.email ?? s.uid}</td>
+                  <td className="py-2 pr-4">{s.attempts}</td>
+                  <td className="py-2 pr-4">{s.recentAttempts}</td>
+                  <td className={`py-2 pr-4 ${s.attempts && s.rate < 0.6 ? 'text-red-700 font-semibold' : ''}`}>
+                    {s.attempts ? `${Math.round(s.rate * 100)}%` : '—'}
+                  </td>
+                  <td className={`py-2 pr-4 ${s.dueCount > 0 ? 'text-amber-700' : ''}`}>{s.dueCount}</td>
+                  <td className="py-2 pr-4">{s.correct}</td>
+                  <td className="py-2 pr-4">{s.lastActiveAt ? s.lastActiveAt.toLocaleDateString() : '—'}</td>
+                  <td className="py-2">
+                    <button onClick={() => remove(s)} className="px-2 py-1 rounded bg-red-50 text-red-700 hover:bg-red-100">移出</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
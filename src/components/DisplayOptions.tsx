@@ -0,0 +1,33 @@
+import { updatePreferences, usePreferences } from '../lib/preferences';
+import type { DisplaySettings } from '../types/preferences';
+
+const btn = (active: boolean) => `px-2 py-0.5 rounded ${active ? 'bg-gray-700 text-white' : 'bg-gray-100 hover:bg-gray-200'}`;
+
+/** 側欄的顯示設定：繁／簡體與讀音系統，存在使用者偏好 */
+export default function DisplayOptions() {
+  const { display } = usePreferences();
+  const save = (patch: Partial<DisplaySettings>) => updatePreferences('display', { ...display, ...patch });
+
+  return (
+    <div className="mt-3 space-y-2 text-xs text-gray-600">
+      <div className="flex items-center gap-1" role="group" aria-label="題目字體">
+        <span className="mr-1">字體</span>
+        <button type="button" onClick={() => save({ script: 'traditional' })} aria-pressed={display.script === 'traditional'}
+                className={btn(display.script === 'traditional')}>繁體</button>
+        <button type="button" onClick={() => save({ script: 'simplified' })} aria-pressed={display.script === 'simplified'}
+                className={btn(display.script === 'simplified')}>简体</button>
+      </div>
+      <div className="flex items-center gap-1">
+        <label className="flex items-center gap-1" title="作者標注的讀音與詞庫詞語的讀音；其他字不逐字標音">
+          <input type="checkbox" checked={display.ruby} onChange={e => save({ ruby: e.target.checked })} />
+          詞語讀音
+        </label>
+        <select value={display.rubySystem} onChange={e => save({ rubySystem: e.target.value as DisplaySettings['rubySystem'] })}
+                aria-label="讀音系統" className="border rounded px-1 py-0.5">
+          <option value="zhuyin">注音</option>
+          <option value="pinyin">拼音</option>
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,354 @@
+import { useEffect, useRef, useState } from 'react';
+import { storage } from '../lib/storage';
+import { attemptOutbox } from '../lib/outbox';
+import { collectMetaOptions } from '../lib/curriculum';
+import {
+  answerKey,
+  assemblePaper,
+  availableCounts,
+  EXAM_TYPE_ORDER,
+  formatDuration,
+  gradeExam,
+  type ExamAnswers,
+} from '../lib/exam';
+import { QUESTION_TYPE_LABEL, questionTitle } from '../lib/question-schema';
+import { SCORING_RULE_LABEL, SCORING_RULES } from '../lib/scoring';
+import { htmlToText } from '../lib/html';
+import type { Question, QuestionType, ScoringRule } from '../types/question';
+import type { ExamConfig, ExamSession, ExamSessionInput } from '../types/exam';
+import ExamQuestion from './ExamQuestion';
+
+const DEFAULT_CONFIG: ExamConfig = {
+  counts: { single_choice: 10, multi_select: 4, reading: 2 },
+  tags: [],
+  durationMinutes: 40,
+};
+
+const showChoice = (v: string | string[]) => (Array.isArray(v) ? v.join('、') : v) || '（未作答）';
+
+/* ---------- 組卷 ---------- */
+
+function ExamSetup({
+  questions, recent, onStart,
+}: { questions: Question[]; recent: ExamSession[]; onStart: (config: ExamConfig) => void }) {
+  const [config, setConfig] = useState<ExamConfig>(DEFAULT_CONFIG);
+  const tags = collectMetaOptions(questions).tags;
+  const available = availableCounts(questions, config.tags);
+  const total = EXAM_TYPE_ORDER.reduce((s, t) => s + Math.min(config.counts[t], available[t]), 0);
+
+  const setCount = (t: QuestionType, n: number) =>
+    setConfig(c => ({ ...c, counts: { ...c.counts, [t]: Math.max(0, n || 0) } }));
+  const toggleTag = (t: string) =>
+    setConfig(c => ({ ...c, tags: c.tags?.includes(t) ? c.tags.filter(x => x !== t) : [...(c.tags ?? []), t] }));
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-white p-6 rounded-lg shadow text-sm space-y-4">
+        <h3 className="text-xl font-semibold">組卷設定</h3>
+        <div className="flex flex-wrap gap-4">
+          {EXAM_TYPE_ORDER.map(t => (
+            <label key={t} className="flex flex-col">
+              {QUESTION_TYPE_LABEL[t]}（可用 {available[t]}）
+              <input type="number" min={0} value={config.counts[t]} onChange={e => setCount(t, Number(e.target.value))}
+                     className="border rounded px-2 py-1 w-24" />
+            </label>
+          ))}
+          <label className="flex flex-col">作答時間（分鐘）
+            <input type="number" min={1} value={config.durationMinutes}
+                   onChange={e => setConfig(c => ({ ...c, durationMinutes: Math.max(1, Number(e.target.value) || 1) }))}
+                   className="border rounded px-2 py-1 w-24" />
+          </label>
+          <label className="flex flex-col">多選計分
+            <select value={config.scoring ?? ''}
+                    onChange={e => setConfig(c => ({ ...c, scoring: (e.target.value || undefined) as ScoringRule | undefined }))}
+                    className="border rounded px-2 py-1">
+              <option value="">依各題設定</option>
+              {SCORING_RULES.map(r => <option key={r} value={r}>{SCORING_RULE_LABEL[r]}</option>)}
+            </select>
+          </label>
+        </div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span>能力標籤（任一，不選代表不限）：</span>
+            {tags.map(t => (
+              <label key={t} className="flex items-center gap-1">
+                <input type="checkbox" checked={config.tags?.includes(t) ?? false} onChange={() => toggleTag(t)} />
+                {t}
+              </label>
+            ))}
+          </div>
+        )}
+        <p className="text-gray-500">作答期間不顯示對錯；時間到會自動交卷。</p>
+        <button type="button" disabled={total === 0} onClick={() => onStart(config)}
+                className="px-6 py-2 rounded bg-green-600 hover:bg-green-700 text-white font-bold disabled:bg-green-300">
+          開始考試（共 {total} 題／題組）
+        </button>
+      </section>
+
+      {recent.length > 0 && (
+        <section className="bg-white p-6 rounded-lg shadow text-sm">
+          <h3 className="text-xl font-semibold mb-3">最近的模擬考</h3>
+          <ul className="divide-y">
+            {recent.map(s => (
+              <li key={s.id} className="py-2 flex gap-4">
+                <span>{s.finishedAt.toLocaleString()}</span>
+                <span className="font-semibold">{s.totalScore} / {s.maxScore} 分</span>
+                <span className="text-gray-500">用時 {formatDuration(s.usedSec * 1000)}{s.autoSubmitted ? '（時間到）' : ''}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
+
+/* ---------- 成績報告 ---------- */
+
+function ExamReport({
+  session, paper, saveMessage, onAgain,
+}: { session: ExamSessionInput; paper: Question[]; saveMessage: string; onAgain: () => void }) {
+  const numberOf = new Map(paper.map((q, i) => [q.id, i + 1]));
+  const byId = new Map(paper.map(q => [q.id, q]));
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-white p-6 rounded-lg shadow">
+        <div className="flex flex-wrap items-baseline gap-6">
+          <p className="text-4xl font-bold">{session.totalScore}<span className="text-xl text-gray-500"> / {session.maxScore} 分</span></p>
+          <p className="text-gray-600">用時 {formatDuration(session.usedSec * 1000)}{session.autoSubmitted ? '（時間到自動交卷）' : ''}</p>
+        </div>
+        {saveMessage && <p className="mt-2 text-sm">{saveMessage}</p>}
+        <table className="mt-4 w-full text-sm">
+          <thead>
+            <tr className="text-left border-b"><th className="py-1">題型</th><th>題數</th><th>答對</th><th>得分</th></tr>
+          </thead>
+          <tbody>
+            {EXAM_TYPE_ORDER.filter(t => session.byType[t].count > 0).map(t => {
+              const b = session.byType[t];
+              return (
+                <tr key={t} className="border-b">
+                  <td className="py-1">{QUESTION_TYPE_LABEL[t]}</td>
+                  <td>{b.count}</td>
+                  <td>{b.correct}</td>
+                  <td>{b.score} / {b.maxScore}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="bg-white p-6 rounded-lg shadow">
+        <h3 className="text-xl font-semibold mb-3">逐題結果</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-1">題號</th><th>題目</th><th>作答</th><th>正確答案</th><th>得分</th><th>用時</th>
+            </tr>
+          </thead>
+          <tbody>
+            {session.items.map(item => {
+              const q = byId.get(item.questionId);
+              const sub = q?.type === 'reading' ? q.items.findIndex(i => i.id === item.subItemId) : -1;
+              return (
+                <tr key={`${item.questionId}-${item.subItemId ?? ''}`}
+                    className={`border-b align-top ${item.isCorrect ? '' : 'bg-red-50'}`}>
+                  <td className="py-1 whitespace-nowrap">{numberOf.get(item.questionId)}{sub >= 0 ? `-${sub + 1}` : ''}</td>
+                  <td className="pr-2 max-w-xs truncate">{q ? htmlToText(questionTitle(q)) : item.questionId}</td>
+                  <td>{showChoice(item.chosen)}</td>
+                  <td>{showChoice(item.correct)}</td>
+                  <td>{item.isCorrect ? '✅' : item.score > 0 ? '🟡' : '❌'} {item.score} / {item.maxScore}</td>
+                  <td>{formatDuration(item.timeMs)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+
+      <button type="button" onClick={onAgain} className="px-6 py-2 rounded bg-blue-600 hover:bg-blue-700 text-white">
+        再考一次
+      </button>
+    </div>
+  );
+}
+
+/* ---------- 模擬考 ---------- */
+
+export default function ExamModule({ userId }: { userId: string }) {
+  const [phase, setPhase] = useState<'setup' | 'running' | 'report'>('setup');
+  const [bank, setBank] = useState<Question[]>([]);
+  const [recent, setRecent] = useState<ExamSession[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [config, setConfig] = useState<ExamConfig>(DEFAULT_CONFIG);
+  const [paper, setPaper] = useState<Question[]>([]);
+  const [current, setCurrent] = useState(0);
+  const [answers, setAnswers] = useState<ExamAnswers>({});
+  const [startedAt, setStartedAt] = useState(new Date());
+  const [now, setNow] = useState(Date.now());
+  const [session, setSession] = useState<ExamSessionInput | null>(null);
+  const [saveMessage, setSaveMessage] = useState('');
+
+  // 每題停留時間：切換題目或交卷時把經過的時間記到目前這題
+  const timeSpent = useRef<Record<string, number>>({});
+  const enteredAt = useRef(Date.now());
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      try {
+        const [questions, sessions] = await Promise.all([storage.questions.list(), storage.exams.list(userId, 5)]);
+        setBank(questions);
+        setRecent(sessions);
+      } catch (e) { console.error(e); }
+      finally { setLoading(false); }
+    };
+    run();
+  }, [userId]);
+
+  const deadline = startedAt.getTime() + config.durationMinutes * 60 * 1000;
+  const remaining = deadline - now;
+
+  useEffect(() => {
+    if (phase !== 'running') return;
+    const t = setInterval(() => setNow(Date.now()), 1000);
+    const warn = (e: BeforeUnloadEvent) => { e.preventDefault(); e.returnValue = ''; };
+    window.addEventListener('beforeunload', warn);
+    return () => { clearInterval(t); window.removeEventListener('beforeunload', warn); };
+  }, [phase]);
+
+  const flushTime = () => {
+    const q = paper[current];
+    if (q) timeSpent.current[q.id] = (timeSpent.current[q.id] ?? 0) + (Date.now() - enteredAt.current);
+    enteredAt.current = Date.now();
+  };
+
+  const goTo = (i: number) => {
+    flushTime();
+    setCurrent(i);
+  };
+
+  const start = (cfg: ExamConfig) => {
+    const p = assemblePaper(bank, cfg);
+    if (p.length === 0) return alert('沒有符合條件的題目。');
+    setConfig(cfg);
+    setPaper(p);
+    setAnswers({});
+    setCurrent(0);
+    timeSpent.current = {};
+    enteredAt.current = Date.now();
+    submitted.current = false;
+    setStartedAt(new Date());
+    setNow(Date.now());
+    setSaveMessage('');
+    setPhase('running');
+  };
+
+  const submit = async (auto: boolean) => {
+    if (submitted.current) return;
+    submitted.current = true;
+    flushTime();
+    const finishedAt = new Date();
+    const result: ExamSessionInput = {
+      startedAt,
+      finishedAt,
+      usedSec: Math.round((finishedAt.getTime() - startedAt.getTime()) / 1000),
+      autoSubmitted: auto,
+      config,
+      questionIds: paper.map(q => q.id),
+      ...gradeExam(paper, answers, timeSpent.current, config.scoring),
+    };
+    setSession(result);
+    setPhase('report');
+    setSaveMessage('儲存成績中…');
+    try {
+      // 經待上傳佇列儲存：離線時成績留在本機，恢復連線後自動補傳
+      const saved = await attemptOutbox.recordExam(userId, result);
+      if (saved === 'sent') {
+        setSaveMessage('✅ 已儲存本次模擬考紀錄與各題作答。');
+        setRecent(await storage.exams.list(userId, 5));
+      } else if (saved === 'queued') {
+        setSaveMessage('⏳ 目前無法連線，成績已暫存在這台裝置，恢復連線後會自動上傳。');
+      } else {
+        setSaveMessage('❌ 成績儲存失敗，請稍後再試。');
+      }
+    } catch (e) {
+      console.error(e);
+      setSaveMessage('❌ 成績儲存失敗，請稍後再試。');
+    }
+  };
+
+  // 時間到自動交卷
+  useEffect(() => {
+    if (phase === 'running' && remaining <= 0) submit(true);
+  }, [phase, remaining]);
+
+  const isAnswered = (q: Question) => {
+    const keys = q.type === 'reading' ? q.items.map(i => answerKey(q.id, i.id)) : [answerKey(q.id)];
+    return keys.every(k => {
+      const v = answers[k];
+      return Array.isArray(v) ? v.length > 0 : !!v;
+    });
+  };
+
+  const confirmSubmit = () => {
+    const blank = paper.filter(q => !isAnswered(q)).length;
+    if (confirm(blank ? `還有 ${blank} 題未作答完，確定要交卷嗎？` : '確定要交卷嗎？')) submit(false);
+  };
+
+  if (loading) return <p>載入題庫中…</p>;
+
+  return (
+    <div>
+      <h2 className="text-3xl font-bold mb-6">模擬考</h2>
+
+      {phase === 'setup' && <ExamSetup questions={bank} recent={recent} onStart={start} />}
+
+      {phase === 'running' && paper[current] && (
+        <div className="space-y-4">
+          <div className="sticky top-0 z-10 bg-gray-100 py-2 flex flex-wrap items-center gap-3">
+            <span className={`text-2xl font-mono font-bold ${remaining < 5 * 60 * 1000 ? 'text-red-600' : ''}`}
+                  role="timer" aria-label="剩餘時間">
+              ⏱ {formatDuration(remaining)}
+            </span>
+            <div className="flex flex-wrap gap-1">
+              {paper.map((q, i) => (
+                <button key={q.id} type="button" onClick={() => goTo(i)}
+                        aria-label={`第 ${i + 1} 題${isAnswered(q) ? '（已作答）' : ''}`}
+                        className={`w-8 h-8 rounded text-sm border ${i === current ? 'ring-2 ring-blue-500' : ''} ${isAnswered(q) ? 'bg-blue-600 text-white' : 'bg-white'}`}>
+                  {i + 1}
+                </button>
+              ))}
+            </div>
+            <button type="button" onClick={confirmSubmit}
+                    className="ml-auto px-4 py-2 rounded bg-red-600 hover:bg-red-700 text-white font-bold">
+              交卷
+            </button>
+          </div>
+
+          <ExamQuestion
+            key={paper[current].id}
+            question={paper[current]}
+            number={current + 1}
+            answers={answers}
+            onAnswer={(key, value) => setAnswers(prev => ({ ...prev, [key]: value }))}
+          />
+
+          <div className="flex justify-between">
+            <button type="button" disabled={current === 0} onClick={() => goTo(current - 1)}
+                    className="px-4 py-2 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-40">上一題</button>
+            <button type="button" disabled={current === paper.length - 1} onClick={() => goTo(current + 1)}
+                    className="px-4 py-2 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-40">下一題</button>
+          </div>
+        </div>
+      )}
+
+      {phase === 'report' && session && (
+        <ExamReport session={session} paper={paper} saveMessage={saveMessage} onAgain={() => setPhase('setup')} />
+      )}
+    </div>
+  );
+}
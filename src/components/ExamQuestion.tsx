@@ -0,0 +1,91 @@
+import type { Question } from '../types/question';
+import { optionLetter } from '../lib/grading';
+import { useDisplay } from '../lib/display';
+import { answerKey, type ExamAnswers } from '../lib/exam';
+
+type Props = {
+  question: Question;
+  number: number;
+  answers: ExamAnswers;
+  onAnswer: (key: string, value: string | string[]) => void;
+};
+
+/** 模擬考的作答區：只收答案，不顯示對錯、詳解與釋義 */
+function Choices({
+  name, options, multi, value, onChange,
+}: {
+  name: string;
+  options: string[];
+  multi: boolean;
+  value: string | string[] | undefined;
+  onChange: (value: string | string[]) => void;
+}) {
+  const display = useDisplay();
+  const chosen = Array.isArray(value) ? value : value ? [value] : [];
+  const pick = (letter: string) => {
+    if (!multi) return onChange(letter);
+    onChange(chosen.includes(letter) ? chosen.filter(x => x !== letter) : [...chosen, letter].sort());
+  };
+
+  return (
+    <div className="space-y-2">
+      {options.map((opt, i) => {
+        const letter = optionLetter(i);
+        return (
+          <label key={letter}
+                 className={`p-3 border rounded-md cursor-pointer flex items-start hover:bg-gray-100 ${chosen.includes(letter) ? 'border-blue-500 bg-blue-50' : ''}`}>
+            <input
+              type={multi ? 'checkbox' : 'radio'}
+              name={name}
+              value={letter}
+              checked={chosen.includes(letter)}
+              onChange={() => pick(letter)}
+              className="mr-3 mt-1 h-5 w-5"
+            />
+            <span dangerouslySetInnerHTML={{ __html: `(${letter}) ${display.html(opt)}` }} />
+          </label>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function ExamQuestion({ question: q, number, answers, onAnswer }: Props) {
+  const display = useDisplay();
+  if (q.type === 'reading') {
+    return (
+      <div className="bg-white p-6 rounded-xl shadow-sm exam-paper">
+        <h3 className="text-xl font-bold mb-4">{`${number}. 閱讀測驗：${display.text(q.passage.title)}`}</h3>
+        <div className="flex flex-col lg:flex-row gap-8">
+          <article className="lg:w-1/2 prose max-w-none leading-relaxed"
+                   dangerouslySetInnerHTML={{ __html: display.html(q.passage.textHtml) }} />
+          <div className="lg:w-1/2 space-y-4">
+            {q.items.map((item, i) => {
+              const key = answerKey(q.id, item.id);
+              return (
+                <div key={item.id} className="p-4 border rounded-lg">
+                  <p className="font-medium mb-3">
+                    {`(${i + 1}) `}{display.text(item.stem)}
+                    {item.subtype === 'multi_select' && <span className="ml-2 text-xs text-gray-500">（多選）</span>}
+                  </p>
+                  <Choices name={key} options={item.options} multi={item.subtype === 'multi_select'}
+                           value={answers[key]} onChange={v => onAnswer(key, v)} />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const key = answerKey(q.id);
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm exam-paper">
+      <div className="mb-2 text-sm text-gray-500">第 {number} 題｜{q.type === 'multi_select' ? '多選' : '單選'}</div>
+      <p className="text-lg font-semibold mb-4" dangerouslySetInnerHTML={{ __html: display.html(q.title) }} />
+      <Choices name={key} options={q.options} multi={q.type === 'multi_select'}
+               value={answers[key]} onChange={v => onAnswer(key, v)} />
+    </div>
+  );
+}
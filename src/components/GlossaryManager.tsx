@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { storage } from '../lib/storage';
+import { loadGlossary } from '../lib/glossary';
+import type { GlossaryTerm, GlossaryTermInput } from '../types/glossary';
+
+const EMPTY: GlossaryTermInput = { term: '', reading: '', definition: '', lesson: '' };
+const inputCls = 'border rounded p-2 text-sm';
+
+/** 管理員維護詞語註釋詞庫；存檔後全站的題目立即改用新的詞庫標註 */
+export default function GlossaryManager() {
+  const [terms, setTerms] = useState<GlossaryTerm[]>([]);
+  const [draft, setDraft] = useState<GlossaryTermInput>(EMPTY);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [message, setMessage] = useState('');
+
+  const load = async () => {
+    try {
+      setTerms(await storage.glossary.list());
+    } catch (err: any) {
+      setMessage(`❌ 讀取詞庫失敗：${err?.message || ''}`);
+    }
+  };
+  useEffect(() => { load(); }, []);
+
+  const reset = () => { setDraft(EMPTY); setEditingId(null); };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.term.trim() || !draft.definition.trim()) return setMessage('❌ 詞語與釋義都要填寫。');
+    try {
+      const saved = await storage.glossary.save({
+        term: draft.term.trim(),
+        definition: draft.definition.trim(),
+        ...(draft.reading?.trim() ? { reading: draft.reading.trim() } : {}),
+        ...(draft.lesson?.trim() ? { lesson: draft.lesson.trim() } : {}),
+      }, editingId ?? undefined);
+      setMessage(`✅ 已${editingId ? '更新' : '新增'}「${saved.term}」。`);
+      reset();
+      await load();
+      loadGlossary();
+    } catch (err: any) {
+      setMessage(`❌ 儲存失敗：${err?.message || ''}`);
+    }
+  };
+
+  const remove = async (t: GlossaryTerm) => {
+    if (!confirm(`確定要刪除「${t.term}」？`)) return;
+    try {
+      await storage.glossary.remove(t.id);
+      setMessage(`✅ 已刪除「${t.term}」。`);
+      if (editingId === t.id) reset();
+      await load();
+      loadGlossary();
+    } catch (err: any) {
+      setMessage(`❌ 刪除失敗：${err?.message || ''}`);
+    }
+  };
+
+  const edit = (t: GlossaryTerm) => {
+    setEditingId(t.id);
+    setDraft({ term: t.term, reading: t.reading ?? '', definition: t.definition, lesson: t.lesson ?? '' });
+  };
+
+  const q = filter.trim();
+  const shown = q ? terms.filter(t => [t.term, t.reading, t.definition, t.lesson].some(v => v?.includes(q))) : terms;
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-3">
+        詞庫中的詞語會在題幹、選項與文章中自動加上虛線，滑鼠移上或鍵盤聚焦時顯示讀音與釋義。
+      </p>
+      <form onSubmit={save} className="grid grid-cols-1 md:grid-cols-4 gap-2 mb-3">
+        <input value={draft.term} onChange={e => setDraft({ ...draft, term: e.target.value })} placeholder="詞語（必填）"
+               aria-label="詞語" className={inputCls} />
+        <input value={draft.reading ?? ''} onChange={e => setDraft({ ...draft, reading: e.target.value })} placeholder="讀音（注音或拼音）"
+               aria-label="讀音" className={inputCls} />
+        <input value={draft.lesson ?? ''} onChange={e => setDraft({ ...draft, lesson: e.target.value })} placeholder="出處課次，如 第三課 師說"
+               aria-label="出處課次" className={inputCls} />
+        <input value={draft.definition} onChange={e => setDraft({ ...draft, definition: e.target.value })} placeholder="釋義（必填）"
+               aria-label="釋義" className={`${inputCls} md:col-span-4`} />
+        <div className="md:col-span-4 flex gap-2">
+          <button type="submit" className="px-3 py-1.5 rounded bg-blue-600 text-white text-sm">{editingId ? '更新詞語' : '新增詞語'}</button>
+          {editingId && <button type="button" onClick={reset} className="px-3 py-1.5 rounded bg-gray-200 text-sm">取消編輯</button>}
+        </div>
+      </form>
+      {message && <p className="mb-3 text-sm">{message}</p>}
+
+      <input value={filter} onChange={e => setFilter(e.target.value)} placeholder="搜尋詞庫" aria-label="搜尋詞庫"
+             className={`${inputCls} w-full mb-2`} />
+      {shown.length === 0 ? <p className="text-sm text-gray-500">{terms.length ? '沒有符合的詞語。' : '詞庫目前是空的。'}</p> : (
+        <ul className="divide-y text-sm max-h-80 overflow-y-auto">
+          {shown.map(t => (
+            <li key={t.id} className="py-2 flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p>
+                  <span className="font-semibold">{t.term}</span>
+                  {t.reading && <span className="ml-1 text-gray-500">（{t.reading}）</span>}
+                  {t.lesson && <span className="ml-2 text-xs bg-gray-100 rounded px-1">{t.lesson}</span>}
+                </p>
+                <p className="text-gray-700">{t.definition}</p>
+              </div>
+              <div className="flex gap-1 flex-shrink-0">
+                <button type="button" onClick={() => edit(t)} className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200">編輯</button>
+                <button type="button" onClick={() => remove(t)} className="px-2 py-1 rounded bg-red-50 text-red-700 hover:bg-red-100">刪除</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { HINT_LABEL, HINT_SCORE_FACTOR, nextHint, type HintLevel } from '../lib/hints';
+
+type Props = {
+  level: HintLevel;
+  available: HintLevel[];
+  onHint: (level: HintLevel) => void;
+};
+
+/** 逐級提示按鈕：每按一次開放下一個可用的提示 */
+export default function HintButton({ level, available, onHint }: Props) {
+  const next = nextHint(level, available);
+  if (!next && level === 0) return null;
+
+  return (
+    <span className="inline-flex items-center gap-2 text-sm">
+      {next && (
+        <button type="button" onClick={() => onHint(next)}
+                className="bg-amber-100 text-amber-900 px-3 py-1 rounded-md hover:bg-amber-200">
+          💡 提示 {next}：{HINT_LABEL[next]}
+        </button>
+      )}
+      <span className="text-amber-700" role="status">
+        {level > 0 && `已用提示 ${level} 級（答對得分 ×${HINT_SCORE_FACTOR[level]}）`}
+      </span>
+    </span>
+  );
+}
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { storage, type AuthUser } from '../lib/storage';
+import { isJoinCode, JOIN_CODE_LENGTH, normalizeJoinCode } from '../lib/classroom';
+import type { Classroom } from '../types/classroom';
+
+/** 學生的「我的班級」：輸入老師給的代碼加入班級 */
+export default function JoinClass({ user }: { user: AuthUser }) {
+  const [items, setItems] = useState<Classroom[]>([]);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    storage.classes.listJoined(user.uid).then(setItems).catch(err => setMessage(`❌ 讀取班級失敗：${err?.message || ''}`));
+  }, [user.uid]);
+
+  const join = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = normalizeJoinCode(code);
+    if (!isJoinCode(normalized)) return setMessage(`❌ 代碼是 ${JOIN_CODE_LENGTH} 個英數字。`);
+    setBusy(true);
+    try {
+      const cls = await storage.classes.join(normalized, user);
+      setItems(prev => (prev.some(c => c.id === cls.id) ? prev : [...prev, cls]));
+      setCode('');
+      setMessage(`✅ 已加入「${cls.name}」。`);
+    } catch (err: any) {
+      setMessage(`❌ ${err?.message || '加入失敗'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <h2 className="text-3xl font-bold mb-6">我的班級</h2>
+      <form onSubmit={join} className="bg-white p-4 rounded-lg shadow mb-4 flex gap-2 items-end max-w-md">
+        <label className="flex-1 text-sm">班級代碼
+          <input value={code} onChange={e => setCode(e.target.value)} maxLength={JOIN_CODE_LENGTH + 2}
+                 className="mt-1 w-full border rounded p-2 font-mono uppercase tracking-widest" />
+        </label>
+        <button type="submit" disabled={busy || !code.trim()} className="px-4 py-2 rounded bg-blue-600 text-white disabled:opacity-50">
+          加入
+        </button>
+      </form>
+      {message && <p className="mb-4 text-sm">{message}</p>}
+      <p className="text-sm text-gray-500 mb-3">加入班級後，該班老師可以看到你的作答紀錄與待複習題數。</p>
+      <p className="text-xs text-gray-500 mb-3">
+        你的帳號 ID：<code className="font-mono select-all">{user.uid}</code>（需要教師權限時，請把這串 ID 交給管理員）
+      </p>
+      {items.length === 0 ? <p className="text-gray-500">尚未加入任何班級。</p> : (
+        <ul className="bg-white rounded-lg shadow divide-y">
+          {items.map(c => (
+            <li key={c.id} className="p-4">
+              <div className="font-semibold">{c.name}</div>
+              <div className="text-xs text-gray-500">老師：{c.teacherEmail ?? '—'}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import { flushSync } from 'react-dom';
+import { LAZY_PENDING_ATTR, LAZY_RENDER_EVENT } from '../lib/practice-keys';
+
+type Props = {
+  children: ReactNode;
+  minHeight?: number;     // 尚未渲染時的佔位高度（px）
+  rootMargin?: string;    // 提前多少距離開始渲染
+};
+
+/** 捲動到附近才渲染內容；渲染過就保留，避免作答狀態因捲動而消失 */
+export default function LazyRender({ children, minHeight = 320, rootMargin = '800px 0px' }: Props) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = useState(typeof IntersectionObserver === 'undefined');
+
+  useEffect(() => {
+    const el = ref.current;
+    if (visible || !el) return;
+    const io = new IntersectionObserver(entries => {
+      if (entries.some(e => e.isIntersecting)) setVisible(true);
+    }, { rootMargin });
+    io.observe(el);
+    // 鍵盤跳題時同步渲染，事件派送者接著就能把焦點移進內容
+    const show = () => flushSync(() => setVisible(true));
+    el.addEventListener(LAZY_RENDER_EVENT, show);
+    return () => {
+      io.disconnect();
+      el.removeEventListener(LAZY_RENDER_EVENT, show);
+    };
+  }, [visible, rootMargin]);
+
+  // 外層 div 始終保留，渲染前後是同一個元素
+  return visible
+    ? <div ref={ref}>{children}</div>
+    : <div ref={ref} style={{ minHeight }} aria-hidden="true" {...{ [LAZY_PENDING_ATTR]: '' }} />;
+}
@@ -0,0 +1,15 @@
+import type { AnchorHTMLAttributes, MouseEvent } from 'react';
+import { navigate } from '../lib/router';
+
+type Props = Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> & { to: string };
+
+/** 站內連結：一般點擊由 router 切換頁面，Ctrl／中鍵等仍交給瀏覽器（開新分頁） */
+export default function Link({ to, onClick, children, ...rest }: Props) {
+  const handle = (e: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    e.preventDefault();
+    navigate(to);
+  };
+  return <a href={to} onClick={handle} {...rest}>{children}</a>;
+}
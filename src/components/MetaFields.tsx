@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import type { Difficulty, QuestionMeta } from '../types/question';
+import { DIFFICULTIES, SKILL_TAGS, TEXTBOOK, UNITS } from '../lib/curriculum';
+
+type Props = {
+  value?: QuestionMeta;
+  onChange: (meta: QuestionMeta | undefined) => void;
+  lessons?: string[];   // 既有課次，作為輸入提示
+};
+
+const inputCls = 'border rounded px-2 py-1 text-sm';
+
+/** 冊別／課次／能力標籤／難度／出處：新增與編輯題目共用 */
+export default function MetaFields({ value, onChange, lessons = [] }: Props) {
+  const meta = value ?? {};
+  const tags = meta.tags ?? [];
+  const [customTag, setCustomTag] = useState('');
+  const listId = 'meta-lessons';
+
+  const set = (patch: Partial<QuestionMeta>) => {
+    const next: QuestionMeta = { ...meta, ...patch };
+    (Object.keys(next) as (keyof QuestionMeta)[]).forEach(k => {
+      const v = next[k];
+      if (v === undefined || v === '' || (Array.isArray(v) && v.length === 0)) delete next[k];
+    });
+    onChange(Object.keys(next).length ? next : undefined);
+  };
+
+  const toggleTag = (t: string) => set({ tags: tags.includes(t) ? tags.filter(x => x !== t) : [...tags, t] });
+  const addCustomTag = () => {
+    const t = customTag.trim();
+    if (t && !tags.includes(t)) set({ tags: [...tags, t] });
+    setCustomTag('');
+  };
+
+  return (
+    <fieldset className="border rounded p-3 space-y-2 text-sm">
+      <legend className="px-1 font-semibold">課程與標籤</legend>
+      <div className="flex flex-wrap gap-3">
+        <label className="flex flex-col">冊別（{TEXTBOOK}）
+          <select value={meta.unit ?? ''} onChange={e => set({ unit: e.target.value })} className={inputCls}>
+            <option value="">未指定</option>
+            {UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+            {meta.unit && !UNITS.includes(meta.unit) && <option value={meta.unit}>{meta.unit}</option>}
+          </select>
+        </label>
+        <label className="flex flex-col">課次
+          <input value={meta.lesson ?? ''} list={listId} placeholder="如：第三課 師說"
+                 onChange={e => set({ lesson: e.target.value })} className={inputCls} />
+          <datalist id={listId}>
+            {lessons.map(l => <option key={l} value={l} />)}
+          </datalist>
+        </label>
+        <label className="flex flex-col">難度
+          <select value={meta.difficulty ?? ''} onChange={e => set({ difficulty: (e.target.value || undefined) as Difficulty | undefined })}
+                  className={inputCls}>
+            <option value="">未指定</option>
+            {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col">出處
+          <input value={meta.source ?? ''} placeholder="如：111 學測" onChange={e => set({ source: e.target.value })}
+                 className={inputCls} />
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span>能力標籤：</span>
+        {[...SKILL_TAGS, ...tags.filter(t => !SKILL_TAGS.includes(t))].map(t => (
+          <label key={t} className="flex items-center gap-1">
+            <input type="checkbox" checked={tags.includes(t)} onChange={() => toggleTag(t)} />
+            {t}
+          </label>
+        ))}
+        <input value={customTag} placeholder="其他標籤" onChange={e => setCustomTag(e.target.value)}
+               onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addCustomTag(); } }}
+               className={`${inputCls} w-28`} />
+        <button type="button" onClick={addCustomTag} className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200">加入</button>
+      </div>
+    </fieldset>
+  );
+}
@@ -0,0 +1,63 @@
+import type { ReactNode } from 'react';
+import { MASTERY_STREAK, type MistakeDetail, type MistakeEntry } from '../lib/mistakes';
+import { QUESTION_TYPE_LABEL } from '../lib/question-schema';
+import { htmlToText } from '../lib/html';
+import { sanitizeHtml } from '../lib/sanitize';
+
+type Props = {
+  entry: MistakeEntry;
+  detail: MistakeDetail;
+  curriculum?: string;
+  retrying: boolean;
+  onRetry: () => void;
+  children?: ReactNode;   // 重做時展開的作答區
+};
+
+const fmt = (d: Date) => d.toLocaleDateString('zh-TW');
+
+export default function MistakeCard({ entry, detail, curriculum, retrying, onRetry, children }: Props) {
+  const optionText = (letter: string) => htmlToText(detail.options[letter.charCodeAt(0) - 65] ?? '');
+  const answers = (letters: string[]) =>
+    letters.length ? letters.map(l => `(${l}) ${optionText(l)}`).join('、') : '（未作答）';
+
+  return (
+    <li className={`bg-white p-5 rounded-lg shadow border-l-4 ${entry.mastered ? 'border-green-500' : 'border-red-400'}`}>
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-xs text-gray-500 mb-1">
+            {QUESTION_TYPE_LABEL[entry.type]}{curriculum ? `｜${curriculum}` : ''}｜最近答錯 {fmt(entry.lastWrongAt)}
+          </p>
+          <p className="font-semibold">{detail.title}</p>
+        </div>
+        <div className="text-right text-sm flex-shrink-0">
+          {entry.mastered
+            ? <p className="text-green-700">✅ 已精熟{entry.masteredAt ? `（${fmt(entry.masteredAt)}）` : ''}</p>
+            : <p className="text-amber-700">連續答對 {entry.correctStreak} / {MASTERY_STREAK}</p>}
+          <p className="text-gray-500">累計答錯 {entry.wrongCount} 次</p>
+        </div>
+      </div>
+
+      <dl className="mt-3 text-sm space-y-1">
+        <div><dt className="inline font-semibold">❌ 你的答案：</dt><dd className="inline">{answers(detail.chosen)}</dd></div>
+        <div><dt className="inline font-semibold">✅ 正確答案：</dt><dd className="inline">{answers(detail.correct)}</dd></div>
+        {detail.analyses.map(a => (
+          <div key={a.letter} className="text-red-700">
+            <dt className="inline font-semibold">🔍 錯因分析（{a.letter}）：</dt><dd className="inline">{a.text}</dd>
+          </div>
+        ))}
+        {detail.explanation && (
+          <div>
+            <dt className="inline font-semibold">📖 詳細解析：</dt>
+            <dd className="inline" dangerouslySetInnerHTML={{ __html: sanitizeHtml(detail.explanation) }} />
+          </div>
+        )}
+      </dl>
+
+      <button type="button" onClick={onRetry} aria-expanded={retrying}
+              className="mt-3 px-3 py-1 text-sm rounded bg-yellow-500 text-black">
+        {retrying ? '收起' : '重做'}
+      </button>
+      {retrying && <div className="mt-4">{children}</div>}
+    </li>
+  );
+}
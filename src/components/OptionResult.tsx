@@ -0,0 +1,10 @@
+type Props = { correct: boolean; chosen: boolean };
+
+/** 交卷後選項旁的文字標記：對錯除了底色，也以符號與文字標示 */
+export default function OptionResult({ correct, chosen }: Props) {
+  if (!correct && !chosen) return null;
+  const text = correct ? (chosen ? '✓ 正解（你的答案）' : '✓ 正解') : '✗ 你的答案（錯誤）';
+  return (
+    <span className={`ml-auto pl-2 flex-shrink-0 text-sm font-semibold ${correct ? 'text-green-700' : 'text-red-700'}`}>{text}</span>
+  );
+}
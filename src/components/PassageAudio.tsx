@@ -0,0 +1,147 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { cueAt, formatTime, PLAYBACK_RATES, readCues, type SentenceCue } from '../lib/audio-sync';
+
+type Props = {
+  src: string;
+  passageRef: RefObject<HTMLElement>;   // 文章容器：從中讀取句子時間並標示目前句子
+};
+
+const PLAYING_CLASSES = ['bg-blue-100', 'underline', 'decoration-blue-400'];
+
+/** 文章音檔播放器：播放／暫停、速度、A-B 段落重複；有句子時間時同步標示並可點句子跳播 */
+export default function PassageAudio({ src, passageRef }: Props) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [cues, setCues] = useState<SentenceCue[]>([]);
+  const [playing, setPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [rate, setRate] = useState(1);
+  const [loop, setLoop] = useState<{ a: number | null; b: number | null }>({ a: null, b: null });
+  const [error, setError] = useState(false);
+  const current = cueAt(cues, time);
+
+  const seek = (t: number) => {
+    const audio = audioRef.current;
+    if (audio) audio.currentTime = Math.max(0, Math.min(t, audio.duration || t));
+  };
+
+  // 讀取句子時間，並讓有時間的句子可以點擊跳播
+  useEffect(() => {
+    const root = passageRef.current;
+    if (!root) return;
+    const found = readCues(root);
+    setCues(found);
+    const spans = found.map(c => root.querySelector<HTMLElement>(`[data-id="${c.id}"]`)).filter(Boolean) as HTMLElement[];
+    spans.forEach(el => {
+      el.classList.add('cursor-pointer');
+      el.setAttribute('role', 'button');
+      el.setAttribute('tabindex', '0');
+      el.title = '從這句開始播放';
+    });
+    const play = (target: EventTarget | null) => {
+      const el = (target as HTMLElement | null)?.closest<HTMLElement>('[data-id][data-start]');
+      const cue = el && found.find(c => c.id === el.dataset.id);
+      if (!cue) return false;
+      seek(cue.start);
+      audioRef.current?.play().catch(() => setError(true));
+      return true;
+    };
+    const onClick = (e: MouseEvent) => { play(e.target); };
+    const onKey = (e: KeyboardEvent) => {
+      if ((e.key === 'Enter' || e.key === ' ') && play(e.target)) e.preventDefault();
+    };
+    root.addEventListener('click', onClick);
+    root.addEventListener('keydown', onKey);
+    return () => {
+      root.removeEventListener('click', onClick);
+      root.removeEventListener('keydown', onKey);
+      spans.forEach(el => {
+        el.classList.remove('cursor-pointer');
+        el.removeAttribute('role');
+        el.removeAttribute('tabindex');
+        el.removeAttribute('title');
+      });
+    };
+  }, [src, passageRef]);
+
+  // 標示目前播放的句子
+  useEffect(() => {
+    const root = passageRef.current;
+    if (!root || !current) return;
+    const el = root.querySelector<HTMLElement>(`[data-id="${current.id}"]`);
+    if (!el) return;
+    el.classList.add(...PLAYING_CLASSES);
+    el.setAttribute('aria-current', 'true');
+    return () => {
+      el.classList.remove(...PLAYING_CLASSES);
+      el.removeAttribute('aria-current');
+    };
+  }, [current?.id]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, [rate]);
+
+  const onTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    // A-B 重複：播過 B 點就跳回 A 點
+    if (loop.a !== null && loop.b !== null && audio.currentTime >= loop.b) audio.currentTime = loop.a;
+    setTime(audio.currentTime);
+  };
+
+  const toggle = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play().catch(() => setError(true));
+    else audio.pause();
+  };
+
+  const markA = () => setLoop({ a: time, b: loop.b !== null && loop.b > time ? loop.b : null });
+  const markB = () => {
+    if (loop.a === null || time <= loop.a) return;
+    setLoop({ ...loop, b: time });
+    seek(loop.a);
+  };
+
+  const btn = 'px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 disabled:opacity-50';
+
+  return (
+    <div className="mb-4 p-3 bg-gray-50 border rounded-lg text-sm" role="group" aria-label="文章朗讀音檔">
+      <audio ref={audioRef} src={src} preload="metadata"
+             onPlay={() => setPlaying(true)} onPause={() => setPlaying(false)} onEnded={() => setPlaying(false)}
+             onTimeUpdate={onTimeUpdate} onLoadedMetadata={e => setDuration(e.currentTarget.duration)}
+             onError={() => setError(true)} />
+      {error ? <p className="text-red-700">❌ 音檔無法播放，請稍後再試。</p> : (
+        <div className="flex flex-wrap items-center gap-2">
+          <button type="button" onClick={toggle} className="px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700">
+            {playing ? '⏸ 暫停' : '▶ 播放'}
+          </button>
+          <input type="range" min={0} max={duration || 0} step={0.1} value={time}
+                 onChange={e => seek(Number(e.target.value))} aria-label="播放位置" className="flex-1 min-w-[8rem]" />
+          <span className="tabular-nums text-gray-600">{formatTime(time)} / {formatTime(duration)}</span>
+          <label className="flex items-center gap-1">速度
+            <select value={rate} onChange={e => setRate(Number(e.target.value))} className="border rounded px-1 py-0.5">
+              {PLAYBACK_RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+            </select>
+          </label>
+          <span className="flex items-center gap-1">
+            <button type="button" onClick={markA} className={btn} title="以目前位置為重複起點">
+              A{loop.a !== null ? ` ${formatTime(loop.a)}` : ''}
+            </button>
+            <button type="button" onClick={markB} disabled={loop.a === null} className={btn} title="以目前位置為重複終點">
+              B{loop.b !== null ? ` ${formatTime(loop.b)}` : ''}
+            </button>
+            {loop.a !== null && (
+              <button type="button" onClick={() => setLoop({ a: null, b: null })} className={btn}>取消重複</button>
+            )}
+          </span>
+          {loop.a !== null && loop.b !== null && (
+            <span className="text-blue-700" aria-live="polite">🔁 重複 {formatTime(loop.a)}–{formatTime(loop.b)}</span>
+          )}
+          {cues.length > 0 && <span className="text-gray-500">點文章中的句子可從該句播放</span>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import type { Difficulty, Question } from '../types/question';
+import { collectMetaOptions, DIFFICULTIES } from '../lib/curriculum';
+import { matchesCriteria, type PracticeSetCriteria } from '../lib/practice-set';
+import { DEFAULT_SET_COUNT } from '../lib/router';
+
+type Props = {
+  questions: Question[];
+  initial?: PracticeSetCriteria | null;           // 從網址帶入的條件
+  onBuild: (criteria: PracticeSetCriteria | null) => void;   // null＝回到全部題目
+};
+
+const selectCls = 'border rounded px-2 py-1';
+
+export default function PracticeSetBuilder({ questions, initial, onBuild }: Props) {
+  const [unit, setUnit] = useState(initial?.unit ?? '');
+  const [lesson, setLesson] = useState(initial?.lesson ?? '');
+  const [tags, setTags] = useState<string[]>(initial?.tags ?? []);
+  const [difficulty, setDifficulty] = useState<Difficulty | ''>(initial?.difficulty ?? '');
+  const [count, setCount] = useState(initial?.count ?? DEFAULT_SET_COUNT);
+
+  const options = collectMetaOptions(questions, unit);
+  const criteria = { unit, lesson, tags, difficulty };
+  const available = questions.filter(q => matchesCriteria(q, criteria)).length;
+
+  const toggleTag = (t: string) => setTags(prev => (prev.includes(t) ? prev.filter(x => x !== t) : [...prev, t]));
+
+  return (
+    <section className="bg-white p-4 rounded-lg shadow mb-6 text-sm">
+      <h3 className="text-lg font-semibold mb-2">組一份練習卷</h3>
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col">冊別
+          <select value={unit} onChange={e => { setUnit(e.target.value); setLesson(''); }} className={selectCls}>
+            <option value="">全部</option>
+            {options.units.map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col">課次
+          <select value={lesson} onChange={e => setLesson(e.target.value)} className={selectCls}>
+            <option value="">全部</option>
+            {options.lessons.map(l => <option key={l} value={l}>{l}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col">難度
+          <select value={difficulty} onChange={e => setDifficulty(e.target.value as Difficulty | '')} className={selectCls}>
+            <option value="">全部</option>
+            {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col">題數
+          <input type="number" min={1} max={100} value={count}
+                 onChange={e => setCount(Math.max(1, Number(e.target.value) || 1))} className={`${selectCls} w-20`} />
+        </label>
+        <span className="text-gray-500">符合 {available} 題</span>
+      </div>
+      {options.tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          <span>能力標籤（任一）：</span>
+          {options.tags.map(t => (
+            <label key={t} className="flex items-center gap-1">
+              <input type="checkbox" checked={tags.includes(t)} onChange={() => toggleTag(t)} />
+              {t}
+            </label>
+          ))}
+        </div>
+      )}
+      <div className="mt-3 flex gap-2">
+        <button type="button" disabled={available === 0}
+                onClick={() => onBuild({ ...criteria, count })}
+                className="px-4 py-2 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:bg-blue-300">
+          產生練習卷（{Math.min(count, available)} 題）
+        </button>
+        <button type="button" onClick={() => onBuild(null)} className="px-4 py-2 rounded bg-gray-200 hover:bg-gray-300">
+          顯示全部題目
+        </button>
+      </div>
+    </section>
+  );
+}
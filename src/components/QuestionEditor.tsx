@@ -0,0 +1,277 @@
+import { useState } from 'react';
+import {
+  QUESTION_SCHEMA_VERSION,
+  type Question,
+  type QuestionDraft,
+  type ReadingSubItem,
+  type ScoringRule,
+} from '../types/question';
+import { questionContent, validateQuestion } from '../lib/question-schema';
+import { optionLetter } from '../lib/grading';
+import { DEFAULT_SCORING, SCORING_RULE_LABEL, SCORING_RULES } from '../lib/scoring';
+import MetaFields from './MetaFields';
+
+type Props = {
+  question: Question;
+  lessons?: string[];
+  onSave: (content: QuestionDraft) => Promise<void>;
+  onCancel: () => void;
+};
+
+const inputCls = 'w-full border rounded px-2 py-1 text-sm';
+const splitRefs = (s: string) => s.split(/[、,，\s]+/).map(x => x.trim()).filter(Boolean);
+
+/** 選項、正確答案與各選項錯因：單選、多選與閱讀小題共用 */
+function ChoiceFields({
+  name, options, answers, multi, errorAnalysis, onChange,
+}: {
+  name: string;
+  options: string[];
+  answers: string[];
+  multi: boolean;
+  errorAnalysis: Record<string, string>;
+  onChange: (next: { options: string[]; answers: string[]; errorAnalysis: Record<string, string> }) => void;
+}) {
+  const set = (patch: Partial<{ options: string[]; answers: string[]; errorAnalysis: Record<string, string> }>) =>
+    onChange({ options, answers, errorAnalysis, ...patch });
+
+  const toggleAnswer = (letter: string) => {
+    if (!multi) return set({ answers: [letter] });
+    set({ answers: answers.includes(letter) ? answers.filter(a => a !== letter) : [...answers, letter].sort() });
+  };
+
+  // 刪除選項後，後面的字母往前移，答案與錯因一併調整
+  const removeOption = (idx: number) => {
+    const shift = (letter: string) => {
+      const i = letter.charCodeAt(0) - 65;
+      return i < idx ? letter : i === idx ? null : optionLetter(i - 1);
+    };
+    const nextEA: Record<string, string> = {};
+    Object.entries(errorAnalysis).forEach(([k, v]) => { const nk = shift(k); if (nk) nextEA[nk] = v; });
+    set({
+      options: options.filter((_, i) => i !== idx),
+      answers: answers.map(shift).filter((x): x is string => !!x),
+      errorAnalysis: nextEA,
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {options.map((opt, i) => {
+        const letter = optionLetter(i);
+        return (
+          <div key={i} className="border rounded p-2 space-y-1">
+            <div className="flex items-start gap-2">
+              <label className="flex items-center gap-1 text-sm font-semibold pt-1 shrink-0">
+                <input
+                  type={multi ? 'checkbox' : 'radio'}
+                  name={`${name}-answer`}
+                  checked={answers.includes(letter)}
+                  onChange={() => toggleAnswer(letter)}
+                />
+                ({letter})
+              </label>
+              <textarea
+                value={opt}
+                rows={2}
+                onChange={e => set({ options: options.map((o, j) => (j === i ? e.target.value : o)) })}
+                className={inputCls}
+              />
+              <button type="button" onClick={() => removeOption(i)} disabled={options.length <= 2}
+                      className="text-xs text-red-700 px-2 py-1 rounded hover:bg-red-50 disabled:opacity-30">
+                刪除
+              </button>
+            </div>
+            <input
+              value={errorAnalysis[letter] ?? ''}
+              placeholder={`🔍 選 ${letter} 的錯因（可留空）`}
+              onChange={e => {
+                const next = { ...errorAnalysis };
+                if (e.target.value) next[letter] = e.target.value;
+                else delete next[letter];
+                set({ errorAnalysis: next });
+              }}
+              className={inputCls}
+            />
+          </div>
+        );
+      })}
+      <button type="button" onClick={() => set({ options: [...options, ''] })} disabled={options.length >= 26}
+              className="text-sm px-3 py-1 rounded bg-gray-100 hover:bg-gray-200">
+        ＋ 新增選項
+      </button>
+    </div>
+  );
+}
+
+function SubItemFields({
+  item, index, onChange, onRemove,
+}: { item: ReadingSubItem; index: number; onChange: (item: ReadingSubItem) => void; onRemove: () => void }) {
+  const multi = item.subtype === 'multi_select';
+  const answers = multi ? item.correctAnswers ?? [] : item.answer ? [item.answer] : [];
+
+  const setSubtype = (subtype: ReadingSubItem['subtype']) => {
+    const { answer: _a, correctAnswers: _c, ...rest } = item;
+    onChange(subtype === 'multi_select'
+      ? { ...rest, subtype, correctAnswers: answers }
+      : { ...rest, subtype, answer: answers[0] });
+  };
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2 bg-gray-50">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold text-sm">第 {index + 1} 小題</span>
+        <select value={item.subtype} onChange={e => setSubtype(e.target.value as ReadingSubItem['subtype'])}
+                className="border rounded px-2 py-1 text-sm">
+          <option value="single_choice">單選</option>
+          <option value="multi_select">多選</option>
+        </select>
+        <button type="button" onClick={onRemove} className="ml-auto text-xs text-red-700 px-2 py-1 rounded hover:bg-red-100">
+          刪除小題
+        </button>
+      </div>
+      <textarea value={item.stem} rows={2} placeholder="題幹" onChange={e => onChange({ ...item, stem: e.target.value })}
+                className={inputCls} />
+      <ChoiceFields
+        name={`${item.id}`}
+        options={item.options}
+        answers={answers}
+        multi={multi}
+        errorAnalysis={item.errorAnalysis ?? {}}
+        onChange={({ options, answers: next, errorAnalysis }) => onChange(multi
+          ? { ...item, options, errorAnalysis, correctAnswers: next }
+          : { ...item, options, errorAnalysis, answer: next[0] })}
+      />
+      <textarea value={item.explanation ?? ''} rows={2} placeholder="📖 詳解"
+                onChange={e => onChange({ ...item, explanation: e.target.value || undefined })} className={inputCls} />
+      <input value={(item.evidenceRefs ?? []).join('、')} placeholder="📌 依據（文章中 data-id，以頓號分隔）"
+             onChange={e => {
+               const refs = splitRefs(e.target.value);
+               onChange({ ...item, evidenceRefs: refs.length ? refs : undefined });
+             }}
+             className={inputCls} />
+    </div>
+  );
+}
+
+export default function QuestionEditor({ question, lessons, onSave, onCancel }: Props) {
+  const [draft, setDraft] = useState<QuestionDraft>(() => questionContent(question));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const save = async () => {
+    const problems = validateQuestion({ ...draft, id: question.id, schemaVersion: QUESTION_SCHEMA_VERSION });
+    setErrors(problems);
+    if (problems.length) return;
+    setSaving(true);
+    try {
+      await onSave(draft);
+    } catch (err: any) {
+      setErrors([err?.message || '儲存失敗']);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const hasMulti = draft.type === 'multi_select'
+    || (draft.type === 'reading' && draft.items.some(i => i.subtype === 'multi_select'));
+
+  const explanationField = (
+    <label className="block text-sm">📖 詳解（可含 HTML）
+      <textarea value={draft.explanation ?? ''} rows={3}
+                onChange={e => setDraft({ ...draft, explanation: e.target.value || undefined })} className={inputCls} />
+    </label>
+  );
+
+  return (
+    <div className="mt-3 p-4 border-2 border-blue-200 rounded-lg space-y-3 bg-white">
+      {draft.type === 'reading' ? (
+        <>
+          <label className="block text-sm">文章標題
+            <input value={draft.passage.title} onChange={e => setDraft({ ...draft, passage: { ...draft.passage, title: e.target.value } })}
+                   className={inputCls} />
+          </label>
+          <label className="block text-sm">朗讀音檔網址（選填）
+            <input value={draft.passage.audioUrl ?? ''} placeholder="https://…/passage.mp3"
+                   onChange={e => setDraft({ ...draft, passage: { ...draft.passage, audioUrl: e.target.value.trim() || undefined } })}
+                   className={inputCls} />
+          </label>
+          <label className="block text-sm">文章內容（HTML；以 data-id 標出可引用的句子，加 data-start="0:12" 對應音檔時間）
+            <textarea value={draft.passage.textHtml} rows={8}
+                      onChange={e => setDraft({ ...draft, passage: { ...draft.passage, textHtml: e.target.value } })}
+                      className={`${inputCls} font-mono`} />
+          </label>
+          <div className="space-y-3">
+            {draft.items.map((item, i) => (
+              <SubItemFields
+                key={item.id}
+                item={item}
+                index={i}
+                onChange={next => setDraft({ ...draft, items: draft.items.map((x, j) => (j === i ? next : x)) })}
+                onRemove={() => setDraft({ ...draft, items: draft.items.filter((_, j) => j !== i) })}
+              />
+            ))}
+            <button
+              type="button"
+              onClick={() => {
+                const used = new Set(draft.items.map(it => it.id));
+                let n = draft.items.length + 1;
+                while (used.has(`q${n}`)) n++;
+                setDraft({
+                  ...draft,
+                  items: [...draft.items, { id: `q${n}`, subtype: 'single_choice', stem: '', options: ['', '', '', ''], answer: 'A' }],
+                });
+              }}
+              className="text-sm px-3 py-1 rounded bg-gray-100 hover:bg-gray-200"
+            >
+              ＋ 新增小題
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <label className="block text-sm">題幹（可含 HTML：.definition / .translation）
+            <textarea value={draft.title} rows={3} onChange={e => setDraft({ ...draft, title: e.target.value })}
+                      className={inputCls} />
+          </label>
+          <ChoiceFields
+            name={question.id}
+            options={draft.options}
+            answers={draft.type === 'multi_select' ? draft.correctAnswers : [draft.correctAnswer]}
+            multi={draft.type === 'multi_select'}
+            errorAnalysis={draft.errorAnalysis ?? {}}
+            onChange={({ options, answers, errorAnalysis }) => setDraft(draft.type === 'multi_select'
+              ? { ...draft, options, errorAnalysis, correctAnswers: answers }
+              : { ...draft, options, errorAnalysis, correctAnswer: answers[0] ?? '' })}
+          />
+          {explanationField}
+        </>
+      )}
+
+      {hasMulti && (
+        <label className="block text-sm">多選計分方式
+          <select value={draft.scoring ?? ''} className="ml-2 border rounded px-2 py-1"
+                  onChange={e => setDraft({ ...draft, scoring: (e.target.value || undefined) as ScoringRule | undefined })}>
+            <option value="">預設（{SCORING_RULE_LABEL[DEFAULT_SCORING]}）</option>
+            {SCORING_RULES.map(r => <option key={r} value={r}>{SCORING_RULE_LABEL[r]}</option>)}
+          </select>
+        </label>
+      )}
+
+      <MetaFields value={draft.meta} lessons={lessons} onChange={meta => setDraft({ ...draft, meta })} />
+
+      {errors.length > 0 && (
+        <ul className="p-3 rounded bg-red-100 text-red-800 text-sm list-disc pl-6">
+          {errors.map((e, i) => <li key={i}>{e}</li>)}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <button type="button" onClick={save} disabled={saving}
+                className="px-4 py-2 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:bg-blue-300">
+          {saving ? '儲存中…' : '儲存修改'}
+        </button>
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded bg-gray-200 hover:bg-gray-300">取消</button>
+      </div>
+    </div>
+  );
+}
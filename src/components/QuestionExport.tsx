@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { storage } from '../lib/storage';
+import {
+  dateStamp,
+  downloadFile,
+  filterQuestions,
+  questionsToCsv,
+  questionsToJson,
+  type QuestionExportFilter,
+} from '../lib/exporters';
+import type { Question, QuestionType } from '../types/question';
+
+const parseDay = (v: string) => (v ? new Date(`${v}T00:00:00`) : undefined);
+
+export default function QuestionExport() {
+  const [all, setAll] = useState<Question[]>([]);
+  const [type, setType] = useState<QuestionType | ''>('');
+  const [tag, setTag] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    storage.questions.list().then(setAll).catch(err => setMessage(`❌ 讀取題庫失敗：${err?.message || ''}`));
+  }, []);
+
+  const tags = [...new Set(all.flatMap(q => q.meta?.tags ?? []))].sort();
+  const filter: QuestionExportFilter = { type, tag, from: parseDay(from), to: parseDay(to) };
+  const selected = filterQuestions(all, filter);
+
+  const exportJson = () => {
+    downloadFile(`questions-${dateStamp()}.json`, questionsToJson(selected), 'application/json');
+    setMessage(`✅ 已匯出 ${selected.length} 題（JSON）。`);
+  };
+  const exportCsv = () => {
+    const readingCount = selected.filter(q => q.type === 'reading').length;
+    downloadFile(`questions-${dateStamp()}.csv`, questionsToCsv(selected), 'text/csv');
+    setMessage(`✅ 已匯出 ${selected.length - readingCount} 題（CSV）${readingCount ? `；${readingCount} 題閱讀題組請改用 JSON 匯出` : ''}。`);
+  };
+
+  return (
+    <section className="bg-white p-6 rounded-lg shadow">
+      <h3 className="text-xl font-semibold mb-3">匯出題庫</h3>
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <label className="flex flex-col">題型
+          <select value={type} onChange={e => setType(e.target.value as QuestionType | '')} className="border rounded px-2 py-1">
+            <option value="">全部</option>
+            <option value="single_choice">單選</option>
+            <option value="multi_select">多選</option>
+            <option value="reading">閱讀題組</option>
+          </select>
+        </label>
+        <label className="flex flex-col">標籤
+          <select value={tag} onChange={e => setTag(e.target.value)} className="border rounded px-2 py-1">
+            <option value="">全部</option>
+            {tags.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col">建立日期（起）
+          <input type="date" value={from} onChange={e => setFrom(e.target.value)} className="border rounded px-2 py-1" />
+        </label>
+        <label className="flex flex-col">建立日期（迄）
+          <input type="date" value={to} onChange={e => setTo(e.target.value)} className="border rounded px-2 py-1" />
+        </label>
+        <span className="text-gray-500">符合 {selected.length} 題</span>
+      </div>
+      <div className="mt-4 flex gap-2">
+        <button type="button" onClick={exportJson} disabled={selected.length === 0}
+                className="px-4 py-2 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:bg-blue-300">
+          匯出 JSON
+        </button>
+        <button type="button" onClick={exportCsv} disabled={selected.length === 0}
+                className="px-4 py-2 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50">
+          匯出 CSV
+        </button>
+      </div>
+      {message && <p className="mt-3 text-sm">{message}</p>}
+    </section>
+  );
+}
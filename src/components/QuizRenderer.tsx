@@ -1,64 +1,129 @@
 import { useState } from 'react';
-import type { QAItem, ChoiceKey } from '../types/qa';
+import type { Question } from '../types/question';
+import { isChoiceCorrect, normalizeChoiceArray, optionLetter } from '../lib/grading';
+import { sanitizeHtml } from '../lib/sanitize';
 
-type Props = { data: QAItem[] };
+type Props = { data: Question[] };
 
+/** 渲染器內部的作答單位：單選題、多選題，或閱讀題組的一個小題 */
+type ChoiceUnit = {
+  key: string;
+  stem: string;
+  options: string[];
+  correct: string[];
+  multi: boolean;
+  explanation?: string;
+  errorAnalysis?: Record<string, string>;
+};
+
+const unitsOf = (q: Question): ChoiceUnit[] => {
+  switch (q.type) {
+    case 'single_choice':
+      return [{ key: q.id, stem: q.title, options: q.options, correct: [q.correctAnswer], multi: false, explanation: q.explanation, errorAnalysis: q.errorAnalysis }];
+    case 'multi_select':
+      return [{ key: q.id, stem: q.title, options: q.options, correct: q.correctAnswers, multi: true, explanation: q.explanation, errorAnalysis: q.errorAnalysis }];
+    case 'reading':
+      return q.items.map(it => ({
+        key: `${q.id}__${it.id}`,
+        stem: it.stem,
+        options: it.options,
+        correct: it.subtype === 'multi_select' ? it.correctAnswers ?? [] : it.answer ? [it.answer] : [],
+        multi: it.subtype === 'multi_select',
+        explanation: it.explanation,
+        errorAnalysis: it.errorAnalysis,
+      }));
+  }
+};
+
+/** 輕量渲染器：單選題選了就對答案，多選題（含閱讀題組的多選小題）按「對答案」才批改 */
 export default function QuizRenderer({ data }: Props) {
-  const [answers, setAnswers] = useState<Record<string, ChoiceKey | null>>({});
+  const [answers, setAnswers] = useState<Record<string, string[]>>({});
+  const [revealed, setRevealed] = useState<Record<string, boolean>>({});
 
-  const handleChange = (qid: string, key: ChoiceKey) => {
-    setAnswers(prev => ({ ...prev, [qid]: key }));
+  const choose = (unit: ChoiceUnit, key: string) => {
+    if (!unit.multi) {
+      setAnswers(prev => ({ ...prev, [unit.key]: [key] }));
+      setRevealed(prev => ({ ...prev, [unit.key]: true }));
+      return;
+    }
+    setAnswers(prev => {
+      const cur = prev[unit.key] ?? [];
+      return { ...prev, [unit.key]: cur.includes(key) ? cur.filter(k => k !== key) : [...cur, key] };
+    });
   };
 
-  return (
-    <div className="mx-auto max-w-3xl p-4 space-y-8">
-      {data.map(q => {
-        const selected = answers[q.id] ?? null;
-        const isCorrect = selected ? selected === q.answer : null;
+  const renderUnit = (unit: ChoiceUnit) => {
+    const selected = answers[unit.key] ?? [];
+    const shown = !!revealed[unit.key];
+    const isCorrect = isChoiceCorrect(selected, unit.correct);
 
-        return (
-          <div key={q.id} className="rounded-2xl border bg-white/70 shadow-sm p-5">
-            <div className="prose max-w-none mb-4" dangerouslySetInnerHTML={{ __html: q.stem_html }} />
-            <div className="space-y-3">
-              {q.options.map(opt => {
-                const name = `q-${q.id}`;
-                const checked = selected === opt.key;
-                const pickedWrong = checked && opt.key !== q.answer;
-                const pickedRight = checked && opt.key === q.answer;
+    return (
+      <div key={unit.key}>
+        <div className="prose max-w-none mb-4" dangerouslySetInnerHTML={{ __html: sanitizeHtml(unit.stem) }} />
+        <div className="space-y-3">
+          {unit.options.map((html, i) => {
+            const key = optionLetter(i);
+            const checked = selected.includes(key);
+            const pickedWrong = shown && checked && !unit.correct.includes(key);
+            const pickedRight = shown && checked && unit.correct.includes(key);
 
-                return (
-                  <label
-                    key={opt.key}
-                    className={`flex gap-3 items-start rounded-xl border p-3 cursor-pointer hover:bg-slate-50 transition
-                    ${pickedRight ? 'border-emerald-500' : ''} ${pickedWrong ? 'border-rose-400' : ''}`}>
-                    <input
-                      type="radio"
-                      name={name}
-                      className="mt-1"
-                      checked={checked || false}
-                      onChange={() => handleChange(q.id, opt.key)}
-                    />
-                    <div className="flex-1">
-                      <div dangerouslySetInnerHTML={{ __html: `${opt.key}. ${opt.text_html}` }} />
-                      {opt.translation ? <div className="translation">{opt.translation}</div> : null}
-                      {selected === opt.key && q.rationales?.[opt.key] ? (
-                        <div className="mt-1 text-sm">{q.rationales[opt.key]}</div>
-                      ) : null}
-                    </div>
-                  </label>
-                );
-              })}
-            </div>
+            return (
+              <label
+                key={key}
+                className={`flex gap-3 items-start rounded-xl border p-3 cursor-pointer hover:bg-slate-50 transition
+                ${pickedRight ? 'border-emerald-500' : ''} ${pickedWrong ? 'border-rose-400' : ''}`}>
+                <input
+                  type={unit.multi ? 'checkbox' : 'radio'}
+                  name={`q-${unit.key}`}
+                  className="mt-1"
+                  checked={checked}
+                  disabled={unit.multi && shown}
+                  onChange={() => choose(unit, key)}
+                />
+                <div className="flex-1">
+                  <div dangerouslySetInnerHTML={{ __html: `${key}. ${sanitizeHtml(html)}` }} />
+                  {shown && checked && unit.errorAnalysis?.[key] ? (
+                    <div className="mt-1 text-sm">{unit.errorAnalysis[key]}</div>
+                  ) : null}
+                </div>
+              </label>
+            );
+          })}
+        </div>
+
+        {unit.multi && !shown ? (
+          <button
+            type="button"
+            disabled={selected.length === 0}
+            onClick={() => setRevealed(prev => ({ ...prev, [unit.key]: true }))}
+            className="mt-4 rounded-xl border px-4 py-2 disabled:opacity-50">
+            對答案
+          </button>
+        ) : null}
 
-            {selected ? (
-              <div className={`mt-4 rounded-xl p-3 border ${isCorrect ? 'border-emerald-500' : 'border-slate-300'}`}>
-                <div className="font-medium">{isCorrect ? '✅ 作答正確' : `❌ 正確答案：${q.answer}`}</div>
-                {q.explanation ? <div className="mt-1 text-slate-600">{q.explanation}</div> : null}
-              </div>
-            ) : null}
+        {shown ? (
+          <div className={`mt-4 rounded-xl p-3 border ${isCorrect ? 'border-emerald-500' : 'border-slate-300'}`}>
+            <div className="font-medium">{isCorrect ? '✅ 作答正確' : `❌ 正確答案：${normalizeChoiceArray(unit.correct).join('、')}`}</div>
+            {unit.explanation ? <div className="mt-1 text-slate-600" dangerouslySetInnerHTML={{ __html: sanitizeHtml(unit.explanation) }} /> : null}
           </div>
-        );
-      })}
+        ) : null}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mx-auto max-w-3xl p-4 space-y-8">
+      {data.map(q => (
+        <div key={q.id} className="rounded-2xl border bg-white/70 shadow-sm p-5 space-y-6">
+          {q.type === 'reading' ? (
+            <div>
+              <h3 className="font-semibold mb-2">{q.passage.title}</h3>
+              <div className="prose max-w-none" dangerouslySetInnerHTML={{ __html: sanitizeHtml(q.passage.textHtml) }} />
+            </div>
+          ) : null}
+          {unitsOf(q).map(renderUnit)}
+        </div>
+      ))}
     </div>
   );
 }
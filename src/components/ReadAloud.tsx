@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from 'react';
+import { chineseVoices, speechAvailable, startReading, type Reader, type SpeechSegment } from '../lib/speech';
+import { updatePreferences, usePreferences } from '../lib/preferences';
+import type { ReadAloudSettings } from '../types/preferences';
+
+type Props = {
+  build: () => SpeechSegment[];   // 按下朗讀時才組出要念的句子
+  label?: string;
+};
+
+const btn = 'px-2 py-1 rounded bg-gray-100 hover:bg-gray-200';
+
+/** 朗讀設定：語音、速度、音調與文言文慢速，存進使用者偏好 */
+function ReadAloudOptions({ settings }: { settings: ReadAloudSettings }) {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  useEffect(() => { chineseVoices().then(setVoices); }, []);
+  const save = (patch: Partial<ReadAloudSettings>) => updatePreferences('readAloud', { ...settings, ...patch });
+
+  return (
+    <div className="mt-2 p-3 border rounded bg-gray-50 flex flex-wrap items-center gap-4 text-sm">
+      <label className="flex items-center gap-1">語音
+        <select value={settings.voiceURI} onChange={e => save({ voiceURI: e.target.value })} className="border rounded px-1 py-0.5 max-w-[14rem]">
+          <option value="">預設（中文）</option>
+          {voices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name}（{v.lang}）</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">速度 {settings.rate.toFixed(1)}×
+        <input type="range" min={0.5} max={2} step={0.1} value={settings.rate}
+               onChange={e => save({ rate: Number(e.target.value) })} />
+      </label>
+      <label className="flex items-center gap-1">音調 {settings.pitch.toFixed(1)}
+        <input type="range" min={0} max={2} step={0.1} value={settings.pitch}
+               onChange={e => save({ pitch: Number(e.target.value) })} />
+      </label>
+      <label className="flex items-center gap-1">
+        <input type="checkbox" checked={settings.classicalSlow} onChange={e => save({ classicalSlow: e.target.checked })} />
+        文言文慢速（放慢並在句間停頓）
+      </label>
+    </div>
+  );
+}
+
+/** 逐句朗讀：標示正在念的句子，可暫停／繼續、上一句／下一句 */
+export default function ReadAloud({ build, label = '朗讀' }: Props) {
+  const { readAloud: settings } = usePreferences();
+  const [segments, setSegments] = useState<SpeechSegment[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const [showOptions, setShowOptions] = useState(false);
+  const reader = useRef<Reader | null>(null);
+  const currentRef = useRef<HTMLLIElement>(null);
+
+  useEffect(() => () => reader.current?.stop(), []);
+  useEffect(() => { currentRef.current?.scrollIntoView({ block: 'nearest' }); }, [index]);
+
+  if (!speechAvailable()) return null;
+
+  const start = () => {
+    const segs = build().filter(s => s.text.trim());
+    if (!segs.length) return;
+    setSegments(segs);
+    setPaused(false);
+    reader.current = startReading(segs, settings, {
+      onIndex: setIndex,
+      onEnd: () => { reader.current = null; setSegments(null); setPaused(false); },
+    });
+  };
+
+  const togglePause = () => {
+    if (paused) reader.current?.resume();
+    else reader.current?.pause();
+    setPaused(!paused);
+  };
+
+  const skip = (delta: number) => { reader.current?.skip(delta); setPaused(false); };
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        {!segments ? (
+          <button type="button" onClick={start} className="bg-gray-500 text-white px-3 py-1 rounded-md">🔊 {label}</button>
+        ) : (
+          <>
+            <button type="button" onClick={() => skip(-1)} className={btn} aria-label="上一句">⏮</button>
+            <button type="button" onClick={togglePause} className={btn}>{paused ? '▶ 繼續' : '⏸ 暫停'}</button>
+            <button type="button" onClick={() => skip(1)} className={btn} aria-label="下一句">⏭</button>
+            <button type="button" onClick={() => reader.current?.stop()} className={btn}>⏹ 停止</button>
+            <span className="text-gray-500">第 {index + 1} / {segments.length} 句</span>
+          </>
+        )}
+        <button type="button" onClick={() => setShowOptions(v => !v)} aria-expanded={showOptions}
+                className="text-gray-500 hover:text-gray-800" title="朗讀設定">⚙ 朗讀設定</button>
+      </div>
+      {showOptions && <ReadAloudOptions settings={settings} />}
+      {segments && (
+        <ol className="mt-2 max-h-32 overflow-y-auto p-2 border rounded bg-white leading-relaxed" aria-label="朗讀內容">
+          {segments.map((s, i) => (
+            <li key={i} ref={i === index ? currentRef : undefined} aria-current={i === index ? 'true' : undefined}
+                className={`inline ${i === index ? 'bg-yellow-200 rounded' : 'text-gray-500'}`}>
+              {s.text}{' '}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { storage, type AuthUser } from '../lib/storage';
+import { sanitizeQuestion } from '../lib/sanitize';
+import type { QuestionDraft, QuestionRevision } from '../types/question';
+
+type Props = {
+  questionId: string;
+  user: AuthUser;
+  onRestored: () => void;
+};
+
+const clip = (s?: string) => (s === undefined ? '（無）' : s.length > 80 ? `${s.slice(0, 80)}…` : s);
+
+export default function RevisionHistory({ questionId, user, onRestored }: Props) {
+  const [revisions, setRevisions] = useState<QuestionRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState('');
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setRevisions(await storage.questions.listRevisions(questionId));
+    } catch (err: any) {
+      setMessage(`❌ 讀取修訂紀錄失敗：${err?.message || ''}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+  useEffect(() => { load(); }, [questionId]);
+
+  const restore = async (content: QuestionDraft, label: string) => {
+    if (!confirm(`確定要把題目還原為「${label}」嗎？目前內容會另存一筆修訂紀錄。`)) return;
+    try {
+      const { question, removed } = sanitizeQuestion(content);
+      const rev = await storage.questions.update(questionId, question, user, `還原為${label}`);
+      const note = removed.length ? `（已移除不安全的 HTML：${removed.join('、')}）` : '';
+      setMessage(rev ? `✅ 已還原。${note}` : '內容與目前相同，無需還原。');
+      await load();
+      onRestored();
+    } catch (err: any) {
+      setMessage(`❌ 還原失敗：${err?.message || ''}`);
+    }
+  };
+
+  const original = revisions[revisions.length - 1]?.before;
+
+  return (
+    <div className="mt-3 p-4 border-2 border-gray-200 rounded-lg bg-gray-50 text-sm">
+      <h4 className="font-semibold mb-2">修訂紀錄</h4>
+      {message && <p className="mb-2">{message}</p>}
+      {loading ? <p>讀取中…</p> : revisions.length === 0 ? <p className="text-gray-500">尚無修訂。</p> : (
+        <ol className="space-y-3">
+          {revisions.map((r, i) => {
+            const when = r.at ? r.at.toLocaleString() : '（時間未知）';
+            return (
+              <li key={r.id} className="bg-white border rounded p-3">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{when}</span>
+                  <span className="text-gray-500">{r.by.email ?? r.by.uid}</span>
+                  {r.note && <span className="text-xs bg-gray-100 rounded px-2">{r.note}</span>}
+                  {i > 0 && (
+                    <button type="button" onClick={() => restore(r.after, `${when} 的版本`)}
+                            className="ml-auto px-2 py-1 rounded bg-blue-50 text-blue-700 hover:bg-blue-100">
+                      還原為此版本
+                    </button>
+                  )}
+                  {i === 0 && <span className="ml-auto text-xs text-green-700">目前版本</span>}
+                </div>
+                <table className="mt-2 w-full text-xs">
+                  <tbody>
+                    {r.diff.map(c => (
+                      <tr key={c.path} className="align-top">
+                        <td className="pr-2 font-mono text-gray-500 whitespace-nowrap">{c.path}</td>
+                        <td className="pr-2 text-red-700 line-through">{clip(c.before)}</td>
+                        <td className="text-green-700">{clip(c.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </li>
+            );
+          })}
+          {original && (
+            <li className="bg-white border rounded p-3 flex items-center">
+              <span className="font-medium">最初版本</span>
+              <button type="button" onClick={() => restore(original, '最初版本')}
+                      className="ml-auto px-2 py-1 rounded bg-blue-50 text-blue-700 hover:bg-blue-100">
+                還原為此版本
+              </button>
+            </li>
+          )}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import { updatePreferences, usePreferences } from '../lib/preferences';
+
+/** 題目上的「顯示/隱藏詞語注音（拼音）」按鈕；切換的是使用者偏好，所有題目一起套用。
+ *  只標作者寫好的 ruby 與詞庫裡有讀音的詞語，不是逐字標音 */
+export default function RubyToggle() {
+  const { display } = usePreferences();
+  const label = display.rubySystem === 'pinyin' ? '拼音' : '注音';
+  return (
+    <button type="button" onClick={() => updatePreferences('display', { ...display, ruby: !display.ruby })}
+            aria-pressed={display.ruby} className="bg-gray-200 px-3 py-1 rounded-md text-sm">
+      顯示/隱藏詞語{label}
+    </button>
+  );
+}
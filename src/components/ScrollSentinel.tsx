@@ -0,0 +1,24 @@
+import { useEffect, useRef } from 'react';
+
+type Props = {
+  onVisible: () => void;
+  disabled?: boolean;
+};
+
+/** 無限捲動：放在清單最後，進入畫面時觸發 onVisible */
+export default function ScrollSentinel({ onVisible, disabled }: Props) {
+  const ref = useRef<HTMLDivElement>(null);
+  const cb = useRef(onVisible);
+  cb.current = onVisible;
+
+  useEffect(() => {
+    if (disabled || !ref.current || typeof IntersectionObserver === 'undefined') return;
+    const io = new IntersectionObserver(entries => {
+      if (entries.some(e => e.isIntersecting)) cb.current();
+    }, { rootMargin: '400px 0px' });
+    io.observe(ref.current);
+    return () => io.disconnect();
+  }, [disabled]);
+
+  return <div ref={ref} className="h-1" />;
+}
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { attemptOutbox, type SyncState } from '../lib/outbox';
+
+type Props = { userId: string };
+
+const RETRY_MS = 60 * 1000;   // 有待上傳紀錄時定期重試
+
+/** 側欄的同步狀態：顯示離線與待上傳筆數，恢復連線時自動重送 */
+export default function SyncStatus({ userId }: Props) {
+  const [state, setState] = useState<SyncState | null>(null);
+
+  useEffect(() => attemptOutbox.subscribe(setState), []);
+
+  useEffect(() => {
+    const online = () => { attemptOutbox.setOnline(true); attemptOutbox.flush(userId); };
+    const offline = () => attemptOutbox.setOnline(false);
+    window.addEventListener('online', online);
+    window.addEventListener('offline', offline);
+    attemptOutbox.flush(userId);
+    const timer = window.setInterval(() => attemptOutbox.flush(userId), RETRY_MS);
+    return () => {
+      window.removeEventListener('online', online);
+      window.removeEventListener('offline', offline);
+      window.clearInterval(timer);
+    };
+  }, [userId]);
+
+  if (!state) return null;
+
+  const { pending, syncing, online, lastError } = state;
+  const [icon, text, cls] =
+    !online ? ['📴', pending ? `離線中，${pending} 筆作答待上傳` : '離線中，作答會先存在本機', 'bg-amber-50 text-amber-800']
+    : syncing ? ['🔄', `同步中（${pending} 筆）…`, 'bg-blue-50 text-blue-800']
+    : pending ? ['⚠️', `${pending} 筆作答尚未上傳`, 'bg-red-50 text-red-800']
+    : ['✅', '作答紀錄已同步', 'bg-green-50 text-green-800'];
+
+  return (
+    <div className={`mt-3 rounded px-2 py-1 text-xs ${cls}`}>
+      <p role="status" aria-live="polite">
+        <span aria-hidden="true">{icon}</span> {text}
+      </p>
+      {online && !syncing && pending > 0 && (
+        <>
+          {lastError && <p className="mt-1 break-words" title={lastError}>上次失敗：{lastError}</p>}
+          <button type="button" onClick={() => attemptOutbox.flush(userId)} className="mt-1 underline">立即同步</button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { storage, type AuthUser } from '../lib/storage';
+import type { Classroom } from '../types/classroom';
+import ClassDashboard from './ClassDashboard';
+import ClassAssignments from './ClassAssignments';
+
+/** 老師的班級管理：建立班級、發加入代碼、看班級儀表板與出作業 */
+export default function TeacherClasses({ user }: { user: AuthUser }) {
+  const [items, setItems] = useState<Classroom[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [tab, setTab] = useState<'students' | 'assignments'>('students');
+  const [name, setName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      try {
+        const owned = await storage.classes.listOwned(user.uid);
+        setItems(owned);
+        setSelected(cur => cur ?? owned[0]?.id ?? null);
+      } catch (err: any) {
+        setMessage(`❌ 讀取班級失敗：${err?.message || ''}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+    run();
+  }, [user.uid]);
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    try {
+      const cls = await storage.classes.create(name.trim(), user);
+      setItems(prev => [cls, ...prev]);
+      setSelected(cls.id);
+      setName('');
+      setMessage(`✅ 已建立「${cls.name}」，加入代碼：${cls.joinCode}`);
+    } catch (err: any) {
+      setMessage(`❌ 建立班級失敗：${err?.message || ''}`);
+    }
+  };
+
+  const regenerate = async (cls: Classroom) => {
+    if (!confirm(`換一組新代碼後，舊代碼 ${cls.joinCode} 就不能再用來加入。確定嗎？`)) return;
+    try {
+      const joinCode = await storage.classes.regenerateCode(cls.id);
+      setItems(prev => prev.map(c => (c.id === cls.id ? { ...c, joinCode } : c)));
+    } catch (err: any) {
+      setMessage(`❌ 更換代碼失敗：${err?.message || ''}`);
+    }
+  };
+
+  const current = items.find(c => c.id === selected) ?? null;
+
+  return (
+    <div>
+      <h2 className="text-3xl font-bold mb-6">班級管理</h2>
+
+      <form onSubmit={create} className="bg-white p-4 rounded-lg shadow mb-6 flex gap-2 items-end">
+        <label className="flex-1 text-sm">新班級名稱
+          <input value={name} onChange={e => setName(e.target.value)} placeholder="例：高二忠班"
+                 className="mt-1 w-full border rounded p-2" />
+        </label>
+        <button type="submit" className="px-4 py-2 rounded bg-blue-600 text-white disabled:opacity-50" disabled={!name.trim()}>
+          建立班級
+        </button>
+      </form>
+
+      {message && <p className="mb-4 text-sm">{message}</p>}
+
+      {loading ? <p>讀取中…</p> : items.length === 0 ? <p className="text-gray-500">還沒有班級。</p> : (
+        <div className="flex flex-col lg:flex-row gap-6">
+          <ul className="lg:w-64 flex-shrink-0 space-y-2">
+            {items.map(c => (
+              <li key={c.id}>
+                <button type="button" onClick={() => setSelected(c.id)} aria-current={c.id === selected}
+                        className={`w-full text-left px-4 py-2 rounded-md ${c.id === selected ? 'bg-blue-100' : 'bg-white hover:bg-gray-100'}`}>
+                  <div className="font-semibold">{c.name}</div>
+                  <div className="text-xs text-gray-500">代碼 {c.joinCode}</div>
+                </button>
+              </li>
+            ))}
+          </ul>
+          {current && (
+            <section className="flex-1 bg-white p-6 rounded-lg shadow">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xl font-semibold">{current.name}</h3>
+                <div className="flex items-center gap-2 text-sm">
+                  <span>加入代碼 <span className="font-mono text-lg tracking-widest">{current.joinCode}</span></span>
+                  <button onClick={() => regenerate(current)} className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200">換代碼</button>
+                </div>
+              </div>
+              <div className="flex gap-2 mb-4 border-b" role="tablist">
+                {([['students', '學生'], ['assignments', '作業']] as const).map(([key, label]) => (
+                  <button key={key} type="button" role="tab" aria-selected={tab === key} onClick={() => setTab(key)}
+                          className={`px-3 py-1.5 -mb-px border-b-2 ${tab === key ? 'border-blue-600 font-semibold' : 'border-transparent text-gray-500'}`}>
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {tab === 'students' ? <ClassDashboard classroom={current} /> : <ClassAssignments classroom={current} user={user} />}
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
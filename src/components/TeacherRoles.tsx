@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { storage, type AuthUser } from '../lib/storage';
+
+/** 管理員指定教師帳號；教師可以建立班級，但看不到題庫後台。
+ *  以帳號 ID 指定（對方在「我的班級」頁可以看到自己的 ID），不以 Email 查帳號 */
+export default function TeacherRoles() {
+  const [teachers, setTeachers] = useState<AuthUser[]>([]);
+  const [uid, setUid] = useState('');
+  const [message, setMessage] = useState('');
+
+  const load = async () => {
+    try {
+      setTeachers(await storage.users.listTeachers());
+    } catch (err: any) {
+      setMessage(`❌ 讀取教師名單失敗：${err?.message || ''}`);
+    }
+  };
+  useEffect(() => { load(); }, []);
+
+  const update = async (target: string, label: string, enabled: boolean) => {
+    try {
+      await storage.users.setTeacher(target, enabled);
+      setMessage(enabled ? `✅ 已將 ${label} 設為教師。` : `✅ 已取消 ${label} 的教師身分。`);
+      setUid('');
+      load();
+    } catch (err: any) {
+      setMessage(`❌ ${err?.message || '設定失敗'}`);
+    }
+  };
+
+  return (
+    <div>
+      <form onSubmit={e => { e.preventDefault(); if (uid.trim()) update(uid.trim(), uid.trim(), true); }} className="flex gap-2 mb-3">
+        <input value={uid} onChange={e => setUid(e.target.value)} placeholder="教師的帳號 ID"
+               className="flex-1 border rounded p-2 text-sm font-mono" />
+        <button type="submit" className="px-3 py-1.5 rounded bg-blue-600 text-white text-sm">設為教師</button>
+      </form>
+      {message && <p className="mb-3 text-sm">{message}</p>}
+      {teachers.length === 0 ? <p className="text-sm text-gray-500">目前沒有教師帳號。</p> : (
+        <ul className="divide-y text-sm">
+          {teachers.map(t => (
+            <li key={t.uid} className="py-2 flex items-center justify-between">
+              <span>{t.email ?? t.uid}</span>
+              <button onClick={() => update(t.uid, t.email ?? t.uid, false)} className="px-2 py-1 rounded bg-red-50 text-red-700 hover:bg-red-100">
+                取消教師
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
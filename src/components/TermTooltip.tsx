@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+
+const TOOLTIP_ID = 'term-tooltip';
+// 作答前尚未開放釋義（提示 1）或模擬考中，不顯示詞語釋義
+const SUPPRESSED = '.hide-definitions, .exam-paper';
+
+/** 全站共用的詞語提示框：滑鼠移到或鍵盤聚焦到帶 data-term 的元素時顯示 */
+export default function TermTooltip() {
+  const [tip, setTip] = useState<{ content: string; x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    let current: HTMLElement | null = null;
+    const show = (e: Event) => {
+      const el = (e.target as HTMLElement | null)?.closest?.<HTMLElement>('[data-term]');
+      if (!el || el === current || el.closest(SUPPRESSED)) return;
+      current?.removeAttribute('aria-describedby');
+      current = el;
+      el.setAttribute('aria-describedby', TOOLTIP_ID);
+      const r = el.getBoundingClientRect();
+      setTip({ content: el.dataset.term!, x: r.left, y: r.top - 6 });
+    };
+    const hide = (e: Event) => {
+      const next = (e as MouseEvent | FocusEvent).relatedTarget;
+      if (!current || (next instanceof Node && current.contains(next))) return;
+      current.removeAttribute('aria-describedby');
+      current = null;
+      setTip(null);
+    };
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') hide(e); };
+    document.addEventListener('mouseover', show);
+    document.addEventListener('mouseout', hide);
+    document.addEventListener('focusin', show);
+    document.addEventListener('focusout', hide);
+    document.addEventListener('keydown', onKey);
+    window.addEventListener('scroll', hide, true);
+    return () => {
+      document.removeEventListener('mouseover', show);
+      document.removeEventListener('mouseout', hide);
+      document.removeEventListener('focusin', show);
+      document.removeEventListener('focusout', hide);
+      document.removeEventListener('keydown', onKey);
+      window.removeEventListener('scroll', hide, true);
+    };
+  }, []);
+
+  // 提示框一直留在 DOM 中，aria-describedby 指過來時讀屏軟體一定找得到
+  return (
+    <div id={TOOLTIP_ID} role="tooltip" hidden={!tip}
+         className="fixed z-50 max-w-xs p-2 text-sm bg-gray-800 text-white rounded-md -translate-y-full pointer-events-none"
+         style={tip ? { left: tip.x, top: tip.y } : undefined}>
+      {tip?.content}
+    </div>
+  );
+}
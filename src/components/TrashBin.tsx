@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { storage } from '../lib/storage';
+import { canPurge, purgeableAt, TRASH_RETENTION_DAYS } from '../lib/trash';
+import { questionTitle } from '../lib/question-schema';
+import { htmlToText } from '../lib/html';
+import type { Question } from '../types/question';
+
+export default function TrashBin({ onChanged }: { onChanged: () => void }) {
+  const [items, setItems] = useState<Question[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState('');
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setItems(await storage.questions.listArchived());
+    } catch (err: any) {
+      setMessage(`❌ 讀取回收桶失敗：${err?.message || ''}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+  useEffect(() => { load(); }, []);
+
+  const restore = async (id: string) => {
+    try {
+      await storage.questions.restore(id);
+      setItems(prev => prev.filter(x => x.id !== id));
+      setMessage('✅ 已還原 1 題。');
+      onChanged();
+    } catch (err: any) {
+      setMessage(`❌ 還原失敗：${err?.message || ''}`);
+    }
+  };
+
+  const purge = async (id: string) => {
+    if (!confirm('確定要永久刪除此題嗎？此動作無法復原，學生的作答紀錄將無法再對應到題目。')) return;
+    try {
+      await storage.questions.purge(id);
+      setItems(prev => prev.filter(x => x.id !== id));
+      setMessage('✅ 已永久刪除 1 題。');
+    } catch (err: any) {
+      setMessage(`❌ 永久刪除失敗：${err?.message || ''}`);
+    }
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-gray-500 mb-3">
+        封存的題目不會出現在練習與複習中；封存滿 {TRASH_RETENTION_DAYS} 天後才可永久刪除。
+      </p>
+      {message && <p className="mb-3 text-sm">{message}</p>}
+      {loading ? <p>讀取中…</p> : items.length === 0 ? <p className="text-gray-500">回收桶是空的。</p> : (
+        <ul className="divide-y">
+          {items.map(q => {
+            const at = purgeableAt(q);
+            return (
+              <li key={q.id} className="py-3 flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">{htmlToText(questionTitle(q))}</div>
+                  <div className="text-xs text-gray-500">
+                    ID：{q.id}
+                    {q.archivedAt ? `　封存：${q.archivedAt.toLocaleString()}` : ''}
+                    {q.archivedBy ? `（${q.archivedBy.email ?? q.archivedBy.uid}）` : ''}
+                    {at ? `　可永久刪除：${at.toLocaleDateString()}` : ''}
+                  </div>
+                </div>
+                <button onClick={() => restore(q.id)}
+                        className="shrink-0 px-3 py-1.5 rounded bg-green-50 text-green-700 hover:bg-green-100">
+                  還原
+                </button>
+                <button onClick={() => purge(q.id)} disabled={!canPurge(q)}
+                        className="shrink-0 px-3 py-1.5 rounded bg-red-50 text-red-700 hover:bg-red-100 disabled:opacity-40">
+                  永久刪除
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import type { TrendPoint } from '../lib/stats';
+
+const W = 560;
+const H = 160;
+const PAD = 24;
+
+/** 得分率折線圖；沒有作答的區間不畫點，線段在該處斷開 */
+export default function TrendChart({ points, title }: { points: TrendPoint[]; title: string }) {
+  if (points.every(p => p.attempts === 0)) return <p className="text-sm text-gray-500">這段期間沒有作答紀錄。</p>;
+
+  const x = (i: number) => PAD + (i * (W - 2 * PAD)) / Math.max(1, points.length - 1);
+  const y = (rate: number) => H - PAD - rate * (H - 2 * PAD);
+
+  // 連續有作答的點連成一段
+  const segments: string[] = [];
+  let current: string[] = [];
+  points.forEach((p, i) => {
+    if (p.attempts > 0) current.push(`${x(i)},${y(p.rate)}`);
+    else if (current.length) { segments.push(current.join(' ')); current = []; }
+  });
+  if (current.length) segments.push(current.join(' '));
+
+  const summary = points.filter(p => p.attempts > 0).map(p => `${p.label} ${Math.round(p.rate * 100)}%`).join('，');
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto" role="img" aria-label={`${title}：${summary}`}>
+      {[0, 0.5, 1].map(r => (
+        <g key={r}>
+          <line x1={PAD} x2={W - PAD} y1={y(r)} y2={y(r)} stroke="#e5e7eb" />
+          <text x={2} y={y(r) + 4} fontSize="10" fill="#6b7280">{r * 100}%</text>
+        </g>
+      ))}
+      {segments.map((s, i) => <polyline key={i} points={s} fill="none" stroke="#2563eb" strokeWidth={2} />)}
+      {points.map((p, i) => (
+        <g key={p.label}>
+          {p.attempts > 0 && (
+            <circle cx={x(i)} cy={y(p.rate)} r={3} fill="#2563eb">
+              <title>{`${p.label}：${Math.round(p.rate * 100)}%（${p.attempts} 題）`}</title>
+            </circle>
+          )}
+          {(points.length <= 10 || i % 2 === 0) && (
+            <text x={x(i)} y={H - 6} fontSize="10" textAnchor="middle" fill="#6b7280">{p.label}</text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+}
@@ -1,4 +1,6 @@
-import type { QAItem } from '../types/qa';
+import type { Question } from '../types/question';
+import { fromQAItem } from '../lib/question-schema';
 import { Q0001 } from './questions.sample';
 
-export const questions: QAItem[] = [Q0001];
+// 範例題以 QAItem 撰寫，統一轉成標準題目模型
+export const questions: Question[] = [fromQAItem(Q0001)];
@@ -0,0 +1,76 @@
+// src/lib/assignment.ts
+// 作業的計分單位、繳交狀態與成績格。
+import type { Question } from '../types/question';
+import type { Assignment, AssignmentResult, AssignmentSubmission } from '../types/assignment';
+import type { AttemptInput } from './storage';
+import { cardIdOf } from './srs';
+
+export interface AssignmentUnit {
+  key: string;          // 複習卡 id
+  label: string;        // 成績格的欄名：'3' 或閱讀題組的 '3-2'
+  questionId: string;
+  subItemId?: string;
+}
+
+/** 依作業題目順序展開成計分單位（閱讀題組每個小題一欄） */
+export function assignmentUnits(a: Pick<Assignment, 'questionIds'>, questions: Question[]): AssignmentUnit[] {
+  const byId = new Map(questions.map(q => [q.id, q]));
+  return a.questionIds.flatMap((id, i) => {
+    const q = byId.get(id);
+    if (q?.type === 'reading') {
+      return q.items.map((item, j) => ({ key: cardIdOf(id, item.id), label: `${i + 1}-${j + 1}`, questionId: id, subItemId: item.id }));
+    }
+    return [{ key: cardIdOf(id), label: String(i + 1), questionId: id }];
+  });
+}
+
+export const resultFromAttempt = (attempt: AttemptInput, at = new Date()): AssignmentResult => ({
+  questionId: attempt.questionId,
+  ...(attempt.subItemId ? { subItemId: attempt.subItemId } : {}),
+  type: attempt.type,
+  chosen: attempt.chosen,
+  isCorrect: attempt.isCorrect,
+  score: attempt.score ?? (attempt.isCorrect ? 1 : 0),
+  hintLevel: attempt.hintLevel ?? 0,
+  answeredAt: at,
+});
+
+export type SubmissionStatus = 'upcoming' | 'open' | 'submitted' | 'late' | 'missing';
+
+export const SUBMISSION_STATUS_LABEL: Record<SubmissionStatus, string> = {
+  upcoming: '尚未開放',
+  open: '進行中',
+  submitted: '已繳交',
+  late: '遲交',
+  missing: '缺交',
+};
+
+export function submissionStatus(a: Pick<Assignment, 'opensAt' | 'dueAt'>, sub: AssignmentSubmission | null | undefined, now = new Date()): SubmissionStatus {
+  if (sub?.submittedAt) return sub.submittedAt <= a.dueAt ? 'submitted' : 'late';
+  if (now < a.opensAt) return 'upcoming';
+  return now > a.dueAt ? 'missing' : 'open';
+}
+
+/** 已作答的計分單位數與得分率 */
+export function submissionProgress(units: AssignmentUnit[], sub: AssignmentSubmission | null | undefined) {
+  const done = units.filter(u => sub?.results[u.key]);
+  const score = done.reduce((s, u) => s + sub!.results[u.key].score, 0);
+  return { answered: done.length, total: units.length, rate: units.length ? score / units.length : 0 };
+}
+
+/** 成績格一格的符號：不只靠顏色區分 */
+export function resultMark(r: AssignmentResult | undefined): { mark: string; label: string } {
+  if (!r) return { mark: '—', label: '未作答' };
+  if (r.isCorrect) return { mark: r.hintLevel > 0 ? '✓*' : '✓', label: r.hintLevel > 0 ? `答對（提示 ${r.hintLevel} 級）` : '答對' };
+  return r.score > 0 ? { mark: '△', label: `部分正確 ${Math.round(r.score * 100)}%` } : { mark: '✗', label: '答錯' };
+}
+
+/** 每個計分單位的全班答對率（只算有作答的學生） */
+export function unitCorrectRate(unit: AssignmentUnit, subs: AssignmentSubmission[]): number | null {
+  const answered = subs.map(s => s.results[unit.key]).filter(Boolean);
+  return answered.length ? answered.filter(r => r.isCorrect).length / answered.length : null;
+}
+
+/** <input type="datetime-local"> 的值與 Date 互轉（本地時間） */
+export const toLocalInput = (d: Date) =>
+  new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
@@ -0,0 +1,38 @@
+// src/lib/audio-sync.ts
+// 文章音檔與句子的對應：在 data-id 句子上加 data-start（可選 data-end），
+// 格式為秒數或「分:秒」，例如 <span data-id="s3" data-start="1:05.5">…</span>。
+// 沒有 data-end 的句子播到下一句開始為止。
+
+export interface SentenceCue {
+  id: string;
+  start: number;   // 秒
+  end: number;     // 秒；最後一句沒有 data-end 時為 Infinity
+}
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+/** 「75」「1:15」「1:15.5」「0:01:15」→ 秒數；格式不對時回傳 null */
+export function parseTimestamp(raw: string | null | undefined): number | null {
+  const s = raw?.trim();
+  if (!s || !/^\d+(:\d{1,2})*(\.\d+)?$/.test(s)) return null;
+  return s.split(':').reduce((acc, part) => acc * 60 + Number(part), 0);
+}
+
+/** 讀出文章中帶時間標記的句子，依開始時間排序 */
+export function readCues(root: ParentNode): SentenceCue[] {
+  const marked = [...root.querySelectorAll<HTMLElement>('[data-id][data-start]')]
+    .map(el => ({ id: el.dataset.id!, start: parseTimestamp(el.dataset.start), end: parseTimestamp(el.dataset.end) }))
+    .filter((c): c is { id: string; start: number; end: number | null } => c.start !== null)
+    .sort((a, b) => a.start - b.start);
+  return marked.map((c, i) => ({ id: c.id, start: c.start, end: c.end ?? marked[i + 1]?.start ?? Infinity }));
+}
+
+/** 播放時間 t 所在的句子 */
+export const cueAt = (cues: SentenceCue[], t: number) => cues.find(c => t >= c.start && t < c.end) ?? null;
+
+/** 秒數 → 「m:ss」 */
+export function formatTime(sec: number): string {
+  if (!Number.isFinite(sec) || sec < 0) return '0:00';
+  const s = Math.floor(sec);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,36 @@
+// src/lib/classroom.ts
+// 班級代碼與班級儀表板的計算。
+import type { ClassMember, StudentSummary } from '../types/classroom';
+import type { HistoryEntry } from './storage';
+
+// 去掉容易看錯的 0/O、1/I/L
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const JOIN_CODE_LENGTH = 6;
+
+export const generateJoinCode = (random = Math.random): string =>
+  Array.from({ length: JOIN_CODE_LENGTH }, () => CODE_ALPHABET[Math.floor(random() * CODE_ALPHABET.length)]).join('');
+
+/** 使用者輸入的代碼：去空白、轉大寫 */
+export const normalizeJoinCode = (input: string) => input.replace(/\s+/g, '').toUpperCase();
+
+export const isJoinCode = (code: string) =>
+  code.length === JOIN_CODE_LENGTH && [...code].every(c => CODE_ALPHABET.includes(c));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function summarizeStudent(member: ClassMember, history: HistoryEntry[], dueCount: number, now = new Date()): StudentSummary {
+  const since = now.getTime() - 7 * DAY_MS;
+  const score = history.reduce((s, h) => s + h.score, 0);
+  const last = history.reduce<Date | undefined>(
+    (d, h) => (h.timestamp && (!d || h.timestamp > d) ? h.timestamp : d), undefined);
+  return {
+    uid: member.uid,
+    email: member.email,
+    attempts: history.length,
+    correct: history.filter(h => h.isCorrect).length,
+    rate: history.length ? score / history.length : 0,
+    recentAttempts: history.filter(h => (h.timestamp?.getTime() ?? 0) >= since).length,
+    dueCount,
+    lastActiveAt: last,
+  };
+}
@@ -0,0 +1,60 @@
+// src/lib/csv.ts
+// RFC 4180 CSV：欄位可含逗號、換行與 "" 跳脫的引號。
+// 以 = + - @（或 Tab、CR）開頭的欄位，試算表會當成公式執行：匯出時前面加 '，讀回時再去掉。
+
+export interface CsvRow {
+  line: number;   // 這一列在檔案中的起始行號（從 1 起算）
+  cells: string[];
+}
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+const unguardFormula = (cell: string) => (cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell);
+
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(c => c.trim() !== '')) rows.push({ line: rowLine, cells: cells.map(unguardFormula) });
+    cells = [];
+    cell = '';
+  };
+
+  const src = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+      continue;
+    }
+    if (ch === '"') inQuotes = true;
+    else if (ch === ',') { cells.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else cell += ch;
+  }
+  if (cell !== '' || cells.length) endRow();
+  return rows;
+}
+
+const escapeCell = (raw: string) => {
+  const v = FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+};
+
+/** 產生 CSV；開頭加 BOM 讓 Excel 正確辨識 UTF-8 中文 */
+export const toCsv = (rows: string[][]): string =>
+  '\uFEFF' + rows.map(r => r.map(escapeCell).join(',')).join('\r\n') + '\r\n';
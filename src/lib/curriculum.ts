@@ -0,0 +1,37 @@
+// src/lib/curriculum.ts
+// 課程詮釋資料：龍騰版冊別、常用能力標籤與難度，供後台表單與練習卷篩選共用。
+import type { Difficulty, Question } from '../types/question';
+
+export const TEXTBOOK = '龍騰版';
+
+export const UNITS = ['第一冊', '第二冊', '第三冊', '第四冊', '第五冊', '第六冊'];
+
+/** 常用能力標籤；題目仍可自訂其他標籤 */
+export const SKILL_TAGS = ['字音字形', '成語', '修辭', '文意理解', '語詞釋義', '文法句型', '國學常識', '文化常識'];
+
+export const DIFFICULTIES: Difficulty[] = ['易', '中', '難'];
+
+export interface MetaOptions {
+  units: string[];
+  lessons: string[];
+  tags: string[];
+}
+
+const uniqueSorted = (xs: (string | undefined)[]) =>
+  [...new Set(xs.filter((x): x is string => !!x))].sort((a, b) => a.localeCompare(b, 'zh-Hant'));
+
+/** 題庫中實際出現的冊別、課次與標籤（冊別依教科書順序，常用標籤排在前面） */
+export function collectMetaOptions(questions: Question[], unit?: string): MetaOptions {
+  const units = uniqueSorted(questions.map(q => q.meta?.unit));
+  const inUnit = unit ? questions.filter(q => q.meta?.unit === unit) : questions;
+  const tags = uniqueSorted(questions.flatMap(q => q.meta?.tags ?? []));
+  return {
+    units: [...UNITS.filter(u => units.includes(u)), ...units.filter(u => !UNITS.includes(u))],
+    lessons: uniqueSorted(inUnit.map(q => q.meta?.lesson)),
+    tags: [...SKILL_TAGS.filter(t => tags.includes(t)), ...tags.filter(t => !SKILL_TAGS.includes(t))],
+  };
+}
+
+/** 列表顯示用，如「第一冊・第三課 師說」 */
+export const curriculumLabel = (q: Question): string =>
+  [q.meta?.unit, q.meta?.lesson].filter(Boolean).join('・');
@@ -0,0 +1,87 @@
+// src/lib/display.ts
+// 題目文字的顯示層：清理與詞庫標註之後，依使用者偏好把文字換成簡體、把讀音統一成注音或拼音，
+// 並替有讀音的詞庫詞語加上 ruby。只改畫面上的結果，題庫資料不動。
+import { useMemo } from 'react';
+import type { DisplaySettings } from '../types/preferences';
+import { useGlossary, type Annotate } from './glossary';
+import { usePreferences } from './preferences';
+import { sanitizeHtml } from './sanitize';
+import { toSimplified } from './zh-convert';
+import { convertReading, splitReading } from './zhuyin';
+
+const CACHE_LIMIT = 500;
+
+export interface Display {
+  /** 題幹、選項、文章：清理 + 詞庫標註 + 繁簡／讀音轉換 */
+  annotate: (html: string) => string;
+  /** 解析等不標註詞語的 HTML：清理 + 繁簡／讀音轉換 */
+  html: (html: string | undefined) => string;
+  /** 純文字（文章標題、錯因分析等） */
+  text: (text: string) => string;
+}
+
+const rubyOf = (base: string, reading: string) => {
+  const ruby = document.createElement('ruby');
+  ruby.className = 'auto-ruby';
+  const rt = document.createElement('rt');
+  rt.textContent = reading;
+  const rp = (s: string) => Object.assign(document.createElement('rp'), { textContent: s });
+  ruby.append(base, rp('('), rt, rp(')'));
+  return ruby;
+};
+
+/** 詞庫詞語加讀音：音節數與字數相同就逐字標，否則整個詞標一次 */
+function addGlossaryRuby(el: HTMLElement) {
+  const chars = [...(el.textContent ?? '')];
+  const syllables = splitReading(el.dataset.reading!);
+  if (syllables.length === chars.length) el.replaceChildren(...chars.map((c, i) => rubyOf(c, syllables[i])));
+  else el.replaceChildren(rubyOf(el.textContent ?? '', el.dataset.reading!));
+}
+
+function transform(html: string, s: DisplaySettings): string {
+  const simplified = s.script === 'simplified';
+  const glossaryRuby = s.ruby && html.includes('data-reading');
+  if (!simplified && !glossaryRuby && !html.includes('<rt')) return html;
+
+  const root = document.createElement('div');
+  root.innerHTML = html;
+  if (glossaryRuby) root.querySelectorAll<HTMLElement>('.glossary-term[data-reading]').forEach(addGlossaryRuby);
+  root.querySelectorAll('rt').forEach(rt => { rt.textContent = convertReading(rt.textContent ?? '', s.rubySystem); });
+  if (simplified) {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    for (let n = walker.nextNode(); n; n = walker.nextNode()) {
+      if (!n.parentElement?.closest('rt')) (n as Text).data = toSimplified((n as Text).data);
+    }
+    root.querySelectorAll<HTMLElement>('[data-term]').forEach(el => { el.dataset.term = toSimplified(el.dataset.term!); });
+  }
+  return root.innerHTML;
+}
+
+/** 依詞庫與顯示設定建立轉換函式（結果依輸入快取） */
+export function createDisplay(glossaryAnnotate: Annotate, settings: DisplaySettings): Display {
+  const cached = (fn: (s: string) => string) => {
+    const cache = new Map<string, string>();
+    return (input: string) => {
+      const hit = cache.get(input);
+      if (hit !== undefined) return hit;
+      const out = fn(input);
+      if (cache.size >= CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+      cache.set(input, out);
+      return out;
+    };
+  };
+  const annotate = cached(raw => transform(glossaryAnnotate(raw), settings));
+  const html = cached(raw => transform(sanitizeHtml(raw), settings));
+  return {
+    annotate,
+    html: raw => (raw ? html(raw) : ''),
+    text: text => (settings.script === 'simplified' ? toSimplified(text) : text),
+  };
+}
+
+/** 目前詞庫與使用者顯示設定下的轉換函式；任一改變時元件會重新渲染 */
+export function useDisplay(): Display {
+  const glossaryAnnotate = useGlossary();
+  const { display } = usePreferences();
+  return useMemo(() => createDisplay(glossaryAnnotate, display), [glossaryAnnotate, display]);
+}
@@ -0,0 +1,130 @@
+// src/lib/exam.ts
+// 模擬考：依題型題數與標籤組卷、交卷後統一評分並統計各題型得分。
+import type { Question, QuestionType, ScoringRule } from '../types/question';
+import type { ExamConfig, ExamItemResult, ExamTypeBreakdown } from '../types/exam';
+import { cardIdOf } from './srs';
+import { isChoiceCorrect, normalizeChoiceArray } from './grading';
+import { resolveRule, scoreChoice } from './scoring';
+import { shuffle } from './practice-set';
+import type { AttemptInput } from './storage';
+
+/** 學測國綜配分：單選每題 2 分、多選每題 4 分（閱讀小題依其題型） */
+export const EXAM_POINTS: Record<ExamItemResult['subtype'], number> = {
+  single_choice: 2,
+  multi_select: 4,
+};
+
+/** 考卷依學測順序排列：單選 → 多選 → 閱讀題組 */
+export const EXAM_TYPE_ORDER: QuestionType[] = ['single_choice', 'multi_select', 'reading'];
+
+export type ExamAnswers = Record<string, string | string[]>;
+
+/** 作答的鍵與複習卡 id 相同：單題為題目 id，閱讀小題為「題目__小題」 */
+export const answerKey = cardIdOf;
+
+const matchesTags = (q: Question, tags?: string[]) =>
+  !tags?.length || tags.some(t => (q.meta?.tags ?? []).includes(t));
+
+/** 符合標籤的各題型可用題數 */
+export function availableCounts(questions: Question[], tags?: string[]): Record<QuestionType, number> {
+  const counts: Record<QuestionType, number> = { single_choice: 0, multi_select: 0, reading: 0 };
+  questions.forEach(q => { if (matchesTags(q, tags)) counts[q.type]++; });
+  return counts;
+}
+
+/** 各題型隨機挑出指定題數；題數不足時全數收錄 */
+export function assemblePaper(questions: Question[], config: ExamConfig, random = Math.random): Question[] {
+  const pool = questions.filter(q => !q.archived && matchesTags(q, config.tags));
+  return EXAM_TYPE_ORDER.flatMap(type =>
+    shuffle(pool.filter(q => q.type === type), random).slice(0, Math.max(0, config.counts[type] ?? 0)));
+}
+
+interface ExamUnit {
+  questionId: string;
+  subItemId?: string;
+  type: QuestionType;
+  subtype: ExamItemResult['subtype'];
+  correct: string | string[];
+  optionCount: number;
+  scoring?: ScoringRule;
+}
+
+/** 把考卷展開成計分單位 */
+export function examUnits(paper: Question[]): ExamUnit[] {
+  return paper.flatMap((q): ExamUnit[] => {
+    const common = { questionId: q.id, type: q.type, scoring: q.scoring };
+    if (q.type === 'single_choice') {
+      return [{ ...common, subtype: q.type, correct: q.correctAnswer, optionCount: q.options.length }];
+    }
+    if (q.type === 'multi_select') {
+      return [{ ...common, subtype: q.type, correct: q.correctAnswers, optionCount: q.options.length }];
+    }
+    return q.items.map(item => ({
+      ...common,
+      subItemId: item.id,
+      subtype: item.subtype,
+      correct: item.subtype === 'multi_select' ? item.correctAnswers ?? [] : item.answer ?? '',
+      optionCount: item.options.length,
+    }));
+  });
+}
+
+const isBlank = (v: string | string[] | undefined) => (Array.isArray(v) ? v.length === 0 : !v);
+
+/** 交卷評分；timeMs 以題目 id 為鍵，閱讀題組的時間平均分給各小題。rule 為整份考卷統一的多選計分方式 */
+export function gradeExam(paper: Question[], answers: ExamAnswers, timeMs: Record<string, number>, rule?: ScoringRule) {
+  const units = examUnits(paper);
+  const unitsPerQuestion = new Map<string, number>();
+  units.forEach(u => unitsPerQuestion.set(u.questionId, (unitsPerQuestion.get(u.questionId) ?? 0) + 1));
+
+  const items: ExamItemResult[] = units.map(({ optionCount, scoring, ...u }) => {
+    const raw = answers[answerKey(u.questionId, u.subItemId)];
+    const chosen = u.subtype === 'multi_select'
+      ? normalizeChoiceArray(Array.isArray(raw) ? raw : raw ? [raw] : [])
+      : (Array.isArray(raw) ? raw[0] : raw) ?? '';
+    const isCorrect = !isBlank(chosen) && isChoiceCorrect(chosen, u.correct);
+    const maxScore = EXAM_POINTS[u.subtype];
+    const ratio = scoreChoice(chosen, u.correct, optionCount, resolveRule({ scoring }, rule));
+    return {
+      ...u,
+      chosen,
+      isCorrect,
+      score: Math.round(maxScore * ratio * 100) / 100,
+      maxScore,
+      timeMs: Math.round((timeMs[u.questionId] ?? 0) / (unitsPerQuestion.get(u.questionId) ?? 1)),
+    };
+  });
+
+  const byType = Object.fromEntries(EXAM_TYPE_ORDER.map(t => [t, { count: 0, correct: 0, score: 0, maxScore: 0 }])) as
+    Record<QuestionType, ExamTypeBreakdown>;
+  items.forEach(i => {
+    const b = byType[i.type];
+    b.count++;
+    if (i.isCorrect) b.correct++;
+    b.score += i.score;
+    b.maxScore += i.maxScore;
+  });
+
+  return {
+    items,
+    byType,
+    totalScore: items.reduce((s, i) => s + i.score, 0),
+    maxScore: items.reduce((s, i) => s + i.maxScore, 0),
+  };
+}
+
+export const formatDuration = (ms: number) => {
+  const sec = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(sec / 60)}:${String(sec % 60).padStart(2, '0')}`;
+};
+
+/** 計分單位轉成一筆作答紀錄（儲存層寫入 history 時使用） */
+export const attemptFromExamItem = (item: ExamItemResult, examSessionId: string): AttemptInput => ({
+  type: item.type,
+  questionId: item.questionId,
+  ...(item.subItemId ? { subItemId: item.subItemId } : {}),
+  chosen: item.chosen,
+  isCorrect: item.isCorrect,
+  score: item.maxScore ? item.score / item.maxScore : 0,
+  examSessionId,
+});
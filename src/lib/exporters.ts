@@ -0,0 +1,115 @@
+// src/lib/exporters.ts
+// 題庫與作答紀錄匯出。JSON 匯出可經 BulkImport 原樣匯回；CSV 欄位與匯入相同。
+import { QUESTION_SCHEMA_VERSION, type Question, type QuestionType } from '../types/question';
+import type { HistoryEntry } from './storage';
+import { questionCsvColumns } from './importers';
+import { questionTitle } from './question-schema';
+import { htmlToText } from './html';
+import { optionLetter } from './grading';
+import { toCsv } from './csv';
+
+export interface QuestionExportFilter {
+  type?: QuestionType | '';
+  tag?: string;
+  from?: Date;   // 建立時間（含）
+  to?: Date;     // 建立時間（含當天）
+}
+
+const TYPE_LABEL: Record<QuestionType, string> = {
+  single_choice: '單選',
+  multi_select: '多選',
+  reading: '閱讀',
+};
+
+const endOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate(), 23, 59, 59, 999);
+
+export function filterQuestions(questions: Question[], f: QuestionExportFilter): Question[] {
+  return questions.filter(q => {
+    if (f.type && q.type !== f.type) return false;
+    if (f.tag && !(q.meta?.tags ?? []).includes(f.tag)) return false;
+    if (f.from && (!q.createdAt || q.createdAt < f.from)) return false;
+    if (f.to && (!q.createdAt || q.createdAt > endOfDay(f.to))) return false;
+    return true;
+  });
+}
+
+export function questionsToJson(questions: Question[]): string {
+  return JSON.stringify(
+    {
+      schemaVersion: QUESTION_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      questions: questions.map(q => ({ ...q, createdAt: q.createdAt?.toISOString() })),
+    },
+    null,
+    2,
+  );
+}
+
+/** CSV 只能表示單選與多選；閱讀題組請用 JSON。選項欄位數依選項最多的題目而定 */
+export function questionsToCsv(questions: Question[]): string {
+  const choices = questions.flatMap(q => (q.type === 'reading' ? [] : [q]));
+  const columns = questionCsvColumns(Math.max(0, ...choices.map(q => q.options.length)));
+  const rows = choices.map(q => {
+    const rec: Record<string, string> = {
+      id: q.id,
+      type: q.type,
+      title: q.title,
+      answer: q.type === 'multi_select' ? q.correctAnswers.join('、') : q.correctAnswer,
+      explanation: q.explanation ?? '',
+      tags: (q.meta?.tags ?? []).join('|'),
+      difficulty: q.meta?.difficulty ?? '',
+      source: q.meta?.source ?? '',
+      unit: q.meta?.unit ?? '',
+      lesson: q.meta?.lesson ?? '',
+      createdAt: q.createdAt?.toISOString() ?? '',
+    };
+    q.options.forEach((o, i) => { rec[optionLetter(i)] = o; });
+    Object.entries(q.errorAnalysis ?? {}).forEach(([k, v]) => { rec[`error${k}`] = v; });
+    return columns.map(c => rec[c] ?? '');
+  });
+  return toCsv([columns, ...rows]);
+}
+
+const correctOf = (q: Question | undefined, subItemId?: string): string => {
+  if (!q) return '';
+  if (q.type === 'single_choice') return q.correctAnswer;
+  if (q.type === 'multi_select') return q.correctAnswers.join('、');
+  const item = q.items.find(i => i.id === subItemId);
+  if (!item) return '';
+  return item.subtype === 'multi_select' ? (item.correctAnswers ?? []).join('、') : item.answer ?? '';
+};
+
+/** 個人作答紀錄 CSV：題目標題取自題庫並轉為純文字 */
+export function historyToCsv(history: HistoryEntry[], questions: Question[]): string {
+  const byId = new Map(questions.map(q => [q.id, q]));
+  const sorted = [...history].sort((a, b) => (a.timestamp?.getTime() ?? 0) - (b.timestamp?.getTime() ?? 0));
+  const rows = sorted.map(h => {
+    const q = byId.get(h.questionId);
+    const sub = q?.type === 'reading' ? q.items.find(i => i.id === h.subItemId) : undefined;
+    return [
+      h.timestamp ? h.timestamp.toLocaleString() : '',
+      TYPE_LABEL[h.type] ?? h.type,
+      htmlToText(q ? questionTitle(q) : h.questionTitle) || h.questionId,
+      sub ? htmlToText(sub.stem) : '',
+      Array.isArray(h.chosen) ? h.chosen.join('、') : h.chosen,
+      correctOf(q, h.subItemId),
+      h.isCorrect ? '正確' : h.score > 0 ? '部分正確' : '錯誤',
+      String(Math.round(h.score * 100) / 100),
+      String(h.hintLevel),
+    ];
+  });
+  return toCsv([['作答時間', '題型', '題目', '小題', '作答', '正確答案', '結果', '得分比例', '提示等級'], ...rows]);
+}
+
+/** 在瀏覽器觸發下載 */
+export function downloadFile(fileName: string, content: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export const dateStamp = (d = new Date()) =>
+  `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
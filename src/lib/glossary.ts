@@ -0,0 +1,97 @@
+// src/lib/glossary.ts
+// 自動詞語註釋：顯示題目前，把 HTML 文字中出現的詞庫詞語包成
+// <span class="glossary-term" data-term="…">，由 TermTooltip 顯示釋義。
+// 已有作者手寫的 .definition／.translation／data-term 與注音 ruby 的地方不重複標註。
+// 標註前一律先經 sanitizeHtml 清理，所以標註函式的輸出可以直接給 dangerouslySetInnerHTML。
+import { useSyncExternalStore } from 'react';
+import type { GlossaryTerm } from '../types/glossary';
+import { storage } from './storage';
+import { sanitizeHtml } from './sanitize';
+
+const SKIP_SELECTOR = '.definition, .translation, [data-term], ruby, rt, rp, script, style, code';
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** 提示框顯示的文字 */
+export const glossaryTip = (t: GlossaryTerm) =>
+  `${t.term}${t.reading ? `（${t.reading}）` : ''}：${t.definition}${t.lesson ? `〔${t.lesson}〕` : ''}`;
+
+export type Annotate = (html: string) => string;
+
+/** 建立標註函式；較長的詞優先比對（「不恥相師」先於「相師」），結果依輸入快取 */
+export function createAnnotator(terms: GlossaryTerm[]): Annotate {
+  const usable = terms.filter(t => t.term.trim());
+  if (!usable.length || typeof document === 'undefined') return sanitizeHtml;
+  const byTerm = new Map(usable.map(t => [t.term, t]));
+  const pattern = new RegExp(
+    [...byTerm.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|'),
+    'g',
+  );
+  const cache = new Map<string, string>();
+
+  return raw => {
+    const html = sanitizeHtml(raw);
+    if (!html) return html;
+    const hit = cache.get(html);
+    if (hit !== undefined) return hit;
+
+    const root = document.createElement('div');
+    root.innerHTML = html;
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    const textNodes: Text[] = [];
+    for (let n = walker.nextNode(); n; n = walker.nextNode()) {
+      if (!n.parentElement?.closest(SKIP_SELECTOR)) textNodes.push(n as Text);
+    }
+    let changed = false;
+    textNodes.forEach(node => {
+      const text = node.data;
+      pattern.lastIndex = 0;
+      if (!pattern.test(text)) return;
+      pattern.lastIndex = 0;
+      const frag = document.createDocumentFragment();
+      let last = 0;
+      for (const m of text.matchAll(pattern)) {
+        const t = byTerm.get(m[0])!;
+        if (m.index! > last) frag.append(text.slice(last, m.index));
+        const span = document.createElement('span');
+        span.className = 'glossary-term';
+        span.dataset.term = glossaryTip(t);
+        if (t.reading) span.dataset.reading = t.reading;
+        span.tabIndex = 0;
+        span.setAttribute('role', 'term');
+        span.textContent = m[0];
+        frag.append(span);
+        last = m.index! + m[0].length;
+      }
+      if (last < text.length) frag.append(text.slice(last));
+      node.replaceWith(frag);
+      changed = true;
+    });
+
+    const out = changed ? root.innerHTML : html;
+    cache.set(html, out);
+    return out;
+  };
+}
+
+/* ---------- 全站共用的詞庫（登入後讀一次，管理員修改後重新整理） ---------- */
+
+let annotate: Annotate = sanitizeHtml;
+const listeners = new Set<() => void>();
+
+export async function loadGlossary() {
+  try {
+    annotate = createAnnotator(await storage.glossary.list());
+    listeners.forEach(cb => cb());
+  } catch (err) {
+    console.error('讀取詞庫失敗，不自動標註', err);
+  }
+}
+
+const subscribe = (cb: () => void) => {
+  listeners.add(cb);
+  return () => { listeners.delete(cb); };
+};
+
+/** 目前詞庫的標註函式；詞庫更新時元件會重新渲染 */
+export const useGlossary = () => useSyncExternalStore(subscribe, () => annotate);
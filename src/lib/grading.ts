@@ -0,0 +1,20 @@
+// src/lib/grading.ts
+// 各題型共用的判分工具，確保不同來源的題目判分一致。
+
+export const optionLetter = (index: number): string => String.fromCharCode(65 + index);
+
+export const normalizeChoiceArray = (choices: string[]): string[] =>
+  [...new Set(choices)].sort();
+
+export const isMultiCorrect = (chosen: string[], correct: string[]): boolean => {
+  if (chosen.length !== correct.length) return false;
+  for (let i = 0; i < chosen.length; i++) if (chosen[i] !== correct[i]) return false;
+  return true;
+};
+
+/** 單選傳一個字母、多選傳字母陣列皆可 */
+export const isChoiceCorrect = (chosen: string | string[], correct: string | string[]): boolean =>
+  isMultiCorrect(
+    normalizeChoiceArray(Array.isArray(chosen) ? chosen : [chosen]),
+    normalizeChoiceArray(Array.isArray(correct) ? correct : [correct]),
+  );
@@ -0,0 +1,48 @@
+// src/lib/hints.ts
+// 分級提示：1 顯示釋義、2 刪去一個錯誤選項、3 標示文章證據（只有閱讀題組有）。
+// 作答紀錄存下用過的最高等級；靠提示答對的題目得分打折，複習排程也排得比較近（見 srs.ts）。
+
+export type HintLevel = 0 | 1 | 2 | 3;
+
+export const MAX_HINT_LEVEL: HintLevel = 3;
+
+export const HINT_LABEL: Record<Exclude<HintLevel, 0>, string> = {
+  1: '顯示釋義',
+  2: '刪去一個錯誤選項',
+  3: '標示文章證據',
+};
+
+/** 各提示等級的得分倍率 */
+export const HINT_SCORE_FACTOR: Record<HintLevel, number> = { 0: 1, 1: 0.8, 2: 0.6, 3: 0.4 };
+
+export const applyHintPenalty = (score: number, level: HintLevel): number =>
+  Math.round(score * HINT_SCORE_FACTOR[level] * 1000) / 1000;
+
+/** 題目可用的提示等級；只剩一個錯誤選項時不提供刪去，否則等於直接給答案 */
+export function availableHints(opts: { hasDefinitions: boolean; distractors: string[]; hasEvidence: boolean }): HintLevel[] {
+  const levels: HintLevel[] = [];
+  if (opts.hasDefinitions) levels.push(1);
+  if (opts.distractors.length > 1) levels.push(2);
+  if (opts.hasEvidence) levels.push(3);
+  return levels;
+}
+
+/** 下一個可用的提示；已用到最後一級時回傳 null */
+export const nextHint = (current: HintLevel, available: HintLevel[]): HintLevel | null =>
+  available.find(l => l > current) ?? null;
+
+/** 內容裡是否有可顯示的釋義（.definition） */
+export const hasDefinitions = (...html: (string | undefined)[]) =>
+  html.some(h => !!h && /class="[^"]*\bdefinition\b/.test(h));
+
+/** 不在正確答案中的選項 */
+export const distractorsOf = (optionCount: number, correct: string[]) =>
+  Array.from({ length: optionCount }, (_, i) => String.fromCharCode(65 + i)).filter(l => !correct.includes(l));
+
+/** 第 2 級要刪去的選項：依題目 id 固定挑一個，重做時刪去的仍是同一個 */
+export function eliminatedOption(seed: string, distractors: string[]): string | null {
+  if (distractors.length === 0) return null;
+  let h = 0;
+  for (const ch of seed) h = (h * 31 + ch.charCodeAt(0)) >>> 0;
+  return distractors[h % distractors.length];
+}
@@ -0,0 +1,19 @@
+// src/lib/html.ts
+
+// 以 DOMParser 解析：產生的文件是惰性的，未清理的 HTML（如 <img onerror>）不會在轉純文字時執行
+const parseBody = (html?: string) => new DOMParser().parseFromString(html || '', 'text/html').body;
+
+/** HTML → 純文字（含 .definition / .translation 的文字，空白壓成單一空格） */
+export const htmlToText = (html?: string): string => {
+  const div = parseBody(html);
+  return (div.textContent || '').replace(/\s+/g, ' ').trim();
+};
+
+/** 朗讀用的純文字：去掉釋義、翻譯與注音（ruby 的 rt／rp），只留原文 */
+export const htmlToSpeechText = (html?: string): string => {
+  const div = parseBody(html);
+  div.querySelectorAll('.definition, .translation, rt, rp').forEach(el => el.remove());
+  // 區塊元素之間補換行，避免段落黏在一起變成同一句
+  div.querySelectorAll('p, div, li, br, h1, h2, h3, h4').forEach(el => el.after('\n'));
+  return (div.textContent || '').replace(/[ \t\r\f\v]+/g, ' ').trim();
+};
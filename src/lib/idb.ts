@@ -0,0 +1,56 @@
+// src/lib/idb.ts
+// IndexedDB 的最小 Promise 包裝（不另外引入套件）。
+const done = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const committed = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const idbAvailable = () => typeof indexedDB !== 'undefined';
+
+/** 開啟資料庫；版本升級時呼叫 upgrade 建立 object store */
+export function openDb(name: string, version: number, upgrade: (db: IDBDatabase, oldVersion: number) => void) {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(name, version);
+    req.onupgradeneeded = e => upgrade(req.result, e.oldVersion);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => reject(new Error(`IndexedDB「${name}」被其他分頁佔用`));
+  });
+}
+
+export function idbGet<T>(db: IDBDatabase, store: string, key: IDBValidKey): Promise<T | undefined> {
+  return done(db.transaction(store).objectStore(store).get(key)) as Promise<T | undefined>;
+}
+
+export function idbGetAll<T>(db: IDBDatabase, store: string): Promise<T[]> {
+  return done(db.transaction(store).objectStore(store).getAll()) as Promise<T[]>;
+}
+
+/** 在同一個交易內寫入多筆；key 為 undefined 時使用 store 的 keyPath */
+export async function idbPutMany(db: IDBDatabase, store: string, values: unknown[], keys?: IDBValidKey[]) {
+  const tx = db.transaction(store, 'readwrite');
+  const os = tx.objectStore(store);
+  values.forEach((v, i) => os.put(v, keys?.[i]));
+  await committed(tx);
+}
+
+export async function idbDeleteMany(db: IDBDatabase, store: string, keys: IDBValidKey[]) {
+  const tx = db.transaction(store, 'readwrite');
+  const os = tx.objectStore(store);
+  keys.forEach(k => os.delete(k));
+  await committed(tx);
+}
+
+export async function idbClear(db: IDBDatabase, stores: string[]) {
+  const tx = db.transaction(stores, 'readwrite');
+  stores.forEach(s => tx.objectStore(s).clear());
+  await committed(tx);
+}
@@ -0,0 +1,221 @@
+// src/lib/importers.ts
+// 題庫批次匯入：JSON（標準模型或 QAItem）、CSV、Markdown/TXT（貼題格式，題與題之間以 --- 分隔）。
+import {
+  QUESTION_SCHEMA_VERSION,
+  type Difficulty,
+  type QuestionDraft,
+  type QuestionInput,
+} from '../types/question';
+import { parseCsv } from './csv';
+import { parsePaste } from './paste-parser';
+import { optionLetter } from './grading';
+import { parseQuestion, validateQuestion } from './question-schema';
+import { DIFFICULTIES } from './curriculum';
+
+export interface ImportItem {
+  index: number;        // 第幾題（從 1 起算）
+  line?: number;        // 在檔案中的起始行號
+  label: string;        // 預覽用摘要
+  question?: QuestionInput;
+  errors: string[];
+}
+
+export type ImportFormat = 'json' | 'csv' | 'text';
+
+/** 選項欄位最多到 Z；匯入時依標題列有哪些欄位讀取 */
+const OPTION_COLUMNS = Array.from({ length: 26 }, (_, i) => optionLetter(i));
+
+/** CSV 欄位（匯出使用同一組欄位，可直接再匯入）；選項與錯因欄位至少 A–E，選項更多的題目再往後加 */
+export function questionCsvColumns(optionCount = 5): string[] {
+  const letters = OPTION_COLUMNS.slice(0, Math.max(5, optionCount));
+  return [
+    'id', 'type', 'title', ...letters, 'answer', 'explanation',
+    ...letters.map(k => `error${k}`), 'unit', 'lesson', 'tags', 'difficulty', 'source', 'createdAt',
+  ];
+}
+
+export const formatOf = (fileName: string): ImportFormat | null => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'json') return 'json';
+  if (ext === 'csv') return 'csv';
+  if (ext === 'md' || ext === 'markdown' || ext === 'txt') return 'text';
+  return null;
+};
+
+const draftLabel = (q: Partial<QuestionDraft> | undefined): string => {
+  const raw = q?.type === 'reading' ? q.passage?.title : (q as { title?: string } | undefined)?.title;
+  return (raw || '').replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim().slice(0, 60);
+};
+
+/** 標準模型驗證；沒有 id 的題目以暫用 id 驗證後再移除 */
+function checkDraft(draft: QuestionInput): string[] {
+  return validateQuestion({ ...draft, id: draft.id || 'new', schemaVersion: QUESTION_SCHEMA_VERSION });
+}
+
+/* ---------- JSON ---------- */
+
+/** 找出題目陣列中每個元素的起始行號（略過字串內容） */
+function elementLines(text: string): number[] {
+  const lines: number[] = [];
+  let depth = 0;
+  let arrayDepth = -1;
+  let inString = false;
+  let line = 1;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\n') line++;
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '[' || ch === '{') {
+      if (ch === '{' && depth === arrayDepth) lines.push(line);
+      if (ch === '[' && arrayDepth < 0) arrayDepth = depth + 1;
+      depth++;
+    } else if (ch === ']' || ch === '}') depth--;
+  }
+  return lines;
+}
+
+function parseJsonFile(text: string): ImportItem[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err: any) {
+    return [{ index: 1, label: '（整個檔案）', errors: [`JSON 格式錯誤：${err?.message || ''}`] }];
+  }
+  const list = Array.isArray(data) ? data : (data as { questions?: unknown })?.questions;
+  if (!Array.isArray(list)) {
+    return [{ index: 1, label: '（整個檔案）', errors: ['JSON 需為題目陣列，或含 questions 陣列的物件'] }];
+  }
+
+  const lines = elementLines(text);
+  return list.map((raw, i) => {
+    const id = typeof (raw as { id?: unknown })?.id === 'string' ? (raw as { id: string }).id : undefined;
+    const r = parseQuestion(raw, id || 'new');
+    const base = { index: i + 1, line: lines[i], label: draftLabel(raw as QuestionDraft) };
+    if (!r.ok) return { ...base, errors: r.errors };
+    const { id: _id, schemaVersion: _v, ...draft } = r.question;
+    return { ...base, label: draftLabel(draft), question: { ...draft, ...(id ? { id } : {}) }, errors: [] };
+  });
+}
+
+/* ---------- CSV ---------- */
+
+const splitTags = (s: string) => s.split(/[|、,，]/).map(t => t.trim()).filter(Boolean);
+
+function questionFromCsv(rec: Record<string, string>): QuestionInput {
+  const options = OPTION_COLUMNS.map(k => rec[k] ?? '').filter(o => o.trim() !== '');
+  const answers = [...new Set((rec.answer || '').toUpperCase().match(/[A-Z]/g) ?? [])];
+  const type = rec.type === '多選' ? 'multi_select'
+    : rec.type === '單選' ? 'single_choice'
+    : rec.type || (answers.length > 1 ? 'multi_select' : 'single_choice');
+  if (type === 'reading') throw new Error('CSV 不支援閱讀題組，請改用 JSON 或 Markdown');
+  if (type !== 'single_choice' && type !== 'multi_select') throw new Error(`未知題型「${type}」`);
+
+  const errorAnalysis: Record<string, string> = {};
+  options.forEach((_, i) => {
+    const v = rec[`error${optionLetter(i)}`];
+    if (v?.trim()) errorAnalysis[optionLetter(i)] = v.trim();
+  });
+
+  const tags = splitTags(rec.tags || '');
+  const difficulty = rec.difficulty?.trim();
+  const meta = {
+    ...(tags.length ? { tags } : {}),
+    ...(difficulty ? { difficulty: difficulty as Difficulty } : {}),
+    ...(rec.source?.trim() ? { source: rec.source.trim() } : {}),
+    ...(rec.unit?.trim() ? { unit: rec.unit.trim() } : {}),
+    ...(rec.lesson?.trim() ? { lesson: rec.lesson.trim() } : {}),
+  };
+  if (difficulty && !DIFFICULTIES.includes(difficulty as Difficulty)) throw new Error(`難度只能是 ${DIFFICULTIES.join('/')}`);
+
+  const createdAt = rec.createdAt ? new Date(rec.createdAt) : undefined;
+  const common = {
+    title: rec.title ?? '',
+    options,
+    ...(rec.explanation ? { explanation: rec.explanation } : {}),
+    errorAnalysis,
+    ...(Object.keys(meta).length ? { meta } : {}),
+    ...(rec.id?.trim() ? { id: rec.id.trim() } : {}),
+    ...(createdAt && !isNaN(createdAt.getTime()) ? { createdAt } : {}),
+  };
+  return type === 'multi_select'
+    ? { ...common, type, correctAnswers: answers }
+    : { ...common, type, correctAnswer: answers[0] ?? '' };
+}
+
+function parseCsvFile(text: string): ImportItem[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const cols = header.cells.map(c => c.trim());
+  const missing = ['title', 'A', 'B', 'answer'].filter(c => !cols.includes(c));
+  if (missing.length) {
+    return [{ index: 1, line: header.line, label: '（標題列）', errors: [`缺少欄位：${missing.join('、')}`] }];
+  }
+
+  return rows.map((row, i) => {
+    const rec = Object.fromEntries(cols.map((c, j) => [c, row.cells[j] ?? '']));
+    const base = { index: i + 1, line: row.line, label: draftLabel(rec as unknown as QuestionDraft) };
+    try {
+      const question = questionFromCsv(rec);
+      return { ...base, question, errors: checkDraft(question) };
+    } catch (err: any) {
+      return { ...base, errors: [err?.message || '格式錯誤'] };
+    }
+  });
+}
+
+/* ---------- Markdown / TXT ---------- */
+
+function parseTextFile(text: string): ImportItem[] {
+  const items: ImportItem[] = [];
+  let chunk: string[] = [];
+  let start = 1;
+
+  const flush = () => {
+    const body = chunk.join('\n').trim();
+    if (body) {
+      const base = { index: items.length + 1, line: start + chunk.findIndex(l => l.trim() !== '') };
+      try {
+        const question = parsePaste(body);
+        items.push({ ...base, label: draftLabel(question), question, errors: checkDraft(question) });
+      } catch (err: any) {
+        items.push({ ...base, label: draftLabel({ title: body.split('\n')[0] } as QuestionDraft), errors: [err?.message || '格式錯誤'] });
+      }
+    }
+    chunk = [];
+  };
+
+  text.replace(/\r\n?/g, '\n').split('\n').forEach((l, i) => {
+    if (/^\s*(-{3,}|={3,})\s*$/.test(l)) {
+      flush();
+      start = i + 2;
+    } else chunk.push(l);
+  });
+  flush();
+  return items;
+}
+
+function parseByFormat(fileName: string, text: string): ImportItem[] {
+  switch (formatOf(fileName)) {
+    case 'json': return parseJsonFile(text);
+    case 'csv':  return parseCsvFile(text);
+    case 'text': return parseTextFile(text);
+    default:     return [{ index: 1, label: fileName, errors: ['只支援 .json、.csv、.md、.txt 檔'] }];
+  }
+}
+
+/** 解析整個檔案，每題各自帶錯誤訊息；同一檔案內重複的 id 也視為錯誤 */
+export function parseImportFile(fileName: string, text: string): ImportItem[] {
+  const seen = new Map<string, number>();
+  return parseByFormat(fileName, text).map(item => {
+    const id = item.question?.id;
+    if (!id) return item;
+    const first = seen.get(id);
+    if (first === undefined) { seen.set(id, item.index); return item; }
+    return { ...item, errors: [...item.errors, `id「${id}」與第 ${first} 題重複`] };
+  });
+}
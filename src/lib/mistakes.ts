@@ -0,0 +1,99 @@
+// src/lib/mistakes.ts
+// 錯題本：每張複習卡（單題或閱讀小題）一筆，答錯時建立或更新；
+// 之後連續答對 MASTERY_STREAK 次即視為精熟，再答錯則重新計算。
+import type { Question, QuestionType } from '../types/question';
+import type { AttemptInput, HistoryEntry } from './storage';
+import { cardIdOf } from './srs';
+import { questionTitle } from './question-schema';
+import { htmlToText } from './html';
+
+export const MASTERY_STREAK = 3;
+
+export interface MistakeEntry {
+  questionId: string;
+  subItemId?: string;
+  type: QuestionType;
+  chosen: string | string[];   // 最近一次答錯時選的答案
+  wrongCount: number;
+  correctStreak: number;       // 最近一次答錯後連續答對的次數
+  mastered: boolean;
+  firstWrongAt: Date;
+  lastWrongAt: Date;
+  masteredAt?: Date;
+}
+
+/** 一次作答後的錯題紀錄；答對且原本不在錯題本時回傳 null（不需寫入） */
+export function applyToMistake(entry: MistakeEntry | null, attempt: AttemptInput, at: Date): MistakeEntry | null {
+  if (!attempt.isCorrect) {
+    return {
+      questionId: attempt.questionId,
+      ...(attempt.subItemId ? { subItemId: attempt.subItemId } : {}),
+      type: attempt.type,
+      chosen: attempt.chosen,
+      wrongCount: (entry?.wrongCount ?? 0) + 1,
+      correctStreak: 0,
+      mastered: false,
+      firstWrongAt: entry?.firstWrongAt ?? at,
+      lastWrongAt: at,
+    };
+  }
+  if (!entry) return null;
+  const correctStreak = entry.correctStreak + 1;
+  const mastered = entry.mastered || correctStreak >= MASTERY_STREAK;
+  return {
+    ...entry,
+    correctStreak,
+    mastered,
+    ...(mastered ? { masteredAt: entry.masteredAt ?? at } : {}),
+  };
+}
+
+/** 由作答紀錄重建錯題本：只在還沒建立錯題本的舊帳號第一次打開時使用 */
+export function rebuildMistakes(history: HistoryEntry[]): MistakeEntry[] {
+  const byCard = new Map<string, MistakeEntry>();
+  [...history]
+    .sort((a, b) => (a.timestamp?.getTime() ?? 0) - (b.timestamp?.getTime() ?? 0))
+    .forEach(h => {
+      const key = cardIdOf(h.questionId, h.subItemId);
+      const next = applyToMistake(byCard.get(key) ?? null, h, h.timestamp ?? new Date());
+      if (next) byCard.set(key, next);
+    });
+  return [...byCard.values()];
+}
+
+export const mistakeId = (m: Pick<MistakeEntry, 'questionId' | 'subItemId'>) => cardIdOf(m.questionId, m.subItemId);
+
+export interface MistakeDetail {
+  title: string;                        // 純文字題目（閱讀題組為「篇名：小題題幹」）
+  options: string[];
+  chosen: string[];
+  correct: string[];
+  analyses: { letter: string; text: string }[];   // 選錯選項各自的錯因分析
+  explanation?: string;                 // HTML
+}
+
+/** 錯題本列表要顯示的內容；題目或小題已不存在時回傳 null */
+export function mistakeDetail(entry: MistakeEntry, q: Question): MistakeDetail | null {
+  const chosen = Array.isArray(entry.chosen) ? entry.chosen : entry.chosen ? [entry.chosen] : [];
+  const pick = (options: string[], correct: string[], errorAnalysis: Record<string, string> | undefined,
+                title: string, explanation?: string): MistakeDetail => ({
+    title,
+    options,
+    chosen,
+    correct,
+    analyses: chosen
+      .filter(c => !correct.includes(c) && errorAnalysis?.[c])
+      .map(c => ({ letter: c, text: errorAnalysis![c] })),
+    explanation,
+  });
+
+  if (q.type === 'reading') {
+    const item = q.items.find(i => i.id === entry.subItemId);
+    if (!item) return null;
+    const correct = item.subtype === 'multi_select' ? item.correctAnswers ?? [] : item.answer ? [item.answer] : [];
+    return pick(item.options, correct, item.errorAnalysis,
+      `${htmlToText(q.passage.title)}：${htmlToText(item.stem)}`, item.explanation ?? q.explanation);
+  }
+  const correct = q.type === 'multi_select' ? q.correctAnswers : [q.correctAnswer];
+  return pick(q.options, correct, q.errorAnalysis, htmlToText(questionTitle(q)), q.explanation);
+}
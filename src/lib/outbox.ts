@@ -0,0 +1,193 @@
+// src/lib/outbox.ts
+// 待上傳佇列：練習作答、作業成績與模擬考紀錄都先存進 IndexedDB 再送出，離線或送出失敗時留在佇列，
+// 恢復連線後依作答順序重送。每筆帶用戶端產生的 id（attemptId／模擬考紀錄 id），重送不會重複計入；
+// 作業成績本來就只記第一次作答，重送同一筆也不會改變結果。
+import { storage, type AttemptInput, type AuthUser, type Storage } from './storage';
+import type { Assignment } from '../types/assignment';
+import type { ExamSessionInput } from '../types/exam';
+import { idbAvailable, idbDeleteMany, idbGetAll, idbPutMany, openDb } from './idb';
+
+const DB_VERSION = 1;
+const PENDING = 'pending';
+
+type PendingJob =
+  | { kind: 'attempt'; attempt: AttemptInput }
+  | { kind: 'assignment'; assignment: Assignment; user: AuthUser; attempt: AttemptInput }
+  | { kind: 'exam'; session: ExamSessionInput };
+
+interface PendingItem {
+  id: string;            // 練習作答為 attemptId、模擬考為紀錄 id
+  userId: string;
+  job?: PendingJob;
+  attempt?: AttemptInput;   // 舊版佇列只存作答紀錄
+  queuedAt: Date;
+}
+
+/** sent＝已上傳；queued＝離線或暫時失敗，留在佇列；rejected＝伺服器拒收（如權限不足），已丟棄 */
+export type EnqueueResult = 'sent' | 'queued' | 'rejected';
+
+const jobOf = (item: PendingItem): PendingJob => item.job ?? { kind: 'attempt', attempt: item.attempt! };
+
+export interface SyncState {
+  pending: number;       // 尚未上傳的筆數
+  syncing: boolean;
+  online: boolean;
+  lastError?: string;    // 最近一次上傳失敗的原因；成功後清除
+  lastSyncedAt?: Date;
+}
+
+// 這些錯誤重送也不會成功（如權限不足），直接丟棄以免卡住後面的紀錄
+const PERMANENT_ERRORS = ['permission-denied', 'invalid-argument'];
+const isPermanent = (err: any) => PERMANENT_ERRORS.includes(err?.code);
+
+const newId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+export function createOutbox(repos: Pick<Storage, 'history' | 'assignments' | 'exams'>, dbName: string) {
+  let dbPromise: Promise<IDBDatabase | null> | null = null;
+  // 沒有 IndexedDB 時只保留在記憶體，關閉分頁前仍可重送
+  let memory: PendingItem[] = [];
+  const rejected = new Set<string>();
+  let chain: Promise<void> = Promise.resolve();
+  let writing: Promise<unknown> = Promise.resolve();   // 還在寫入佇列的紀錄
+  let state: SyncState = { pending: 0, syncing: false, online: isOnline() };
+  const listeners = new Set<(s: SyncState) => void>();
+
+  const db = () => {
+    dbPromise ??= idbAvailable()
+      ? openDb(dbName, DB_VERSION, d => {
+          if (!d.objectStoreNames.contains(PENDING)) d.createObjectStore(PENDING, { keyPath: 'id' });
+        }).catch(err => {
+          console.warn('無法開啟作答佇列，改為只保留在記憶體', err);
+          return null;
+        })
+      : Promise.resolve(null);
+    return dbPromise;
+  };
+
+  const setState = (patch: Partial<SyncState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(cb => cb(state));
+  };
+
+  const all = async (): Promise<PendingItem[]> => {
+    const d = await db();
+    const items = d ? await idbGetAll<PendingItem>(d, PENDING) : memory;
+    return [...items].sort((a, b) => a.queuedAt.getTime() - b.queuedAt.getTime());
+  };
+  const put = async (item: PendingItem) => {
+    const d = await db();
+    if (d) await idbPutMany(d, PENDING, [item]);
+    else memory = [...memory, item];
+  };
+  const remove = async (id: string) => {
+    const d = await db();
+    if (d) await idbDeleteMany(d, PENDING, [id]);
+    else memory = memory.filter(m => m.id !== id);
+  };
+
+  const countPending = async () => setState({ pending: (await all()).length });
+
+  const send = async (userId: string, job: PendingJob, id: string) => {
+    switch (job.kind) {
+      case 'attempt':    await repos.history.recordAttempt(userId, job.attempt); break;
+      case 'assignment': await repos.assignments.recordResult(job.assignment, job.user, job.attempt); break;
+      case 'exam':       await repos.exams.save(userId, job.session, id); break;
+    }
+  };
+
+  // 依序送出該使用者的待上傳紀錄；遇到可重試的錯誤就停下，保留順序等下次
+  const drain = async (userId: string) => {
+    const items = (await all()).filter(i => i.userId === userId);
+    if (!items.length) return;
+    setState({ syncing: true });
+    try {
+      for (const item of items) {
+        try {
+          await send(userId, jobOf(item), item.id);
+          await remove(item.id);
+        } catch (err: any) {
+          if (!isPermanent(err)) throw err;
+          console.error('待上傳紀錄無法上傳，已略過', item, err);
+          rejected.add(item.id);
+          await remove(item.id);
+        }
+      }
+      setState({ lastError: undefined, lastSyncedAt: new Date() });
+    } catch (err: any) {
+      setState({ lastError: err?.message || '上傳失敗' });
+    } finally {
+      setState({ syncing: false });
+      await countPending();
+    }
+  };
+
+  const flush = (userId: string): Promise<void> => {
+    setState({ online: isOnline() });
+    if (!state.online) return countPending();
+    chain = chain.then(() => drain(userId)).catch(err => console.error(err));
+    return chain;
+  };
+
+  /** 放進佇列後立即嘗試送出 */
+  const enqueue = async (userId: string, id: string, job: PendingJob): Promise<EnqueueResult> => {
+    const written = put({ id, userId, job, queuedAt: new Date() });
+    writing = Promise.all([writing, written.catch(() => undefined)]);
+    await written;
+    await countPending();
+    await flush(userId);
+    if (rejected.delete(id)) return 'rejected';
+    return (await all()).some(i => i.id === id) ? 'queued' : 'sent';
+  };
+
+  return {
+    /** 記錄一次作答：先放進佇列，連線時立即送出；離線時留待恢復連線後重送 */
+    async record(userId: string, attempt: AttemptInput) {
+      const id = attempt.attemptId ?? newId();
+      return enqueue(userId, id, { kind: 'attempt', attempt: { ...attempt, attemptId: id, answeredAt: attempt.answeredAt ?? new Date() } });
+    },
+
+    /** 記錄一題作業成績 */
+    async recordAssignment(assignment: Assignment, user: AuthUser, attempt: AttemptInput) {
+      return enqueue(user.uid, newId(), { kind: 'assignment', assignment, user, attempt });
+    },
+
+    /** 儲存一次模擬考（紀錄與各題作答） */
+    async recordExam(userId: string, session: ExamSessionInput) {
+      return enqueue(userId, newId(), { kind: 'exam', session });
+    },
+
+    /** 重送該使用者所有待上傳的紀錄（不會丟出錯誤，結果見 SyncState） */
+    flush,
+
+    /** 繳交作業前呼叫：先送出佇列，回傳這份作業仍留在佇列裡（離線或送出失敗）的成績筆數。
+     *  繳交後伺服器不再收成績，還沒送出的作答會被丟掉，所以有剩就不該繳交 */
+    async flushAssignment(userId: string, assignmentId: string) {
+      await writing;
+      await flush(userId);
+      return (await all()).filter(i => {
+        const job = jobOf(i);
+        return i.userId === userId && job.kind === 'assignment' && job.assignment.id === assignmentId;
+      }).length;
+    },
+
+    subscribe(cb: (s: SyncState) => void) {
+      listeners.add(cb);
+      cb(state);
+      countPending().catch(() => undefined);
+      return () => { listeners.delete(cb); };
+    },
+
+    setOnline(online: boolean) {
+      setState({ online });
+    },
+  };
+}
+
+export type AttemptOutbox = ReturnType<typeof createOutbox>;
+
+export const attemptOutbox = createOutbox(storage, `mca-outbox-${storage.backend}`);
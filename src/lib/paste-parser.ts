@@ -0,0 +1,194 @@
+// src/lib/paste-parser.ts
+// 管理員貼題格式解析：單選、多選、閱讀題組。
+//
+// 單選／多選：
+//   1. （　　）題幹 (A)選項 (B)選項 (C)選項 (D)選項
+//   ✅ 正確答案：C        ← 多選寫成「A、C」
+//   📖 詳解：……
+//   🔍 錯因分析：
+//   A：……
+//
+// 閱讀題組：
+//   📄 閱讀測驗：文章標題
+//   {p1|晉太元中，武陵人捕魚為業。}{p2|緣溪行，忘路之遠近。}   ← {id|句子} 標出可引用的句子
+//   ❓ 小題題幹 (A)… (B)… (C)… (D)…
+//   ✅ 正確答案：B
+//   📖 詳解：……
+//   🔍 錯因分析：
+//   A：……
+//   📌 依據：p1、p2
+//   ❓[多選] 下一小題…     ← 小題題型依答案數判斷；只有一個正確答案的多選小題要加 [多選]
+import type { QuestionDraft, ReadingSubItem } from '../types/question';
+import { htmlToText } from './html';
+
+export type PasteKind = 'auto' | 'single_choice' | 'multi_select' | 'reading';
+
+interface ChoiceBlock {
+  title: string;
+  options: string[];
+  answers: string[];
+  explanation: string;
+  errorAnalysis: Record<string, string>;
+}
+
+const ANSWER_RE = /✅\s*正確答案：\s*([A-Z](?:\s*[、,，/／]?\s*[A-Z](?![a-z]))*)/i;
+const OPTION_MARK_RE = /\(\s*[A-Z]\s*\)/;
+const EVIDENCE_RE = /📌\s*依據：([^\n]*)/;
+const SENTENCE_MARK_RE = /\{([\w-]+)\|([\s\S]*?)\}/g;
+const SUBTYPE_MARK_RE = /^\s*[[［](單選|多選)[\]］]/;
+
+const plainOf = (html: string) => new DOMParser().parseFromString(html, 'text/html').body.textContent || '';
+
+const splitList = (s: string) => s.split(/[、,，\s]+/).map(x => x.trim()).filter(Boolean);
+
+/** 解析一段「題幹 + 選項 + ✅ + 📖 + 🔍」；單選、多選與閱讀小題共用 */
+function parseChoiceBlock(html: string): ChoiceBlock {
+  const plain = plainOf(html);
+
+  if (!plain.includes('正確答案：')) throw new Error("找不到 '✅ 正確答案：'。");
+  if (!plain.includes('詳解：'))     throw new Error("找不到 '📖 詳解：'。");
+
+  const errorParts = html.split(/🔍/i);
+  const mainHtml = errorParts[0];
+  const errorHtml = errorParts[1] || '';
+
+  const explanationParts = mainHtml.split(/📖/i);
+  const explanation = explanationParts[1]?.replace('詳解：', '').trim() || '';
+  const contentBeforeExplanationHtml = explanationParts[0];
+
+  const ans = plain.match(ANSWER_RE);
+  if (!ans) throw new Error('無法解析正確答案（例：✅ 正確答案：C 或 ✅ 正確答案：A、C）。');
+  const answers = [...new Set(ans[1].toUpperCase().match(/[A-Z]/g) ?? [])];
+
+  const contentBeforeAnswerHtml = contentBeforeExplanationHtml.split(/✅/i)[0].trim();
+  const firstIdx = contentBeforeAnswerHtml.search(OPTION_MARK_RE);
+  if (firstIdx === -1) throw new Error('找不到任何選項標記（例如 (A)）。');
+
+  const title = contentBeforeAnswerHtml
+    .substring(0, firstIdx)
+    .replace(/^[0-9]+\.\s*（\s*　?\s*）/, '')
+    .trim();
+
+  const optionsBlock = contentBeforeAnswerHtml.substring(firstIdx);
+  const options = optionsBlock.split(/\(\s*[A-Z]\s*\)/).slice(1).map(s => s.trim());
+
+  const bad = answers.find(a => a.charCodeAt(0) - 65 >= options.length);
+  if (bad) throw new Error(`正確答案 ${bad} 超出選項範圍（共 ${options.length} 個選項）。`);
+
+  const errorAnalysis: Record<string, string> = {};
+  if (errorHtml) {
+    errorHtml.replace('錯因分析：', '').trim().split('\n').forEach(line => {
+      const [k, ...rest] = line.split(/[:：]/);
+      const key = (k || '').trim().toUpperCase();
+      const v = rest.join('：').trim();
+      if (/^[A-Z]$/.test(key) && key.charCodeAt(0) - 65 < options.length && v) errorAnalysis[key] = v;
+    });
+  }
+
+  return { title, options, answers, explanation, errorAnalysis };
+}
+
+export function parseSingleChoicePaste(html: string): QuestionDraft {
+  const b = parseChoiceBlock(html);
+  if (b.answers.length !== 1) throw new Error(`單選題只能有一個正確答案（解析到 ${b.answers.join('、')}）。`);
+  return {
+    type: 'single_choice',
+    title: b.title,
+    options: b.options,
+    correctAnswer: b.answers[0],
+    explanation: b.explanation,
+    errorAnalysis: b.errorAnalysis,
+  };
+}
+
+/** 多選題的題幹與選項沿用早期格式存成純文字；MultiSelectBlock 以清理後的 HTML 顯示，純文字也能照常呈現 */
+export function parseMultiSelectPaste(html: string): QuestionDraft {
+  const b = parseChoiceBlock(html);
+  return {
+    type: 'multi_select',
+    title: htmlToText(b.title),
+    options: b.options.map(o => htmlToText(o)),
+    correctAnswers: b.answers,
+    explanation: b.explanation,
+    errorAnalysis: b.errorAnalysis,
+  };
+}
+
+/** 文章：{id|句子} → <span data-id="id">句子</span>；沒有區塊標籤時逐行包成段落 */
+function passageToHtml(body: string): string {
+  const marked = body.replace(SENTENCE_MARK_RE, (_, id: string, text: string) => `<span data-id="${id}">${text}</span>`);
+  if (/<(p|div|br)\b/i.test(marked)) return marked.trim();
+  return marked
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => `<p>${line}</p>`)
+    .join('\n');
+}
+
+export function parseReadingPaste(html: string): QuestionDraft {
+  const [head, ...itemBlocks] = html.split(/❓/);
+  if (!head.includes('📄')) throw new Error("閱讀題組需以 '📄 閱讀測驗：標題' 開頭。");
+  if (itemBlocks.length === 0) throw new Error("找不到任何小題（每個小題以 '❓' 開頭）。");
+
+  const headBody = head.substring(head.indexOf('📄') + '📄'.length);
+  const newline = headBody.indexOf('\n');
+  const titleLine = newline === -1 ? headBody : headBody.substring(0, newline);
+  const title = htmlToText(titleLine).replace(/^(閱讀測驗|文章)\s*[:：]\s*/, '');
+  const textHtml = passageToHtml(newline === -1 ? '' : headBody.substring(newline + 1));
+  if (!htmlToText(textHtml)) throw new Error('找不到文章內容。');
+
+  const sentenceIds = new Set([...textHtml.matchAll(/data-id="([^"]+)"/g)].map(m => m[1]));
+
+  const items: ReadingSubItem[] = itemBlocks.map((block, i) => {
+    const label = `第 ${i + 1} 小題`;
+    const mark = block.match(SUBTYPE_MARK_RE);
+    const raw = mark ? block.slice(mark[0].length) : block;
+    const evidence = raw.match(EVIDENCE_RE);
+    const evidenceRefs = evidence ? splitList(htmlToText(evidence[1])) : [];
+    const missing = evidenceRefs.filter(id => !sentenceIds.has(id));
+    if (missing.length) throw new Error(`${label}：文章中找不到依據 ${missing.join('、')}。`);
+
+    let b: ChoiceBlock;
+    try {
+      b = parseChoiceBlock(raw.replace(EVIDENCE_RE, ''));
+    } catch (err: any) {
+      throw new Error(`${label}：${err?.message || '格式錯誤'}`);
+    }
+
+    const base = {
+      id: `q${i + 1}`,
+      stem: htmlToText(b.title).replace(/^[0-9]+[.．、]\s*/, ''),
+      options: b.options.map(o => htmlToText(o)),
+      explanation: htmlToText(b.explanation),
+      errorAnalysis: b.errorAnalysis,
+      ...(evidenceRefs.length ? { evidenceRefs } : {}),
+    };
+    const multi = mark ? mark[1] === '多選' : b.answers.length > 1;
+    if (!multi && b.answers.length > 1) throw new Error(`${label}：標為單選，卻有 ${b.answers.length} 個正確答案。`);
+    return multi
+      ? { ...base, subtype: 'multi_select' as const, correctAnswers: b.answers }
+      : { ...base, subtype: 'single_choice' as const, answer: b.answers[0] };
+  });
+
+  return {
+    type: 'reading',
+    passage: { title, textHtml, plainText: htmlToText(textHtml) },
+    items,
+  };
+}
+
+/** 依格式自動判斷：有 📄 為閱讀題組，答案多於一個為多選，其餘為單選 */
+export function detectPasteKind(html: string): Exclude<PasteKind, 'auto'> {
+  if (html.includes('📄')) return 'reading';
+  const ans = plainOf(html).match(ANSWER_RE);
+  return ans && (ans[1].match(/[A-Z]/gi) ?? []).length > 1 ? 'multi_select' : 'single_choice';
+}
+
+export function parsePaste(html: string, kind: PasteKind = 'auto'): QuestionDraft {
+  switch (kind === 'auto' ? detectPasteKind(html) : kind) {
+    case 'reading':      return parseReadingPaste(html);
+    case 'multi_select': return parseMultiSelectPaste(html);
+    default:             return parseSingleChoicePaste(html);
+  }
+}
@@ -0,0 +1,76 @@
+// src/lib/practice-keys.ts
+// 練習題的鍵盤操作：焦點在某一題（帶 data-question 的區塊）內時，
+// A–E 選選項、Enter 提交、R 重做、N／P 跳到下一題／上一題。
+// 以 DOM 找到對應的選項與按鈕再觸發點擊，各題型不必各自實作一套鍵盤邏輯。
+import type React from 'react';
+
+export const PRACTICE_KEYS_HELP = '鍵盤操作：A–E 選擇選項、Enter 提交、R 重做、N／P 下一題／上一題';
+
+const QUESTION_SELECTOR = '[data-question]';
+
+/** LazyRender 尚未渲染的佔位元素；收到 LAZY_RENDER_EVENT 會立即渲染內容 */
+export const LAZY_PENDING_ATTR = 'data-lazy-pending';
+export const LAZY_RENDER_EVENT = 'lazyrender';
+
+/** 正在輸入文字或操作下拉選單時不攔截按鍵 */
+const isTyping = (el: EventTarget | null) =>
+  el instanceof HTMLElement
+  && (el.isContentEditable || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT'
+    || (el.tagName === 'INPUT' && !['radio', 'checkbox'].includes((el as HTMLInputElement).type)));
+
+/** 把焦點移到前／後一題；回傳是否有移動。下一題還沒渲染（捲動才載入）時先讓它渲染再移過去 */
+export function focusQuestion(from: Element, delta: 1 | -1): boolean {
+  const all = [...document.querySelectorAll<HTMLElement>(`${QUESTION_SELECTOR}, [${LAZY_PENDING_ATTR}]`)];
+  const current = from.closest(QUESTION_SELECTOR);
+  let target = all[all.indexOf(current as HTMLElement) + delta];
+  if (!target) return false;
+  if (target.hasAttribute(LAZY_PENDING_ATTR)) {
+    target.dispatchEvent(new Event(LAZY_RENDER_EVENT));
+    // 往回跳時落在題組的最後一小題
+    const inside = target.querySelectorAll<HTMLElement>(QUESTION_SELECTOR);
+    target = inside[delta === 1 ? 0 : inside.length - 1] ?? target;
+  }
+  target.focus({ preventScroll: true });
+  target.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  return true;
+}
+
+// 提交／重做後按鈕與選項會換掉或停用，焦點拉回題目本身，才能接著用鍵盤操作
+const clickAction = (root: HTMLElement, action: 'submit' | 'retry') => {
+  const btn = root.querySelector<HTMLButtonElement>(`[data-action="${action}"]:not(:disabled)`);
+  if (!btn) return false;
+  btn.click();
+  root.focus({ preventScroll: true });
+  return true;
+};
+
+/** 掛在每一題的根元素（data-question）上的 onKeyDown */
+export function onPracticeKeyDown(e: React.KeyboardEvent<HTMLElement>) {
+  if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+  const root = e.currentTarget;
+  const key = e.key.toLowerCase();
+  let handled = false;
+
+  if (/^[a-e]$/.test(key)) {
+    const inputs = root.querySelectorAll<HTMLInputElement>('input[type="radio"], input[type="checkbox"]');
+    const input = inputs[key.charCodeAt(0) - 97];
+    if (input && !input.disabled) {
+      input.focus();
+      input.click();
+      handled = true;
+    }
+  } else if (key === 'enter') {
+    // 按鈕上的 Enter 交給按鈕本身
+    if (e.target instanceof HTMLButtonElement || e.target instanceof HTMLAnchorElement) return;
+    handled = clickAction(root, 'submit');
+  } else if (key === 'r') {
+    handled = clickAction(root, 'retry');
+  } else if (key === 'n' || key === 'p') {
+    handled = focusQuestion(root, key === 'n' ? 1 : -1);
+  }
+
+  if (handled) {
+    e.preventDefault();
+    e.stopPropagation();
+  }
+}
@@ -0,0 +1,47 @@
+// src/lib/practice-set.ts
+// 依冊別、課次、能力標籤與難度挑出 N 題組成練習卷。
+import type { Difficulty, Question } from '../types/question';
+
+export interface PracticeSetCriteria {
+  unit?: string;
+  lesson?: string;
+  tags?: string[];           // 符合任一標籤即可
+  difficulty?: Difficulty | '';
+  count: number;
+}
+
+export function matchesCriteria(q: Question, c: Omit<PracticeSetCriteria, 'count'>): boolean {
+  const m = q.meta ?? {};
+  if (c.unit && m.unit !== c.unit) return false;
+  if (c.lesson && m.lesson !== c.lesson) return false;
+  if (c.difficulty && m.difficulty !== c.difficulty) return false;
+  if (c.tags?.length && !c.tags.some(t => (m.tags ?? []).includes(t))) return false;
+  return true;
+}
+
+/** Fisher–Yates 洗牌（回傳新陣列） */
+export function shuffle<T>(items: T[], random = Math.random): T[] {
+  const pool = [...items];
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool;
+}
+
+/** 洗牌後取前 count 題；符合的題數不足時全數回傳 */
+export function buildPracticeSet(questions: Question[], c: PracticeSetCriteria, random = Math.random): Question[] {
+  return shuffle(questions.filter(q => matchesCriteria(q, c)), random).slice(0, Math.max(0, c.count));
+}
+
+/** 固定種子的亂數（mulberry32）：只用來開啟舊版只帶 seed 的分享連結；結果取決於開啟時的題庫，新連結改帶題目 id */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
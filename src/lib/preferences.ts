@@ -0,0 +1,55 @@
+// src/lib/preferences.ts
+// 目前登入者的偏好設定：登入時讀一次，各元件以 usePreferences() 共用，修改時寫回儲存層。
+import { useSyncExternalStore } from 'react';
+import type { UserPreferences } from '../types/preferences';
+import { storage } from './storage';
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  readAloud: { voiceURI: '', rate: 1, pitch: 1, classicalSlow: true },
+  display: { script: 'traditional', ruby: false, rubySystem: 'zhuyin' },
+};
+
+let current: UserPreferences = DEFAULT_PREFERENCES;
+let owner: string | null = null;
+const listeners = new Set<() => void>();
+
+const set = (next: UserPreferences) => {
+  current = next;
+  listeners.forEach(cb => cb());
+};
+
+/** 存過的設定與預設值合併（新增的欄位沿用預設） */
+const withDefaults = (saved: Partial<UserPreferences> | null): UserPreferences => ({
+  readAloud: { ...DEFAULT_PREFERENCES.readAloud, ...saved?.readAloud },
+  display: { ...DEFAULT_PREFERENCES.display, ...saved?.display },
+});
+
+/** 登入後載入該使用者的偏好；登出時傳 null 回到預設值 */
+export async function loadPreferences(uid: string | null) {
+  owner = uid;
+  if (!uid) return set(DEFAULT_PREFERENCES);
+  try {
+    const saved = await storage.users.getPreferences(uid);
+    if (owner === uid) set(withDefaults(saved));
+  } catch (err) {
+    console.error('讀取偏好設定失敗，使用預設值', err);
+  }
+}
+
+/** 修改一個設定區塊：畫面立即更新，再寫回儲存層 */
+export async function updatePreferences<K extends keyof UserPreferences>(key: K, value: UserPreferences[K]) {
+  set({ ...current, [key]: value });
+  if (!owner) return;
+  try {
+    await storage.users.savePreferences(owner, { [key]: value });
+  } catch (err) {
+    console.error('儲存偏好設定失敗', err);
+  }
+}
+
+const subscribe = (cb: () => void) => {
+  listeners.add(cb);
+  return () => { listeners.delete(cb); };
+};
+
+export const usePreferences = () => useSyncExternalStore(subscribe, () => current);
@@ -0,0 +1,8 @@
+// src/lib/pwa.ts
+// 註冊 public/sw.js。只在正式版註冊：開發時 Vite 的模組不經打包，快取反而造成混亂。
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.warn('Service Worker 註冊失敗', err));
+  });
+}
@@ -0,0 +1,119 @@
+// src/lib/question-cache.ts
+// 題庫的用戶端快取：分頁讀到的題目存進 IndexedDB，下次進入練習先顯示快取，
+// 再以 changedSince 只抓新增或修改過的題目。永久刪除無法從增量同步得知，
+// 因此快取超過 FULL_REFRESH_DAYS 天就整份重抓。
+import type { Question } from '../types/question';
+import { storage, type QuestionCursor, type QuestionRepository } from './storage';
+import { idbAvailable, idbClear, idbDeleteMany, idbGet, idbGetAll, idbPutMany, openDb } from './idb';
+
+const DB_VERSION = 1;
+const QUESTIONS = 'questions';
+const META = 'meta';
+const FULL_REFRESH_DAYS = 7;
+const CLOCK_SKEW_MS = 5 * 60 * 1000; // 用戶端與伺服器時鐘誤差的保留量
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CacheMeta {
+  next: QuestionCursor | null;  // 下一頁的游標；complete 時為 null
+  complete: boolean;            // 是否已讀完整個題庫
+  syncedAt: Date;               // 上次同步開始的時間
+  createdAt: Date;              // 這份快取第一次抓取的時間
+}
+
+export interface QuestionCacheState {
+  questions: Question[];
+  next: QuestionCursor | null;
+  complete: boolean;
+}
+
+const byNewest = (a: Question, b: Question) =>
+  (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0) || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+/** 依 id 合併（後者覆蓋前者）並排除已封存的題目，依建立時間由新到舊 */
+export function mergeQuestions(current: Question[], incoming: Question[]): Question[] {
+  const byId = new Map(current.map(q => [q.id, q]));
+  incoming.forEach(q => byId.set(q.id, q));
+  return [...byId.values()].filter(q => !q.archived).sort(byNewest);
+}
+
+export function createQuestionCache(repo: QuestionRepository, dbName: string) {
+  let dbPromise: Promise<IDBDatabase | null> | null = null;
+  // 沒有 IndexedDB（如部分私密瀏覽模式）時照常分頁讀取，只是不保留
+  let memoryMeta: CacheMeta | null = null;
+
+  const db = () => {
+    dbPromise ??= idbAvailable()
+      ? openDb(dbName, DB_VERSION, d => {
+          if (!d.objectStoreNames.contains(QUESTIONS)) d.createObjectStore(QUESTIONS, { keyPath: 'id' });
+          if (!d.objectStoreNames.contains(META)) d.createObjectStore(META);
+        }).catch(err => {
+          console.warn('無法開啟題庫快取，改為不快取', err);
+          return null;
+        })
+      : Promise.resolve(null);
+    return dbPromise;
+  };
+
+  const readMeta = async (): Promise<CacheMeta | null> => {
+    const d = await db();
+    return d ? (await idbGet<CacheMeta>(d, META, 'state')) ?? null : memoryMeta;
+  };
+  const writeMeta = async (meta: CacheMeta) => {
+    memoryMeta = meta;
+    const d = await db();
+    if (d) await idbPutMany(d, META, [meta], ['state']);
+  };
+
+  return {
+    /** 讀出快取；沒有快取或已過期時回傳 null（離線時不論新舊都先用快取） */
+    async restore(now = new Date()): Promise<QuestionCacheState | null> {
+      const d = await db();
+      const meta = await readMeta();
+      if (!d || !meta) return null;
+      const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+      if (!offline && now.getTime() - meta.createdAt.getTime() > FULL_REFRESH_DAYS * DAY_MS) {
+        await idbClear(d, [QUESTIONS, META]);
+        return null;
+      }
+      const questions = mergeQuestions([], await idbGetAll<Question>(d, QUESTIONS));
+      return { questions, next: meta.next, complete: meta.complete };
+    },
+
+    /** 讀下一頁並存入快取；after 為 null 代表從頭讀（會清掉舊快取） */
+    async fetchPage(after: QuestionCursor | null, size: number) {
+      const startedAt = new Date();
+      const d = await db();
+      const prev = after ? await readMeta() : null;
+      if (!after && d) await idbClear(d, [QUESTIONS, META]);
+
+      const page = await repo.page({ size, after });
+      if (d) await idbPutMany(d, QUESTIONS, page.questions);
+      await writeMeta({
+        next: page.next,
+        complete: !page.next,
+        syncedAt: prev?.syncedAt ?? startedAt,
+        createdAt: prev?.createdAt ?? startedAt,
+      });
+      return page;
+    },
+
+    /** 增量同步：回傳新增或修改的題目，已封存的題目會從快取移除 */
+    async sync(): Promise<Question[]> {
+      const meta = await readMeta();
+      if (!meta) return [];
+      const startedAt = new Date();
+      const changed = await repo.changedSince(new Date(meta.syncedAt.getTime() - CLOCK_SKEW_MS));
+      const d = await db();
+      if (d) {
+        await idbPutMany(d, QUESTIONS, changed.filter(q => !q.archived));
+        await idbDeleteMany(d, QUESTIONS, changed.filter(q => q.archived).map(q => q.id));
+      }
+      await writeMeta({ ...meta, syncedAt: startedAt });
+      return changed;
+    },
+  };
+}
+
+export type QuestionCache = ReturnType<typeof createQuestionCache>;
+
+export const questionCache = createQuestionCache(storage.questions, `mca-questions-${storage.backend}`);
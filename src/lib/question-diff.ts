@@ -0,0 +1,27 @@
+// src/lib/question-diff.ts
+// 題目內容的欄位層級差異，供修訂紀錄使用。
+import type { FieldChange, QuestionDraft } from '../types/question';
+
+function flatten(value: unknown, prefix: string, out: Map<string, string>) {
+  if (value === undefined || value === null) return;
+  if (Array.isArray(value) || (typeof value === 'object' && !(value instanceof Date))) {
+    Object.entries(value as Record<string, unknown>).forEach(([k, v]) => flatten(v, prefix ? `${prefix}.${k}` : k, out));
+    return;
+  }
+  out.set(prefix, value instanceof Date ? value.toISOString() : String(value));
+}
+
+export function diffQuestions(before: QuestionDraft, after: QuestionDraft): FieldChange[] {
+  const a = new Map<string, string>();
+  const b = new Map<string, string>();
+  flatten(before, '', a);
+  flatten(after, '', b);
+  const paths = [...new Set([...a.keys(), ...b.keys()])].sort();
+  return paths
+    .filter(p => a.get(p) !== b.get(p))
+    .map(p => ({
+      path: p,
+      ...(a.has(p) ? { before: a.get(p) } : {}),
+      ...(b.has(p) ? { after: b.get(p) } : {}),
+    }));
+}
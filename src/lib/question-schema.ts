@@ -0,0 +1,250 @@
+// src/lib/question-schema.ts
+// 標準題目模型的轉換與執行期驗證：QAItem ⇄ Question、舊版 Firestore 文件升級。
+import type { ChoiceKey, QAItem } from '../types/qa';
+import {
+  QUESTION_SCHEMA_VERSION,
+  type Question,
+  type QuestionDraft,
+  type QuestionMeta,
+  type QuestionType,
+  type ReadingSubItem,
+  type SingleChoiceQuestion,
+} from '../types/question';
+import { optionLetter } from './grading';
+import { DIFFICULTIES } from './curriculum';
+import { SCORING_RULES } from './scoring';
+
+export type ParseResult =
+  | { ok: true; question: Question }
+  | { ok: false; errors: string[] };
+
+const LETTER_RE = /^[A-Z]$/;
+const NUMBER_PREFIX_RE = /^[0-9]+\.\s*（\s*　?\s*）/;
+const TRANSLATION_SUFFIX_RE = /<span class="translation">([\s\S]*?)<\/span>$/;
+
+const escapeHtml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const unescapeHtml = (s: string) => s.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(x => typeof x === 'string');
+
+/** Firestore Timestamp / {seconds} / ISO 字串 / 毫秒數 → Date */
+export const toDate = (v: unknown): Date | undefined => {
+  if (v instanceof Date) return v;
+  if (isObject(v) && typeof v.toDate === 'function') return v.toDate();
+  if (isObject(v) && typeof v.seconds === 'number') return new Date(v.seconds * 1000);
+  if (typeof v === 'string' || typeof v === 'number') {
+    const d = new Date(v);
+    return isNaN(d.getTime()) ? undefined : d;
+  }
+  return undefined;
+};
+
+/* ---------- QAItem ⇄ Question ---------- */
+
+/** QAItem → 單選題。選項白話翻譯改以 .translation span 接在選項 HTML 後，題號前綴會去除。 */
+export function fromQAItem(item: QAItem): SingleChoiceQuestion {
+  return {
+    id: item.id,
+    schemaVersion: QUESTION_SCHEMA_VERSION,
+    type: 'single_choice',
+    title: item.stem_html.replace(NUMBER_PREFIX_RE, '').trim(),
+    options: item.options.map(o =>
+      o.translation ? `${o.text_html}<span class="translation">${escapeHtml(o.translation)}</span>` : o.text_html),
+    correctAnswer: item.answer,
+    ...(item.explanation ? { explanation: item.explanation } : {}),
+    errorAnalysis: { ...item.rationales },
+    ...(item.meta ? { meta: { ...item.meta } } : {}),
+  };
+}
+
+/** 單選題 → QAItem（QAItem 只支援 A–D 四個選項） */
+export function toQAItem(q: SingleChoiceQuestion): QAItem {
+  if (q.options.length > 4) throw new Error(`題目 ${q.id} 有 ${q.options.length} 個選項，QAItem 只支援 A–D。`);
+  return {
+    id: q.id,
+    type: 'single-choice',
+    stem_html: q.title,
+    options: q.options.map((html, i) => {
+      const key = optionLetter(i) as ChoiceKey;
+      const m = html.match(TRANSLATION_SUFFIX_RE);
+      return m
+        ? { key, text_html: html.slice(0, m.index), translation: unescapeHtml(m[1]) }
+        : { key, text_html: html };
+    }),
+    answer: q.correctAnswer as ChoiceKey,
+    ...(q.explanation ? { explanation: q.explanation } : {}),
+    rationales: { ...(q.errorAnalysis ?? {}) } as Record<ChoiceKey, string>,
+    ...(q.meta ? { meta: { ...q.meta } } : {}),
+  };
+}
+
+/** 去掉 id、時間戳記、版本與封存狀態，只留題目內容 */
+export function questionContent(q: Question): QuestionDraft {
+  const {
+    id: _id, createdAt: _c, updatedAt: _u, schemaVersion: _v,
+    archived: _a, archivedAt: _aa, archivedBy: _ab,
+    ...rest
+  } = q;
+  return stripUndefined(rest) as QuestionDraft;
+}
+
+/** Firestore 不接受 undefined 欄位：遞迴移除 */
+export function stripUndefined<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(stripUndefined) as T;
+  if (value instanceof Date || !isObject(value)) return value;
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined).map(([k, v]) => [k, stripUndefined(v)]),
+  ) as T;
+}
+
+/* ---------- 執行期驗證 ---------- */
+
+function checkOptions(path: string, options: unknown, errors: string[]): number {
+  if (!isStringArray(options)) { errors.push(`${path}options 必須是字串陣列`); return 0; }
+  if (options.length < 2 || options.length > 26) errors.push(`${path}options 數量需介於 2–26`);
+  options.forEach((o, i) => { if (!o.trim()) errors.push(`${path}選項 ${optionLetter(i)} 是空的`); });
+  return options.length;
+}
+
+function checkLetter(path: string, letter: unknown, optionCount: number, errors: string[]) {
+  if (typeof letter !== 'string' || !LETTER_RE.test(letter)) { errors.push(`${path}答案「${String(letter)}」不是 A–Z 字母`); return; }
+  if (letter.charCodeAt(0) - 65 >= optionCount) errors.push(`${path}答案 ${letter} 超出選項範圍`);
+}
+
+function checkLetters(path: string, letters: unknown, optionCount: number, errors: string[]) {
+  if (!isStringArray(letters) || letters.length === 0) { errors.push(`${path}correctAnswers 至少要有一個答案`); return; }
+  if (new Set(letters).size !== letters.length) errors.push(`${path}correctAnswers 有重複`);
+  letters.forEach(l => checkLetter(path, l, optionCount, errors));
+}
+
+function checkErrorAnalysis(path: string, ea: unknown, errors: string[]) {
+  if (ea === undefined) return;
+  if (!isObject(ea)) { errors.push(`${path}errorAnalysis 必須是物件`); return; }
+  Object.entries(ea).forEach(([k, v]) => {
+    if (!LETTER_RE.test(k)) errors.push(`${path}errorAnalysis 的鍵「${k}」不是選項字母`);
+    if (typeof v !== 'string') errors.push(`${path}errorAnalysis.${k} 必須是字串`);
+  });
+}
+
+function checkMeta(meta: unknown, errors: string[]) {
+  if (meta === undefined) return;
+  if (!isObject(meta)) { errors.push('meta 必須是物件'); return; }
+  const m = meta as QuestionMeta;
+  if (m.difficulty !== undefined && !DIFFICULTIES.includes(m.difficulty)) errors.push(`meta.difficulty 只能是 ${DIFFICULTIES.join('/')}`);
+  if (m.tags !== undefined && !isStringArray(m.tags)) errors.push('meta.tags 必須是字串陣列');
+  if (m.source !== undefined && typeof m.source !== 'string') errors.push('meta.source 必須是字串');
+  if (m.unit !== undefined && typeof m.unit !== 'string') errors.push('meta.unit 必須是字串');
+  if (m.lesson !== undefined && typeof m.lesson !== 'string') errors.push('meta.lesson 必須是字串');
+}
+
+function checkSubItem(item: unknown, index: number, errors: string[]) {
+  const path = `第 ${index + 1} 小題：`;
+  if (!isObject(item)) { errors.push(`${path}格式錯誤`); return; }
+  const sub = item as ReadingSubItem;
+  if (typeof sub.id !== 'string' || !sub.id) errors.push(`${path}缺少 id`);
+  if (typeof sub.stem !== 'string' || !sub.stem.trim()) errors.push(`${path}缺少題幹 stem`);
+  const n = checkOptions(path, sub.options, errors);
+  if (sub.subtype === 'multi_select') checkLetters(path, sub.correctAnswers, n, errors);
+  else if (sub.subtype === 'single_choice') checkLetter(path, sub.answer, n, errors);
+  else errors.push(`${path}subtype 只能是 single_choice 或 multi_select`);
+  checkErrorAnalysis(path, sub.errorAnalysis, errors);
+  if (sub.evidenceRefs !== undefined && !isStringArray(sub.evidenceRefs)) errors.push(`${path}evidenceRefs 必須是字串陣列`);
+}
+
+/** 驗證已是標準模型的物件，回傳錯誤訊息清單（空陣列代表通過） */
+export function validateQuestion(q: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(q)) return ['題目必須是物件'];
+  if (typeof q.id !== 'string' || !q.id) errors.push('缺少 id');
+  if (q.schemaVersion !== QUESTION_SCHEMA_VERSION) errors.push(`schemaVersion 必須是 ${QUESTION_SCHEMA_VERSION}`);
+  if (q.explanation !== undefined && typeof q.explanation !== 'string') errors.push('explanation 必須是字串');
+  checkErrorAnalysis('', q.errorAnalysis, errors);
+  checkMeta(q.meta, errors);
+  if (q.scoring !== undefined && !SCORING_RULES.includes(q.scoring)) errors.push(`scoring 只能是 ${SCORING_RULES.join('/')}`);
+
+  switch (q.type) {
+    case 'single_choice': {
+      if (typeof q.title !== 'string' || !q.title.trim()) errors.push('缺少題幹 title');
+      checkLetter('', q.correctAnswer, checkOptions('', q.options, errors), errors);
+      break;
+    }
+    case 'multi_select': {
+      if (typeof q.title !== 'string' || !q.title.trim()) errors.push('缺少題幹 title');
+      checkLetters('', q.correctAnswers, checkOptions('', q.options, errors), errors);
+      break;
+    }
+    case 'reading': {
+      const p = q.passage;
+      if (!isObject(p)) errors.push('缺少 passage');
+      else {
+        if (typeof p.title !== 'string') errors.push('passage.title 必須是字串');
+        if (typeof p.textHtml !== 'string' || !p.textHtml.trim()) errors.push('缺少文章 passage.textHtml');
+        if (p.audioUrl !== undefined && typeof p.audioUrl !== 'string') errors.push('passage.audioUrl 必須是字串');
+      }
+      if (!Array.isArray(q.items) || q.items.length === 0) errors.push('閱讀題組至少要有一個小題');
+      else {
+        q.items.forEach((it: unknown, i: number) => checkSubItem(it, i, errors));
+        const ids = q.items.map((it: unknown) => (isObject(it) ? it.id : undefined));
+        if (new Set(ids).size !== ids.length) errors.push('小題 id 重複');
+      }
+      break;
+    }
+    default:
+      errors.push(`未知題型「${String(q.type)}」`);
+  }
+  return errors;
+}
+
+const SYSTEM_CARRY_FIELDS = ['createdAt', 'updatedAt', 'archived', 'archivedAt', 'archivedBy'] as const;
+
+/**
+ * 把任意來源（Firestore 文件、JSON、QAItem）轉成標準模型並驗證。
+ * 缺 schemaVersion 的舊文件視為 v0：type 缺省為 single_choice。
+ */
+export function parseQuestion(raw: unknown, id?: string): ParseResult {
+  if (!isObject(raw)) return { ok: false, errors: ['題目必須是物件'] };
+  let data: Record<string, any> = { ...raw, ...(id ? { id } : {}) };
+
+  if (data.type === 'single-choice' || 'stem_html' in data) {
+    try {
+      // QAItem 本身沒有這些欄位，轉換時要把文件上的系統欄位（時間戳、軟刪除）原樣帶過去
+      const system = Object.fromEntries(
+        SYSTEM_CARRY_FIELDS.filter(k => data[k] !== undefined).map(k => [k, data[k]]),
+      );
+      data = { ...fromQAItem(data as QAItem), ...system };
+    } catch {
+      return { ok: false, errors: ['QAItem 格式錯誤'] };
+    }
+  } else if (data.schemaVersion === undefined) {
+    data = { ...data, type: data.type ?? 'single_choice', schemaVersion: QUESTION_SCHEMA_VERSION };
+  }
+
+  for (const key of ['createdAt', 'updatedAt', 'archivedAt'] as const) {
+    const d = toDate(data[key]);
+    if (d) data[key] = d;
+    else delete data[key];
+  }
+
+  const errors = validateQuestion(data);
+  return errors.length ? { ok: false, errors } : { ok: true, question: data as Question };
+}
+
+/** Firestore 查詢結果 → 標準模型；無法解析的文件略過並記錄警告 */
+export function parseQuestionDocs(docs: { id: string; data(): unknown }[]): Question[] {
+  return docs.flatMap(d => {
+    const r = parseQuestion(d.data(), d.id);
+    if (!r.ok) { console.warn(`題目 ${d.id} 格式錯誤`, r.errors); return []; }
+    return [r.question];
+  });
+}
+
+/** 題目清單顯示用的標題（閱讀題組取文章標題） */
+export const questionTitle = (q: Question | QuestionDraft): string =>
+  q.type === 'reading' ? q.passage.title : q.title;
+
+export const QUESTION_TYPE_LABEL: Record<QuestionType, string> = {
+  single_choice: '單選',
+  multi_select: '多選',
+  reading: '閱讀題組',
+};
@@ -0,0 +1,106 @@
+// src/lib/router.ts
+// 以 History API 實作的簡易路由（不另外引入套件）：每個模組一個路徑，單題為 /q/:id，
+// 練習卷條件放在查詢字串。firebase.json 已把所有路徑改寫到 index.html。
+import { useSyncExternalStore } from 'react';
+import type { Difficulty } from '../types/question';
+import type { PracticeSetCriteria } from './practice-set';
+import { DIFFICULTIES } from './curriculum';
+
+export type Page = 'practice' | 'exam' | 'analysis' | 'reinforcement' | 'mistakes' | 'assignments' | 'classes' | 'admin';
+
+export type Route =
+  | { page: Page }
+  | { page: 'question'; id: string }
+  | { page: 'not_found' };
+
+export const PAGE_PATH: Record<Page, string> = {
+  practice: '/',
+  exam: '/exam',
+  analysis: '/analysis',
+  reinforcement: '/review',
+  mistakes: '/mistakes',
+  assignments: '/assignments',
+  classes: '/classes',
+  admin: '/admin',
+};
+
+export const questionPath = (id: string) => `/q/${encodeURIComponent(id)}`;
+
+/** 解析路徑（結尾斜線不影響） */
+export function parseRoute(pathname: string): Route {
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const q = path.match(/^\/q\/([^/]+)$/);
+  if (q) return { page: 'question', id: decodeURIComponent(q[1]) };
+  const page = (Object.keys(PAGE_PATH) as Page[]).find(p => PAGE_PATH[p] === path);
+  return page ? { page } : { page: 'not_found' };
+}
+
+const NAVIGATE_EVENT = 'mca:navigate';
+
+/** 切換網址並通知 useLocation；replace 時不新增瀏覽紀錄 */
+export function navigate(to: string, opts: { replace?: boolean } = {}) {
+  if (to === location.pathname + location.search) return;
+  if (opts.replace) history.replaceState(null, '', to);
+  else history.pushState(null, '', to);
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+const subscribe = (cb: () => void) => {
+  window.addEventListener('popstate', cb);
+  window.addEventListener(NAVIGATE_EVENT, cb);
+  return () => {
+    window.removeEventListener('popstate', cb);
+    window.removeEventListener(NAVIGATE_EVENT, cb);
+  };
+};
+
+const snapshot = () => location.pathname + location.search;
+
+/** 目前的路徑與查詢字串；上一頁／下一頁與 navigate() 都會觸發重新渲染 */
+export function useLocation() {
+  const href = useSyncExternalStore(subscribe, snapshot);
+  const url = new URL(href, location.origin);
+  return { pathname: url.pathname, search: url.search };
+}
+
+/* ---------- 練習卷條件 ⇄ 查詢字串 ---------- */
+
+export const DEFAULT_SET_COUNT = 10;
+
+/**
+ * 網址上的練習卷：條件（給組卷表單預填）加上抽中的題目 id。
+ * 分享連結靠 ids 重現同一份卷，與開啟者已載入多少題目無關；seed 只有舊連結才有。
+ */
+export type SharedSet = PracticeSetCriteria & { seed?: number; ids?: string[] };
+
+/** ?unit=&lesson=&tags=a,b&difficulty=&count=&ids=a,b；沒有任何條件時回傳 null */
+export function criteriaFromSearch(search: string): SharedSet | null {
+  const p = new URLSearchParams(search);
+  if (!['unit', 'lesson', 'tags', 'difficulty', 'count'].some(k => p.has(k))) return null;
+  const difficulty = p.get('difficulty') ?? '';
+  const count = Number(p.get('count'));
+  const seed = Number(p.get('seed'));
+  const ids = (p.get('ids') ?? '').split(',').map(t => t.trim()).filter(Boolean).slice(0, 100);
+  return {
+    unit: p.get('unit') ?? '',
+    lesson: p.get('lesson') ?? '',
+    tags: (p.get('tags') ?? '').split(',').map(t => t.trim()).filter(Boolean),
+    difficulty: (DIFFICULTIES as string[]).includes(difficulty) ? (difficulty as Difficulty) : '',
+    count: Number.isInteger(count) && count > 0 ? Math.min(count, 100) : DEFAULT_SET_COUNT,
+    ...(Number.isInteger(seed) && seed > 0 ? { seed } : {}),
+    ...(ids.length ? { ids } : {}),
+  };
+}
+
+/** 只放有值的條件，網址保持簡短 */
+export function searchFromCriteria(c: SharedSet): string {
+  const p = new URLSearchParams();
+  if (c.unit) p.set('unit', c.unit);
+  if (c.lesson) p.set('lesson', c.lesson);
+  if (c.tags?.length) p.set('tags', c.tags.join(','));
+  if (c.difficulty) p.set('difficulty', c.difficulty);
+  p.set('count', String(c.count));
+  if (c.seed) p.set('seed', String(c.seed));
+  if (c.ids?.length) p.set('ids', c.ids.join(','));
+  return `?${p.toString()}`;
+}
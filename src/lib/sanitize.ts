@@ -0,0 +1,161 @@
+// src/lib/sanitize.ts
+// 題目 HTML 的白名單清理：只保留題目會用到的標記（.definition／.translation、data-id、
+// data-term、注音 ruby 與基本排版），移除 script、事件屬性與其他標籤。
+// 入庫時清理並回報移除了什麼；顯示時再清理一次，舊資料或繞過後台寫入的內容也不會執行。
+// 以 DOMParser 解析：產生的文件不會執行腳本，也不會載入圖片。
+// class 只留題目樣式用的幾個：頁面用 Tailwind CDN 即時產生樣式，任意 class（如 fixed inset-0 z-50）都能蓋住介面；
+// 圖片只能來自本站或專案的 Firebase Storage，外部圖片可以用來追蹤讀者。
+import type { QuestionDraft } from '../types/question';
+
+/** 保留的標籤 → 該標籤額外允許的屬性 */
+const ALLOWED_TAGS: Record<string, string[]> = {
+  p: [], div: [], span: [], br: [], hr: [],
+  b: [], strong: [], i: [], em: [], u: [], s: [], mark: [], small: [], sub: [], sup: [],
+  ruby: [], rb: [], rt: [], rp: [],
+  ul: [], ol: [], li: [], blockquote: [], h3: [], h4: [],
+  table: [], thead: [], tbody: [], tr: [], th: ['colspan', 'rowspan'], td: ['colspan', 'rowspan'],
+  img: ['src', 'alt', 'width', 'height'],
+  a: ['href'],
+};
+
+/** 題目內容可用的 class；其餘只接受 zh- 開頭（不會與 Tailwind 的 class 撞名） */
+const ALLOWED_CLASSES = new Set(['definition', 'translation']);
+const isContentClass = (c: string) => ALLOWED_CLASSES.has(c) || /^zh-[a-z0-9-]+$/.test(c);
+
+/** 所有保留標籤都可以有的屬性 */
+const GLOBAL_ATTRS = ['class', 'title', 'lang', 'data-id', 'data-term', 'data-start', 'data-end'];
+
+/** 連同內容整個移除的標籤；其他不在白名單的標籤只拿掉標籤、保留文字 */
+const DROP_WITH_CONTENT = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'template', 'noscript', 'svg', 'math', 'link', 'meta', 'base', 'form', 'input',
+  'button', 'select', 'textarea', 'audio', 'video', 'source', 'track', 'canvas',
+]);
+
+const SAFE_URL = /^(https?:|mailto:|\/|#)/i;
+const SAFE_IMG_DATA = /^data:image\/(png|jpe?g|gif|webp);/i;
+const STORAGE_BUCKET = import.meta.env.VITE_FB_STORAGE_BUCKET as string | undefined;
+
+function isSafeImg(src: string): boolean {
+  if (SAFE_IMG_DATA.test(src)) return true;
+  let url: URL;
+  try {
+    url = new URL(src, location.href);
+  } catch {
+    return false;
+  }
+  if (url.origin === location.origin) return true;
+  if (!STORAGE_BUCKET || url.protocol !== 'https:') return false;
+  return (url.host === 'firebasestorage.googleapis.com' && url.pathname.startsWith(`/v0/b/${STORAGE_BUCKET}/`))
+    || (url.host === 'storage.googleapis.com' && url.pathname.startsWith(`/${STORAGE_BUCKET}/`));
+}
+
+export interface SanitizeResult {
+  html: string;
+  removed: string[];   // 如「<script> ×1」「onclick 屬性 ×2」；沒有移除任何東西時為空陣列
+}
+
+function clean(html: string, removed: Map<string, number>): string {
+  const note = (key: string) => removed.set(key, (removed.get(key) ?? 0) + 1);
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+
+  const walk = (parent: Element) => {
+    [...parent.childNodes].forEach(node => {
+      if (node.nodeType === Node.COMMENT_NODE) {
+        node.remove();
+        return;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+      const el = node as Element;
+      const tag = el.tagName.toLowerCase();
+
+      if (DROP_WITH_CONTENT.has(tag)) {
+        note(`<${tag}>`);
+        el.remove();
+        return;
+      }
+      walk(el);
+      if (!(tag in ALLOWED_TAGS)) {
+        note(`<${tag}>`);
+        el.replaceWith(...el.childNodes);
+        return;
+      }
+
+      const allowed = [...GLOBAL_ATTRS, ...ALLOWED_TAGS[tag]];
+      [...el.attributes].forEach(attr => {
+        const name = attr.name.toLowerCase();
+        const value = attr.value.trim();
+        const ok = allowed.includes(name)
+          && !(name === 'href' && !SAFE_URL.test(value))
+          && !(name === 'src' && !isSafeImg(value));
+        if (!ok) {
+          note(name.startsWith('on') ? `${name} 事件屬性` : `${name} 屬性`);
+          el.removeAttribute(attr.name);
+          return;
+        }
+        if (name === 'class') {
+          const classes = value.split(/\s+/).filter(Boolean);
+          const kept = classes.filter(isContentClass);
+          if (kept.length === classes.length) return;
+          note('class 屬性');
+          if (kept.length) el.setAttribute('class', kept.join(' '));
+          else el.removeAttribute('class');
+        }
+      });
+      if (tag === 'a' && el.hasAttribute('href')) {
+        el.setAttribute('target', '_blank');
+        el.setAttribute('rel', 'noopener noreferrer');
+      }
+    });
+  };
+
+  walk(body);
+  return body.innerHTML;
+}
+
+const summarize = (removed: Map<string, number>) => [...removed].map(([k, n]) => `${k} ×${n}`);
+
+/** 清理並回報移除的標籤與屬性（入庫時使用） */
+export function sanitizeWithReport(html: string): SanitizeResult {
+  const removed = new Map<string, number>();
+  const out = clean(html, removed);
+  return { html: out, removed: summarize(removed) };
+}
+
+const RENDER_CACHE_LIMIT = 500;
+const renderCache = new Map<string, string>();
+
+/** 顯示前清理（結果快取，同一段 HTML 不重複解析） */
+export function sanitizeHtml(html: string | undefined): string {
+  if (!html) return '';
+  const hit = renderCache.get(html);
+  if (hit !== undefined) return hit;
+  const out = clean(html, new Map());
+  if (renderCache.size >= RENDER_CACHE_LIMIT) renderCache.delete(renderCache.keys().next().value!);
+  renderCache.set(html, out);
+  return out;
+}
+
+/** 清理題目中所有會以 HTML 顯示的欄位，回傳清理後的題目與移除清單（已合併計數） */
+export function sanitizeQuestion<Q extends QuestionDraft>(q: Q): { question: Q; removed: string[] } {
+  const removed = new Map<string, number>();
+  const s = (html: string) => clean(html, removed);
+  const opt = (html: string | undefined) => (html === undefined ? undefined : s(html));
+
+  let question: QuestionDraft;
+  if (q.type === 'reading') {
+    question = {
+      ...q,
+      passage: { ...q.passage, textHtml: s(q.passage.textHtml) },
+      items: q.items.map(it => ({ ...it, stem: s(it.stem), options: it.options.map(s), explanation: opt(it.explanation) })),
+      explanation: opt(q.explanation),
+    };
+  } else {
+    question = { ...q, title: s(q.title), options: q.options.map(s), explanation: opt(q.explanation) };
+  }
+  if (question.explanation === undefined) delete question.explanation;
+  if (question.type === 'reading') {
+    question.items.forEach(it => { if (it.explanation === undefined) delete it.explanation; });
+  }
+  return { question: question as Q, removed: summarize(removed) };
+}
@@ -0,0 +1,68 @@
+// src/lib/scoring.ts
+// 計分規則：多選題可設定全對才給分、學測部分給分或逐選項給分。
+// 分數一律以 0–1 的比例表示，呼叫端再乘上配分。
+import type { Question, ScoringRule } from '../types/question';
+import { normalizeChoiceArray } from './grading';
+
+export type { ScoringRule };
+
+export const SCORING_RULES: ScoringRule[] = ['gsat_partial', 'all_or_nothing', 'per_option'];
+
+export const SCORING_RULE_LABEL: Record<ScoringRule, string> = {
+  all_or_nothing: '全對才給分',
+  gsat_partial: '學測部分給分',
+  per_option: '逐選項給分',
+};
+
+/** 題目與考卷都沒有指定時的多選計分方式 */
+export const DEFAULT_SCORING: ScoringRule = 'gsat_partial';
+
+/** 考卷設定優先，其次是題目本身的設定 */
+export const resolveRule = (question?: Pick<Question, 'scoring'>, examRule?: ScoringRule): ScoringRule =>
+  examRule ?? question?.scoring ?? DEFAULT_SCORING;
+
+/** 選錯的選項數：該選未選、不該選卻選都算一個 */
+export function wrongOptionCount(chosen: string[], correct: string[], optionCount: number): number {
+  const c = new Set(correct);
+  const s = new Set(chosen);
+  let k = 0;
+  for (let i = 0; i < optionCount; i++) {
+    const letter = String.fromCharCode(65 + i);
+    if (c.has(letter) !== s.has(letter)) k++;
+  }
+  return k;
+}
+
+/**
+ * 多選題得分比例。未作答一律 0 分。
+ * - all_or_nothing：完全正確 1，否則 0
+ * - gsat_partial：n 個選項錯 k 個，得 (n − 2k) / n，最低 0（學測規則）
+ * - per_option：每個選項獨立計分，得 (n − k) / n
+ */
+export function scoreMulti(chosen: string[], correct: string[], optionCount: number, rule: ScoringRule): number {
+  const picked = normalizeChoiceArray(chosen);
+  if (picked.length === 0 || optionCount <= 0) return 0;
+  const k = wrongOptionCount(picked, correct, optionCount);
+  switch (rule) {
+    case 'all_or_nothing': return k === 0 ? 1 : 0;
+    case 'gsat_partial':   return Math.max(0, (optionCount - 2 * k) / optionCount);
+    case 'per_option':     return (optionCount - k) / optionCount;
+  }
+}
+
+/** 單選只有對錯；多選依規則計分 */
+export function scoreChoice(
+  chosen: string | string[],
+  correct: string | string[],
+  optionCount: number,
+  rule: ScoringRule = DEFAULT_SCORING,
+): number {
+  if (!Array.isArray(correct)) {
+    const pick = Array.isArray(chosen) ? chosen[0] : chosen;
+    return pick && pick === correct ? 1 : 0;
+  }
+  return scoreMulti(Array.isArray(chosen) ? chosen : chosen ? [chosen] : [], correct, optionCount, rule);
+}
+
+/** 顯示用：1 → 「全對」，0.6 → 「60%」 */
+export const formatScore = (score: number) => (score >= 1 ? '全對' : `${Math.round(score * 100)}%`);
@@ -0,0 +1,142 @@
+// src/lib/speech.ts
+// 朗讀：以 speechSynthesis 逐句播放，方便標示目前的句子與暫停／跳句。
+// 同一時間只有一個朗讀在進行，開始新的朗讀會停止前一個。
+import type { ReadAloudSettings } from '../types/preferences';
+import { htmlToSpeechText } from './html';
+import { optionLetter } from './grading';
+
+export interface SpeechSegment {
+  text: string;
+  classical?: boolean;   // 文言文：啟用慢速模式時放慢並加長句間停頓
+}
+
+export const speechAvailable = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+export const CLASSICAL_RATE_FACTOR = 0.7;
+const CLASSICAL_PAUSE_MS = 600;
+const SENTENCE_RE = /[^。！？；!?;\n]+[。！？；!?;」』）)]*|[\n]+/g;
+
+/** 依句末標點切句（保留標點，去掉空白句） */
+export function splitSentences(text: string): string[] {
+  return (text.match(SENTENCE_RE) ?? []).map(s => s.trim()).filter(Boolean);
+}
+
+// 常見文言虛詞；比例夠高就當作文言文
+const CLASSICAL_PARTICLES = /[之乎者也矣焉哉兮其而於曰蓋夫乃耳歟邪]/g;
+
+/** 題目標籤含「文言」，或文字中文言虛詞比例偏高 */
+export function looksClassical(text: string, tags: string[] = []): boolean {
+  if (tags.some(t => t.includes('文言'))) return true;
+  const han = text.match(/\p{Script=Han}/gu)?.length ?? 0;
+  if (han < 20) return false;
+  return (text.match(CLASSICAL_PARTICLES)?.length ?? 0) / han >= 0.06;
+}
+
+/** 題幹逐句、選項各一句；prefix 為題號等開頭（如「3.」） */
+export function questionSegments(stemHtml: string, options: string[], opts: { prefix?: string; tags?: string[] } = {}): SpeechSegment[] {
+  const stem = htmlToSpeechText(stemHtml);
+  const optionTexts = options.map(htmlToSpeechText);
+  const classical = looksClassical([stem, ...optionTexts].join(''), opts.tags);
+  const stemSentences = splitSentences(stem);
+  if (opts.prefix && stemSentences.length) stemSentences[0] = `${opts.prefix} ${stemSentences[0]}`;
+  return [
+    ...stemSentences.map(text => ({ text, classical })),
+    ...optionTexts.map((t, i) => ({ text: `選項 ${optionLetter(i)}：${t}`, classical })),
+  ];
+}
+
+/** 文章：標題一句，內文逐句 */
+export function passageSegments(title: string, textHtml: string, tags?: string[]): SpeechSegment[] {
+  const body = htmlToSpeechText(textHtml);
+  const classical = looksClassical(body, tags);
+  return [{ text: htmlToSpeechText(title) }, ...splitSentences(body).map(text => ({ text, classical }))];
+}
+
+/** 瀏覽器的中文語音；部分瀏覽器要等 voiceschanged 才拿得到清單 */
+export function chineseVoices(): Promise<SpeechSynthesisVoice[]> {
+  if (!speechAvailable()) return Promise.resolve([]);
+  const pick = () => speechSynthesis.getVoices().filter(v => /^(zh|cmn|yue)/i.test(v.lang));
+  const now = pick();
+  if (now.length) return Promise.resolve(now);
+  return new Promise(resolve => {
+    const done = () => { speechSynthesis.removeEventListener('voiceschanged', done); resolve(pick()); };
+    speechSynthesis.addEventListener('voiceschanged', done);
+    setTimeout(done, 1500);
+  });
+}
+
+export interface ReaderCallbacks {
+  onIndex: (index: number) => void;   // 開始念第 index 句
+  onEnd: () => void;                  // 念完、被停止或被其他朗讀取代
+}
+
+export interface Reader {
+  pause(): void;
+  resume(): void;
+  /** 跳到相對目前的第 delta 句（-1 上一句、1 下一句） */
+  skip(delta: number): void;
+  stop(): void;
+}
+
+let active: { stop: () => void } | null = null;
+
+/** 開始逐句朗讀 */
+export function startReading(segments: SpeechSegment[], settings: ReadAloudSettings, cb: ReaderCallbacks): Reader {
+  active?.stop();
+  const synth = window.speechSynthesis;
+  const voice = synth.getVoices().find(v => v.voiceURI === settings.voiceURI);
+  let index = 0;
+  let token = 0;          // 每次重新開始念一句就加一，讓被 cancel 的舊句子的 onend 失效
+  let timer: number | undefined;
+  let finished = false;
+
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    token++;
+    window.clearTimeout(timer);
+    synth.cancel();
+    if (active === self) active = null;
+    cb.onEnd();
+  };
+
+  const speak = (i: number) => {
+    window.clearTimeout(timer);
+    if (i < 0 || i >= segments.length) return finish();
+    index = i;
+    const my = ++token;
+    synth.cancel();
+    const seg = segments[i];
+    const slow = settings.classicalSlow && seg.classical;
+    const u = new SpeechSynthesisUtterance(seg.text);
+    u.lang = voice?.lang ?? 'zh-TW';
+    if (voice) u.voice = voice;
+    u.rate = settings.rate * (slow ? CLASSICAL_RATE_FACTOR : 1);
+    u.pitch = settings.pitch;
+    u.onend = () => {
+      if (my !== token) return;
+      timer = window.setTimeout(() => speak(index + 1), slow ? CLASSICAL_PAUSE_MS : 0);
+    };
+    u.onerror = e => {
+      if (my !== token || e.error === 'interrupted' || e.error === 'canceled') return;
+      console.error('朗讀失敗', e.error);
+      finish();
+    };
+    cb.onIndex(i);
+    synth.speak(u);
+  };
+
+  const self = { stop: finish };
+  active = self;
+  speak(0);
+
+  return {
+    pause: () => synth.pause(),
+    resume: () => synth.resume(),
+    skip: delta => {
+      synth.resume();
+      speak(Math.max(0, index + delta));
+    },
+    stop: finish,
+  };
+}
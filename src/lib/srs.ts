@@ -0,0 +1,86 @@
+// src/lib/srs.ts
+// 間隔重複排程（SM-2）：每位使用者、每題（閱讀題組則為每小題）一張複習卡。
+
+/** SM-2 的作答品質：0（完全不會）～ 5（輕鬆答對），3 以上視為記得 */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewCard {
+  questionId: string;
+  subItemId?: string;
+  ease: number;        // 難易係數（≥ 1.3）
+  interval: number;    // 目前間隔（天）
+  repetitions: number; // 連續答對次數
+  lapses: number;      // 遺忘（答錯）次數
+  due: Date;           // 下次複習日
+  lastReviewedAt?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const INITIAL_EASE = 2.5;
+
+/** 複習卡的文件 ID：單選/多選用題目 ID，閱讀題組加上小題 ID */
+export const cardIdOf = (questionId: string, subItemId?: string): string =>
+  subItemId ? `${questionId}__${subItemId}` : questionId;
+
+export const newCard = (questionId: string, subItemId?: string, now = new Date()): ReviewCard => ({
+  questionId,
+  ...(subItemId ? { subItemId } : {}),
+  ease: INITIAL_EASE,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: now,
+});
+
+/** 答對時依提示等級給的作答品質；答對一律 ≥ 3，不會算成遺忘 */
+const CORRECT_GRADE_BY_HINT: ReviewGrade[] = [4, 3, 3, 3];
+
+/** 靠提示才答對時額外調降的難易係數：之後的間隔拉長得比較慢，但連續答對次數照算 */
+const CORRECT_EASE_PENALTY_BY_HINT = [0, 0, 0.1, 0.2];
+
+export const gradeFromResult = (isCorrect: boolean, hintLevel = 0): ReviewGrade =>
+  isCorrect ? CORRECT_GRADE_BY_HINT[Math.min(Math.max(hintLevel, 0), CORRECT_GRADE_BY_HINT.length - 1)] : 1;
+
+/** 依作答品質計算下一張卡（不修改原卡） */
+export function scheduleReview(card: ReviewCard, grade: ReviewGrade, now = new Date()): ReviewCard {
+  let { ease, interval, repetitions, lapses } = card;
+
+  if (grade < 3) {
+    // 答錯：重新開始，隔天再複習；原本已記住的才算一次遺忘
+    if (repetitions > 0) lapses += 1;
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round(interval * ease);
+  }
+
+  ease = Math.max(MIN_EASE, ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+
+  return {
+    ...card,
+    ease: Number(ease.toFixed(2)),
+    interval,
+    repetitions,
+    lapses,
+    due: new Date(now.getTime() + interval * DAY_MS),
+    lastReviewedAt: now,
+  };
+}
+
+/** 一次作答後的新卡：沒有舊卡時先建立再排程 */
+export function reviewAfterAttempt(
+  card: ReviewCard | null,
+  questionId: string,
+  subItemId: string | undefined,
+  isCorrect: boolean,
+  hintLevel = 0,
+  now = new Date(),
+): ReviewCard {
+  const next = scheduleReview(card ?? newCard(questionId, subItemId, now), gradeFromResult(isCorrect, hintLevel), now);
+  const penalty = isCorrect ? CORRECT_EASE_PENALTY_BY_HINT[Math.min(Math.max(hintLevel, 0), CORRECT_EASE_PENALTY_BY_HINT.length - 1)] : 0;
+  return penalty ? { ...next, ease: Number(Math.max(MIN_EASE, next.ease - penalty).toFixed(2)) } : next;
+}
@@ -0,0 +1,171 @@
+// src/lib/stats.ts
+// 學習分析的彙總資料：每次作答時增量更新一份摘要（users/{uid}/stats/summary），
+// 分析頁只讀這份摘要，不必每次下載全部作答紀錄。
+import type { Question } from '../types/question';
+import type { AttemptInput, HistoryEntry } from './storage';
+import { cardIdOf } from './srs';
+
+export const STATS_VERSION = 1;
+
+export interface Tally {
+  attempts: number;
+  correct: number;   // 完全答對
+  score: number;     // 得分比例加總（含部分給分）
+}
+
+export interface LearningStats {
+  version: number;
+  total: Tally;
+  byType: Record<string, Tally>;
+  byTag: Record<string, Tally>;
+  byLesson: Record<string, Tally>;
+  byDifficulty: Record<string, Tally>;
+  byDay: Record<string, Tally>;          // 'YYYY-MM-DD'（本地時間）
+  distractors: Record<string, number>;   // 「複習卡 id|選項字母」→ 選錯次數
+  updatedAt?: Date;
+}
+
+export const emptyTally = (): Tally => ({ attempts: 0, correct: 0, score: 0 });
+
+export const emptyStats = (): LearningStats => ({
+  version: STATS_VERSION,
+  total: emptyTally(),
+  byType: {},
+  byTag: {},
+  byLesson: {},
+  byDifficulty: {},
+  byDay: {},
+  distractors: {},
+});
+
+export const dayKey = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const add = (t: Tally | undefined, correct: boolean, score: number): Tally => ({
+  attempts: (t?.attempts ?? 0) + 1,
+  correct: (t?.correct ?? 0) + (correct ? 1 : 0),
+  score: Math.round(((t?.score ?? 0) + score) * 1000) / 1000,
+});
+
+const bump = (map: Record<string, Tally>, key: string | undefined, correct: boolean, score: number) =>
+  key ? { ...map, [key]: add(map[key], correct, score) } : map;
+
+/** 題目的正確選項（閱讀題組取小題） */
+function correctLetters(q: Question | null, subItemId?: string): string[] | null {
+  if (!q) return null;
+  if (q.type === 'single_choice') return [q.correctAnswer];
+  if (q.type === 'multi_select') return q.correctAnswers;
+  const item = q.items.find(i => i.id === subItemId);
+  if (!item) return null;
+  return item.subtype === 'multi_select' ? item.correctAnswers ?? [] : item.answer ? [item.answer] : [];
+}
+
+/** 把一次作答加進摘要（不修改原物件）；題目已刪除時只計入題型與日期 */
+export function applyAttempt(stats: LearningStats, attempt: AttemptInput, question: Question | null, at: Date): LearningStats {
+  const ok = attempt.isCorrect;
+  const score = attempt.score ?? (ok ? 1 : 0);
+  const meta = question?.meta;
+
+  let byTag = stats.byTag;
+  (meta?.tags ?? []).forEach(t => { byTag = bump(byTag, t, ok, score); });
+
+  let distractors = stats.distractors;
+  const correct = correctLetters(question, attempt.subItemId);
+  if (correct) {
+    const chosen = Array.isArray(attempt.chosen) ? attempt.chosen : [attempt.chosen];
+    chosen.filter(c => c && !correct.includes(c)).forEach(c => {
+      const key = `${cardIdOf(attempt.questionId, attempt.subItemId)}|${c}`;
+      distractors = { ...distractors, [key]: (distractors[key] ?? 0) + 1 };
+    });
+  }
+
+  return {
+    version: STATS_VERSION,
+    total: add(stats.total, ok, score),
+    byType: bump(stats.byType, attempt.type, ok, score),
+    byTag,
+    byLesson: bump(stats.byLesson, meta?.lesson, ok, score),
+    byDifficulty: bump(stats.byDifficulty, meta?.difficulty, ok, score),
+    byDay: bump(stats.byDay, dayKey(at), ok, score),
+    distractors,
+    updatedAt: at,
+  };
+}
+
+/** 從全部作答紀錄重建摘要：只在還沒有摘要的舊帳號第一次進入分析頁時使用 */
+export function rebuildStats(history: HistoryEntry[], questions: Question[]): LearningStats {
+  const byId = new Map(questions.map(q => [q.id, q]));
+  return [...history]
+    .sort((a, b) => (a.timestamp?.getTime() ?? 0) - (b.timestamp?.getTime() ?? 0))
+    .reduce((s, h) => applyAttempt(s, h, byId.get(h.questionId) ?? null, h.timestamp ?? new Date()), emptyStats());
+}
+
+/* ---------- 分析頁用的衍生資料 ---------- */
+
+export const rateOf = (t: Tally) => (t.attempts ? t.score / t.attempts : 0);
+
+export interface TrendPoint {
+  label: string;
+  rate: number;
+  attempts: number;
+}
+
+/** 最近 days 天的每日得分率（沒有作答的日子 attempts 為 0） */
+export function dailyTrend(stats: LearningStats, days = 14, now = new Date()): TrendPoint[] {
+  return Array.from({ length: days }, (_, i) => {
+    const d = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1 - i));
+    const t = stats.byDay[dayKey(d)] ?? emptyTally();
+    return { label: `${d.getMonth() + 1}/${d.getDate()}`, rate: rateOf(t), attempts: t.attempts };
+  });
+}
+
+/** 最近 weeks 週的每週得分率（週一為一週的開始） */
+export function weeklyTrend(stats: LearningStats, weeks = 8, now = new Date()): TrendPoint[] {
+  const monday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - ((now.getDay() + 6) % 7));
+  return Array.from({ length: weeks }, (_, i) => {
+    const start = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() - 7 * (weeks - 1 - i));
+    let t = emptyTally();
+    for (let j = 0; j < 7; j++) {
+      const day = stats.byDay[dayKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + j))];
+      if (day) t = { attempts: t.attempts + day.attempts, correct: t.correct + day.correct, score: t.score + day.score };
+    }
+    return { label: `${start.getMonth() + 1}/${start.getDate()}`, rate: rateOf(t), attempts: t.attempts };
+  });
+}
+
+export interface WeakConcept {
+  kind: '標籤' | '課次';
+  name: string;
+  tally: Tally;
+}
+
+/** 得分率最低的標籤與課次；作答次數太少的不列入 */
+export function weakestConcepts(stats: LearningStats, max = 5, minAttempts = 3): WeakConcept[] {
+  const all: WeakConcept[] = [
+    ...Object.entries(stats.byTag).map(([name, tally]) => ({ kind: '標籤' as const, name, tally })),
+    ...Object.entries(stats.byLesson).map(([name, tally]) => ({ kind: '課次' as const, name, tally })),
+  ];
+  return all
+    .filter(c => c.tally.attempts >= minAttempts)
+    .sort((a, b) => rateOf(a.tally) - rateOf(b.tally) || b.tally.attempts - a.tally.attempts)
+    .slice(0, max);
+}
+
+export interface Distractor {
+  questionId: string;
+  subItemId?: string;
+  letter: string;
+  count: number;
+}
+
+/** 最常被選的錯誤選項 */
+export function topDistractors(stats: LearningStats, max = 5): Distractor[] {
+  return Object.entries(stats.distractors)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, max)
+    .map(([key, count]) => {
+      const [card, letter] = key.split('|');
+      const [questionId, subItemId] = card.split('__');
+      return { questionId, ...(subItemId ? { subItemId } : {}), letter, count };
+    });
+}
@@ -0,0 +1,687 @@
+// src/lib/storage/firestore.ts
+import {
+  onAuthStateChanged,
+  createUserWithEmailAndPassword,
+  signInWithEmailAndPassword,
+  signOut,
+  type Auth,
+} from 'firebase/auth';
+import {
+  collection,
+  addDoc,
+  doc,
+  getDoc,
+  getDocs,
+  getCountFromServer,
+  updateDoc,
+  setDoc,
+  deleteDoc,
+  deleteField,
+  arrayUnion,
+  arrayRemove,
+  query,
+  orderBy,
+  where,
+  limit,
+  startAfter,
+  documentId,
+  runTransaction,
+  writeBatch,
+  serverTimestamp,
+  Timestamp,
+  type DocumentData,
+  type DocumentSnapshot,
+  type Firestore,
+} from 'firebase/firestore';
+import { cardIdOf, reviewAfterAttempt, type ReviewCard } from '../srs';
+import { parseQuestion, parseQuestionDocs, questionContent, stripUndefined, toDate } from '../question-schema';
+import { diffQuestions } from '../question-diff';
+import { attemptFromExamItem } from '../exam';
+import { applyAttempt, rebuildStats, type LearningStats } from '../stats';
+import { applyToMistake, mistakeId, rebuildMistakes, type MistakeEntry } from '../mistakes';
+import { canPurge, TRASH_RETENTION_DAYS } from '../trash';
+import { QUESTION_SCHEMA_VERSION, type QuestionDraft, type QuestionRevision } from '../../types/question';
+import { generateJoinCode } from '../classroom';
+import { resultFromAttempt } from '../assignment';
+import type { ExamSession } from '../../types/exam';
+import type { Classroom, ClassMember } from '../../types/classroom';
+import type { Assignment, AssignmentResult, AssignmentSubmission } from '../../types/assignment';
+import type { UserPreferences } from '../../types/preferences';
+import type { GlossaryTerm } from '../../types/glossary';
+import type {
+  AssignmentRepository,
+  ClassRepository,
+  ExamRepository,
+  GlossaryRepository,
+  HistoryEntry,
+  HistoryRepository,
+  Storage,
+} from './types';
+
+const cardToDoc = (card: ReviewCard): DocumentData => ({
+  ...card,
+  due: Timestamp.fromDate(card.due),
+  ...(card.lastReviewedAt ? { lastReviewedAt: Timestamp.fromDate(card.lastReviewedAt) } : {}),
+});
+
+const cardFromDoc = (data: DocumentData): ReviewCard => ({
+  ...(data as ReviewCard),
+  due: (data.due as Timestamp).toDate(),
+  lastReviewedAt: data.lastReviewedAt ? (data.lastReviewedAt as Timestamp).toDate() : undefined,
+});
+
+const statsFromDoc = (data: DocumentData): LearningStats => ({
+  ...(data as LearningStats),
+  updatedAt: toDate(data.updatedAt),
+});
+
+const mistakeFromDoc = (data: DocumentData): MistakeEntry => ({
+  ...(data as MistakeEntry),
+  firstWrongAt: toDate(data.firstWrongAt) ?? new Date(0),
+  lastWrongAt: toDate(data.lastWrongAt) ?? new Date(0),
+  masteredAt: toDate(data.masteredAt),
+});
+
+const classFromDoc = (id: string, data: DocumentData): Classroom => ({
+  id,
+  name: data.name,
+  teacherId: data.teacherId,
+  teacherEmail: data.teacherEmail ?? null,
+  createdAt: toDate(data.createdAt),
+});
+
+const assignmentFromDoc = (id: string, data: DocumentData): Assignment => ({
+  id,
+  classId: data.classId,
+  teacherId: data.teacherId,
+  title: data.title,
+  questionIds: data.questionIds ?? [],
+  opensAt: toDate(data.opensAt) ?? new Date(0),
+  dueAt: toDate(data.dueAt) ?? new Date(0),
+  createdAt: toDate(data.createdAt),
+});
+
+const submissionFromDoc = (data: DocumentData): AssignmentSubmission => ({
+  userId: data.userId,
+  email: data.email ?? null,
+  results: Object.fromEntries(Object.entries((data.results ?? {}) as Record<string, DocumentData>)
+    .map(([key, r]) => [key, { ...(r as AssignmentResult), answeredAt: toDate(r.answeredAt) }])),
+  submittedAt: toDate(data.submittedAt),
+  updatedAt: toDate(data.updatedAt),
+});
+
+/** 覆寫題目內容時保留的系統欄位 */
+const SYSTEM_FIELDS = ['createdAt', 'archived', 'archivedAt', 'archivedBy'];
+
+const BATCH_SIZE = 400; // 單一 batch 上限 500 筆，保留餘裕
+
+/** Firestore 的 'in' 查詢一次最多 30 個值 */
+const chunk = <T>(arr: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(arr.length / size) }, (_, i) => arr.slice(i * size, i * size + size));
+
+export function createFirestoreStorage(db: Firestore, auth: Auth): Storage {
+  const questionsCol = collection(db, 'questions');
+  const historyCol = (userId: string) => collection(db, 'users', userId, 'history');
+  const cardsCol = (userId: string) => collection(db, 'users', userId, 'reviewCards');
+  const revisionsCol = (questionId: string) => collection(db, 'questions', questionId, 'revisions');
+  const examsCol = (userId: string) => collection(db, 'users', userId, 'examSessions');
+  const statsRef = (userId: string) => doc(db, 'users', userId, 'stats', 'summary');
+  const mistakesCol = (userId: string) => collection(db, 'users', userId, 'mistakes');
+  // 錯題本建立的標記：沒有這份文件代表還沒由舊作答紀錄重建過
+  const mistakesIndexRef = (userId: string) => doc(db, 'users', userId, 'stats', 'mistakes');
+  // 使用者基本資料：Email（老師名單、班級名冊用）與 teacherIds（安全規則據此開放老師讀取作答紀錄）
+  const profileRef = (userId: string) => doc(db, 'users', userId);
+  const preferencesRef = (userId: string) => doc(db, 'users', userId, 'settings', 'preferences');
+  const classesCol = collection(db, 'classes');
+  const membersCol = (classId: string) => collection(db, 'classes', classId, 'members');
+  const enrollmentsCol = (userId: string) => collection(db, 'users', userId, 'enrollments');
+  const joinCodeRef = (code: string) => doc(db, 'joinCodes', code);
+  const assignmentsCol = (classId: string) => collection(db, 'classes', classId, 'assignments');
+  const glossaryCol = collection(db, 'glossary');
+  const submissionRef = (a: Pick<Assignment, 'id' | 'classId'>, userId: string) =>
+    doc(db, 'classes', a.classId, 'assignments', a.id, 'submissions', userId);
+
+  const getMany = async (ids: string[]) => {
+    const snaps = await Promise.all(
+      chunk(ids, 30).map(part => getDocs(query(questionsCol, where(documentId(), 'in', part)))),
+    );
+    return snaps.flatMap(s => parseQuestionDocs(s.docs));
+  };
+
+  const getQuestion = async (id: string) => {
+    const snap = await getDoc(doc(questionsCol, id));
+    return snap.exists() ? parseQuestionDocs([snap])[0] ?? null : null;
+  };
+
+  const existingIds = async (ids: string[]) => {
+    const snaps = await Promise.all(
+      chunk(ids, 30).map(part => getDocs(query(questionsCol, where(documentId(), 'in', part)))),
+    );
+    return snaps.flatMap(s => s.docs.map(d => d.id));
+  };
+
+  const history: HistoryRepository = {
+    async recordAttempt(userId, attempt) {
+      const { subItemId, questionTitle, attemptId, answeredAt, ...rest } = attempt;
+      const historyRef = attemptId ? doc(historyCol(userId), attemptId) : doc(historyCol(userId));
+      const cardId = cardIdOf(attempt.questionId, subItemId);
+      const ref = doc(cardsCol(userId), cardId);
+      const mistakeRef = doc(mistakesCol(userId), cardId);
+      const question = await getQuestion(attempt.questionId).catch(() => null);
+      // 作答紀錄與複習卡、摘要、錯題本在同一個交易寫入；紀錄已存在代表這筆先前已送達
+      return runTransaction(db, async tx => {
+        const now = answeredAt ?? new Date();
+        const existing = await tx.get(historyRef);
+        const snap = await tx.get(ref);
+        const current = snap.exists() ? cardFromDoc(snap.data()) : null;
+        if (existing.exists()) {
+          return current ?? reviewAfterAttempt(null, attempt.questionId, subItemId, attempt.isCorrect, attempt.hintLevel, now);
+        }
+        const statsSnap = await tx.get(statsRef(userId));
+        const mistakeSnap = await tx.get(mistakeRef);
+        tx.set(historyRef, {
+          ...rest,
+          ...(subItemId ? { subItemId } : {}),
+          ...(questionTitle ? { questionTitle } : {}),
+          score: attempt.score ?? (attempt.isCorrect ? 1 : 0),
+          hintLevel: attempt.hintLevel ?? 0,
+          timestamp: answeredAt ? Timestamp.fromDate(answeredAt) : serverTimestamp(),
+        });
+        const next = reviewAfterAttempt(
+          current, attempt.questionId, subItemId, attempt.isCorrect, attempt.hintLevel, now,
+        );
+        tx.set(ref, cardToDoc(next));
+        // 摘要還不存在時不建立，留待 stats() 由完整作答紀錄重建
+        if (statsSnap.exists()) {
+          tx.set(statsRef(userId), applyAttempt(statsFromDoc(statsSnap.data()), attempt, question, now));
+        }
+        const mistake = applyToMistake(mistakeSnap.exists() ? mistakeFromDoc(mistakeSnap.data()) : null, attempt, now);
+        if (mistake) tx.set(mistakeRef, stripUndefined(mistake));
+        return next;
+      });
+    },
+    async listAttempts(userId) {
+      const snap = await getDocs(historyCol(userId));
+      return snap.docs.map(d => {
+        const data = d.data();
+        return {
+          ...data,
+          id: d.id,
+          score: data.score ?? (data.isCorrect ? 1 : 0), // 舊紀錄沒有分數
+          hintLevel: data.hintLevel ?? 0,
+          timestamp: toDate(data.timestamp),
+        } as HistoryEntry;
+      });
+    },
+    async dueCards(userId, max, now = new Date()) {
+      const qy = query(
+        cardsCol(userId),
+        where('due', '<=', Timestamp.fromDate(now)),
+        orderBy('due'),
+        limit(max),
+      );
+      return (await getDocs(qy)).docs.map(d => cardFromDoc(d.data()));
+    },
+    async dueCount(userId, now = new Date()) {
+      const snap = await getCountFromServer(query(cardsCol(userId), where('due', '<=', Timestamp.fromDate(now))));
+      return snap.data().count;
+    },
+    async stats(userId) {
+      const snap = await getDoc(statsRef(userId));
+      if (snap.exists()) return statsFromDoc(snap.data());
+
+      const attempts = await history.listAttempts(userId);
+      const questions = await getMany([...new Set(attempts.map(h => h.questionId))]);
+      const rebuilt = rebuildStats(attempts, questions);
+      await runTransaction(db, async tx => {
+        if (!(await tx.get(statsRef(userId))).exists()) tx.set(statsRef(userId), rebuilt);
+      });
+      return rebuilt;
+    },
+    async listMistakes(userId) {
+      if (!(await getDoc(mistakesIndexRef(userId))).exists()) {
+        const rebuilt = rebuildMistakes(await history.listAttempts(userId));
+        for (const part of chunk(rebuilt, BATCH_SIZE)) {
+          const batch = writeBatch(db);
+          part.forEach(m => batch.set(doc(mistakesCol(userId), mistakeId(m)), stripUndefined(m)));
+          await batch.commit();
+        }
+        await setDoc(mistakesIndexRef(userId), { indexedAt: serverTimestamp() });
+      }
+      const snap = await getDocs(query(mistakesCol(userId), orderBy('lastWrongAt', 'desc')));
+      return snap.docs.map(d => mistakeFromDoc(d.data()));
+    },
+  };
+
+  // 模擬考紀錄先寫入，各題作答再帶上紀錄 id 寫進 history（與一般作答一樣更新複習卡）
+  const exams: ExamRepository = {
+    async save(userId, session, id) {
+      const ref = id ? doc(examsCol(userId), id) : doc(examsCol(userId));
+      await setDoc(ref, {
+        ...stripUndefined(session),
+        startedAt: Timestamp.fromDate(session.startedAt),
+        finishedAt: Timestamp.fromDate(session.finishedAt),
+      });
+      // 逐筆寫入：每筆都會更新同一份分析摘要，並行的交易會互相衝突
+      // attemptId 由紀錄 id 與題序組成，重送時已寫過的題目會略過
+      for (const [i, item] of session.items.entries()) {
+        await history.recordAttempt(userId, {
+          ...attemptFromExamItem(item, ref.id), attemptId: `${ref.id}-${i}`, answeredAt: session.finishedAt,
+        });
+      }
+      return ref.id;
+    },
+    async list(userId, max = 20) {
+      const snap = await getDocs(query(examsCol(userId), orderBy('finishedAt', 'desc'), limit(max)));
+      return snap.docs.map(d => {
+        const data = d.data();
+        return { ...data, id: d.id, startedAt: toDate(data.startedAt), finishedAt: toDate(data.finishedAt) } as ExamSession;
+      });
+    },
+  };
+
+  // 加入代碼只存在 joinCodes/{code}：學生憑代碼找到班級，班級文件本身不帶代碼，
+  // 被移出的學生即使還讀得到班級，也拿不到新代碼
+  const claimJoinCode = async (classId: string, teacherId: string, previous?: string): Promise<string> => {
+    for (;;) {
+      const code = generateJoinCode();
+      const claimed = await runTransaction(db, async tx => {
+        if ((await tx.get(joinCodeRef(code))).exists()) return false;
+        tx.set(joinCodeRef(code), { classId, teacherId });
+        if (previous) tx.delete(joinCodeRef(previous));
+        tx.set(doc(classesCol, classId), { joinCode: deleteField() }, { merge: true });   // 清掉舊版存在班級文件上的代碼
+        return true;
+      });
+      if (claimed) return code;
+    }
+  };
+
+  /** 老師名下各班級目前的加入代碼（classId → code） */
+  const ownedJoinCodes = async (teacherId: string) => {
+    const snap = await getDocs(query(collection(db, 'joinCodes'), where('teacherId', '==', teacherId)));
+    return new Map(snap.docs.map(d => [d.data().classId as string, d.id]));
+  };
+
+  const classes: ClassRepository = {
+    async listOwned(teacherId) {
+      const [snap, codes] = await Promise.all([
+        getDocs(query(classesCol, where('teacherId', '==', teacherId))),
+        ownedJoinCodes(teacherId),
+      ]);
+      return snap.docs
+        .map(d => ({ ...classFromDoc(d.id, d.data()), joinCode: codes.get(d.id) }))
+        .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+    },
+    async listJoined(userId) {
+      const snap = await getDocs(enrollmentsCol(userId));
+      const found = await Promise.all(snap.docs.map(d => getDoc(doc(classesCol, d.id))));
+      return found.filter(s => s.exists()).map(s => classFromDoc(s.id, s.data()!));
+    },
+    async create(name, teacher) {
+      const ref = doc(classesCol);
+      await setDoc(ref, { name, teacherId: teacher.uid, teacherEmail: teacher.email, createdAt: serverTimestamp() });
+      const joinCode = await claimJoinCode(ref.id, teacher.uid);
+      return { id: ref.id, name, teacherId: teacher.uid, teacherEmail: teacher.email, joinCode, createdAt: new Date() };
+    },
+    async regenerateCode(classId) {
+      const snap = await getDoc(doc(classesCol, classId));
+      if (!snap.exists()) throw new Error('找不到這個班級。');
+      const current = classFromDoc(snap.id, snap.data());
+      const previous = (await ownedJoinCodes(current.teacherId)).get(classId);
+      return claimJoinCode(classId, current.teacherId, previous);
+    },
+    async join(code, student) {
+      const codeSnap = await getDoc(joinCodeRef(code));
+      if (!codeSnap.exists()) throw new Error('找不到這個班級代碼，請向老師確認。');
+      const { classId, teacherId } = codeSnap.data() as { classId: string; teacherId: string };
+
+      const batch = writeBatch(db);
+      // joinCode 留在成員文件裡，安全規則用來確認學生是憑有效代碼加入
+      batch.set(doc(membersCol(classId), student.uid), {
+        uid: student.uid, email: student.email, joinCode: code, joinedAt: serverTimestamp(),
+      });
+      batch.set(doc(enrollmentsCol(student.uid), classId), { teacherId, joinedAt: serverTimestamp() });
+      batch.set(profileRef(student.uid), { email: student.email, teacherIds: arrayUnion(teacherId) }, { merge: true });
+      await batch.commit();
+
+      // 成為成員之後才讀得到班級文件
+      const classSnap = await getDoc(doc(classesCol, classId));
+      if (!classSnap.exists()) throw new Error('這個班級已不存在。');
+      return classFromDoc(classSnap.id, classSnap.data());
+    },
+    async members(classId) {
+      const snap = await getDocs(query(membersCol(classId), orderBy('joinedAt')));
+      return snap.docs.map(d => {
+        const data = d.data();
+        return { uid: d.id, email: data.email ?? null, joinedAt: toDate(data.joinedAt) } as ClassMember;
+      });
+    },
+    async removeMember(classId, uid) {
+      const snap = await getDoc(doc(classesCol, classId));
+      if (!snap.exists()) return;
+      const { teacherId } = snap.data();
+      const batch = writeBatch(db);
+      batch.delete(doc(membersCol(classId), uid));
+      batch.delete(doc(enrollmentsCol(uid), classId));
+      await batch.commit();
+
+      // 學生不在這位老師的其他班級時，才收回老師的讀取權
+      const others = (await classes.listOwned(teacherId)).filter(c => c.id !== classId);
+      const stillMember = (await Promise.all(others.map(c => getDoc(doc(membersCol(c.id), uid))))).some(s => s.exists());
+      if (!stillMember) await updateDoc(profileRef(uid), { teacherIds: arrayRemove(teacherId) });
+    },
+  };
+
+  const assignments: AssignmentRepository = {
+    async listForClass(classId) {
+      const snap = await getDocs(query(assignmentsCol(classId), orderBy('dueAt')));
+      return snap.docs.map(d => assignmentFromDoc(d.id, d.data()));
+    },
+    async create(input) {
+      const ref = await addDoc(assignmentsCol(input.classId), {
+        ...input,
+        opensAt: Timestamp.fromDate(input.opensAt),
+        dueAt: Timestamp.fromDate(input.dueAt),
+        createdAt: serverTimestamp(),
+      });
+      return { ...input, id: ref.id, createdAt: new Date() };
+    },
+    async remove(classId, assignmentId) {
+      const subs = await getDocs(collection(db, 'classes', classId, 'assignments', assignmentId, 'submissions'));
+      for (const part of chunk(subs.docs, BATCH_SIZE)) {
+        const batch = writeBatch(db);
+        part.forEach(d => batch.delete(d.ref));
+        await batch.commit();
+      }
+      await deleteDoc(doc(assignmentsCol(classId), assignmentId));
+    },
+    async submissions(classId, assignmentId) {
+      const snap = await getDocs(collection(db, 'classes', classId, 'assignments', assignmentId, 'submissions'));
+      return snap.docs.map(d => submissionFromDoc(d.data()));
+    },
+    async submission(classId, assignmentId, userId) {
+      const snap = await getDoc(submissionRef({ id: assignmentId, classId }, userId));
+      return snap.exists() ? submissionFromDoc(snap.data()) : null;
+    },
+    async recordResult(a, user, attempt) {
+      const ref = submissionRef(a, user.uid);
+      const key = cardIdOf(attempt.questionId, attempt.subItemId);
+      return runTransaction(db, async tx => {
+        const snap = await tx.get(ref);
+        const current = snap.exists()
+          ? submissionFromDoc(snap.data())
+          : { userId: user.uid, email: user.email, results: {} };
+        if (current.submittedAt || current.results[key]) return current;
+        const result = resultFromAttempt(attempt);
+        tx.set(ref, {
+          userId: user.uid,
+          email: user.email,
+          results: { [key]: { ...stripUndefined(result), answeredAt: serverTimestamp() } },
+          updatedAt: serverTimestamp(),
+        }, { merge: true });
+        return { ...current, results: { ...current.results, [key]: result }, updatedAt: new Date() };
+      });
+    },
+    async submit(a, user) {
+      // 繳交時間一律用伺服器時間，遲交判定才不受學生電腦時鐘影響
+      await setDoc(submissionRef(a, user.uid), {
+        userId: user.uid, email: user.email, submittedAt: serverTimestamp(), updatedAt: serverTimestamp(),
+      }, { merge: true });
+      return (await assignments.submission(a.classId, a.id, user.uid))?.submittedAt ?? new Date();
+    },
+  };
+
+  const glossary: GlossaryRepository = {
+    async list() {
+      const snap = await getDocs(glossaryCol);
+      return snap.docs
+        .map(d => ({ ...d.data(), id: d.id, updatedAt: toDate(d.data().updatedAt) }) as GlossaryTerm)
+        .sort((a, b) => a.term.localeCompare(b.term, 'zh-Hant'));
+    },
+    async save(input, id) {
+      const term = input.term.trim();
+      const dup = await getDocs(query(glossaryCol, where('term', '==', term), limit(2)));
+      if (dup.docs.some(d => d.id !== id)) throw new Error(`「${term}」已在詞庫中。`);
+      const ref = id ? doc(glossaryCol, id) : doc(glossaryCol);
+      await setDoc(ref, { ...stripUndefined({ ...input, term }), updatedAt: serverTimestamp() });
+      return { ...input, term, id: ref.id, updatedAt: new Date() };
+    },
+    async remove(id) {
+      await deleteDoc(doc(glossaryCol, id));
+    },
+  };
+
+  // 分頁游標對應的文件快照（只在這個分頁存活期間有效）
+  const pageSnapshots = new Map<string, DocumentSnapshot>();
+
+  return {
+    backend: 'firestore',
+
+    questions: {
+      async list(opts = {}) {
+        let all;
+        try {
+          const qy = opts.max
+            ? query(questionsCol, orderBy('createdAt', 'desc'), limit(opts.max))
+            : query(questionsCol, orderBy('createdAt', 'desc'));
+          all = parseQuestionDocs((await getDocs(qy)).docs);
+        } catch {
+          // 舊資料缺 createdAt 的保底
+          all = parseQuestionDocs((await getDocs(questionsCol)).docs);
+        }
+        // 舊文件沒有 archived 欄位，無法用 where 篩選，改在前端排除
+        return opts.includeArchived ? all : all.filter(q => !q.archived);
+      },
+      async page({ size, after }) {
+        // 同一時間建立的題目以文件 id 排序，游標才不會跳過或重複
+        const base = [orderBy('createdAt', 'desc'), orderBy(documentId(), 'desc')] as const;
+        let qy = query(questionsCol, ...base, limit(size));
+        if (after) {
+          // 以上一頁最後一筆的文件快照接續（毫秒游標會丟掉 Timestamp 的微秒）；
+          // 游標從 IndexedDB 還原時手上沒有快照，依 id 讀回文件，文件已刪除才退回用時間與 id
+          const from = pageSnapshots.get(after.id) ?? await getDoc(doc(questionsCol, after.id));
+          pageSnapshots.delete(after.id);
+          qy = from.exists()
+            ? query(questionsCol, ...base, startAfter(from), limit(size))
+            : query(questionsCol, ...base, startAfter(Timestamp.fromMillis(after.createdAt), after.id), limit(size));
+        }
+        // 缺 createdAt 的舊文件不會出現在這個查詢，需先由管理員執行 backfillCreatedAt
+        const snap = await getDocs(qy);
+        const last = snap.docs.length === size ? snap.docs[size - 1] : undefined;
+        if (last) pageSnapshots.set(last.id, last);
+        return {
+          questions: parseQuestionDocs(snap.docs).filter(q => !q.archived),
+          next: last ? { createdAt: toDate(last.data().createdAt)?.getTime() ?? 0, id: last.id } : null,
+        };
+      },
+      async changedSince(since) {
+        // 舊文件可能沒有 updatedAt，建立時間也一併查
+        const ts = Timestamp.fromDate(since);
+        const [updated, created] = await Promise.all([
+          getDocs(query(questionsCol, where('updatedAt', '>', ts))),
+          getDocs(query(questionsCol, where('createdAt', '>', ts))),
+        ]);
+        const byId = new Map([...created.docs, ...updated.docs].map(d => [d.id, d]));
+        return parseQuestionDocs([...byId.values()]);
+      },
+      async listArchived() {
+        const snap = await getDocs(query(questionsCol, where('archived', '==', true)));
+        return parseQuestionDocs(snap.docs)
+          .sort((a, b) => (b.archivedAt?.getTime() ?? 0) - (a.archivedAt?.getTime() ?? 0));
+      },
+      get: getQuestion,
+      getMany,
+      async add(draft) {
+        const ref = await addDoc(questionsCol, {
+          ...draft,
+          schemaVersion: QUESTION_SCHEMA_VERSION,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+        return ref.id;
+      },
+      async addMany(questions) {
+        const exists = new Set(await existingIds(questions.flatMap(q => (q.id ? [q.id] : []))));
+        const todo = questions.filter(q => !q.id || !exists.has(q.id));
+        const result = { inserted: 0, skipped: [...exists], failed: 0, errors: [] as string[] };
+
+        for (const part of chunk(todo, BATCH_SIZE)) {
+          const batch = writeBatch(db);
+          part.forEach(({ id, createdAt, ...draft }) => {
+            batch.set(id ? doc(questionsCol, id) : doc(questionsCol), {
+              ...draft,
+              schemaVersion: QUESTION_SCHEMA_VERSION,
+              createdAt: createdAt ? Timestamp.fromDate(createdAt) : serverTimestamp(),
+              updatedAt: serverTimestamp(), // 匯入時保留原建立時間，增量同步改看 updatedAt
+            });
+          });
+          try {
+            await batch.commit();
+            result.inserted += part.length;
+          } catch (err: any) {
+            result.failed += part.length;
+            result.errors.push(err?.message || '批次寫入失敗');
+          }
+        }
+        return result;
+      },
+      existingIds,
+      async backfillCreatedAt() {
+        // 只在管理員手動執行時讀整個題庫
+        const missing = (await getDocs(questionsCol)).docs.filter(d => d.data().createdAt === undefined);
+        for (const part of chunk(missing, BATCH_SIZE)) {
+          const batch = writeBatch(db);
+          part.forEach(d => batch.update(d.ref, { createdAt: d.data().updatedAt ?? Timestamp.fromMillis(0) }));
+          await batch.commit();
+        }
+        return missing.length;
+      },
+      async archive(ids, by) {
+        for (const part of chunk(ids, BATCH_SIZE)) {
+          const batch = writeBatch(db);
+          part.forEach(id => batch.update(doc(questionsCol, id), {
+            archived: true,
+            archivedAt: serverTimestamp(),
+            archivedBy: { uid: by.uid, email: by.email },
+            updatedAt: serverTimestamp(),
+          }));
+          await batch.commit();
+        }
+      },
+      async restore(id) {
+        await updateDoc(doc(questionsCol, id), {
+          archived: false,
+          archivedAt: deleteField(),
+          archivedBy: deleteField(),
+          updatedAt: serverTimestamp(),
+        });
+      },
+      async purge(id) {
+        const snap = await getDoc(doc(questionsCol, id));
+        const q = snap.exists() ? parseQuestionDocs([snap])[0] : undefined;
+        if (!q || !canPurge(q)) throw new Error(`題目需封存滿 ${TRASH_RETENTION_DAYS} 天才能永久刪除。`);
+        const revisions = await getDocs(revisionsCol(id));
+        for (const part of chunk([...revisions.docs.map(d => d.ref), snap.ref], BATCH_SIZE)) {
+          const batch = writeBatch(db);
+          part.forEach(ref => batch.delete(ref));
+          await batch.commit();
+        }
+      },
+      async update(id, content, by, note) {
+        const ref = doc(questionsCol, id);
+        const revRef = doc(revisionsCol(id));
+        return runTransaction(db, async tx => {
+          const snap = await tx.get(ref);
+          if (!snap.exists()) throw new Error(`找不到題目 ${id}`);
+          const raw = snap.data();
+          const parsed = parseQuestion(raw, id);
+          if (!parsed.ok) throw new Error(`題目 ${id} 格式錯誤：${parsed.errors.join('；')}`);
+
+          const before = questionContent(parsed.question);
+          const after = stripUndefined(content);
+          const diff = diffQuestions(before, after);
+          if (diff.length === 0) return null;
+
+          const kept = Object.fromEntries(SYSTEM_FIELDS.filter(k => k in raw).map(k => [k, raw[k]]));
+          tx.set(ref, { ...kept, ...after, schemaVersion: QUESTION_SCHEMA_VERSION, updatedAt: serverTimestamp() });
+          const revision = {
+            questionId: id,
+            by: { uid: by.uid, email: by.email },
+            diff,
+            before,
+            after,
+            ...(note ? { note } : {}),
+          };
+          tx.set(revRef, { ...revision, at: serverTimestamp() });
+          return { ...revision, id: revRef.id, at: new Date() };
+        });
+      },
+      async listRevisions(id) {
+        const snap = await getDocs(query(revisionsCol(id), orderBy('at', 'desc')));
+        return snap.docs.map(d => {
+          const data = d.data();
+          return {
+            ...data,
+            id: d.id,
+            at: toDate(data.at),
+            before: data.before as QuestionDraft,
+            after: data.after as QuestionDraft,
+          } as QuestionRevision;
+        });
+      },
+    },
+
+    history,
+    exams,
+    classes,
+    assignments,
+    glossary,
+
+    users: {
+      onAuthChange(cb) {
+        return onAuthStateChanged(auth, cur => {
+          // 記下 Email，管理員才能以 Email 指定教師、老師才看得到名冊
+          if (cur) setDoc(profileRef(cur.uid), { email: cur.email }, { merge: true }).catch(console.error);
+          cb(cur ? { uid: cur.uid, email: cur.email } : null);
+        });
+      },
+      async signIn(email, password) {
+        await signInWithEmailAndPassword(auth, email, password);
+      },
+      async signUp(email, password) {
+        await createUserWithEmailAndPassword(auth, email, password);
+      },
+      async signOut() {
+        await signOut(auth);
+      },
+      async isAdmin(uid) {
+        return (await getDoc(doc(db, 'admins', uid))).exists();
+      },
+      async isTeacher(uid) {
+        return (await getDoc(doc(db, 'teachers', uid))).exists();
+      },
+      async listTeachers() {
+        const snap = await getDocs(collection(db, 'teachers'));
+        return snap.docs.map(d => ({ uid: d.id, email: d.data().email ?? null }));
+      },
+      async setTeacher(uid, enabled) {
+        const ref = doc(db, 'teachers', uid);
+        if (!enabled) {
+          await deleteDoc(ref);
+          return;
+        }
+        const profile = await getDoc(profileRef(uid));
+        if (!profile.exists()) throw new Error('找不到這個帳號，請對方先登入一次。');
+        // Email 只供名單顯示；規則限定它等於登入憑證上的 Email
+        await setDoc(ref, { email: profile.data().email ?? null, grantedAt: serverTimestamp() });
+      },
+      async getPreferences(uid) {
+        const snap = await getDoc(preferencesRef(uid));
+        return snap.exists() ? (snap.data() as Partial<UserPreferences>) : null;
+      },
+      async savePreferences(uid, patch) {
+        await setDoc(preferencesRef(uid), stripUndefined(patch), { merge: true });
+      },
+    },
+  };
+}
@@ -0,0 +1,11 @@
+// src/lib/storage/index.ts
+// 有 Firebase 設定就用 Firestore，否則（或 VITE_STORAGE=local）改用本機儲存。
+import { app, auth, db } from '../firebase-core';
+import { createFirestoreStorage } from './firestore';
+import { createLocalStorage } from './local';
+import type { Storage } from './types';
+
+export type * from './types';
+
+export const storage: Storage =
+  app && import.meta.env.VITE_STORAGE !== 'local' ? createFirestoreStorage(db, auth) : createLocalStorage();
@@ -0,0 +1,516 @@
+// src/lib/storage/local.ts
+// 本機儲存（localStorage）：沒有 Firebase 設定時使用，題庫以 src/data 的範例題播種。
+// 供離線示範與開發；本機帳號一律具管理員權限，教師身分則和 Firebase 一樣由後台指定（存在 teachers），
+// 學生端的加入班級與作業畫面才測得到。
+import { cardIdOf, reviewAfterAttempt, type ReviewCard } from '../srs';
+import { parseQuestion, questionContent, stripUndefined, toDate } from '../question-schema';
+import { diffQuestions } from '../question-diff';
+import { attemptFromExamItem } from '../exam';
+import { applyAttempt, rebuildStats, type LearningStats } from '../stats';
+import { applyToMistake, mistakeId, rebuildMistakes, type MistakeEntry } from '../mistakes';
+import { canPurge, TRASH_RETENTION_DAYS } from '../trash';
+import { QUESTION_SCHEMA_VERSION, type Question, type QuestionRevision } from '../../types/question';
+import { questions as seedQuestions } from '../../data';
+import { generateJoinCode } from '../classroom';
+import { resultFromAttempt } from '../assignment';
+import type { ExamSession } from '../../types/exam';
+import type { Classroom, ClassMember } from '../../types/classroom';
+import type { Assignment, AssignmentSubmission } from '../../types/assignment';
+import type { UserPreferences } from '../../types/preferences';
+import type { GlossaryTerm } from '../../types/glossary';
+import type {
+  AssignmentRepository,
+  AuthUser,
+  ClassRepository,
+  ExamRepository,
+  GlossaryRepository,
+  HistoryEntry,
+  HistoryRepository,
+  Storage,
+} from './types';
+
+const PREFIX = 'mca:';
+
+/** 與 Firebase Auth 相同的錯誤碼，讓登入畫面沿用既有的錯誤訊息 */
+class AuthError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+  }
+}
+
+interface LocalAccount {
+  uid: string;
+  email: string;
+  passwordHash: string;
+}
+
+const read = <T>(key: string, fallback: T): T => {
+  const raw = localStorage.getItem(PREFIX + key);
+  if (raw === null) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+const write = (key: string, value: unknown) => localStorage.setItem(PREFIX + key, JSON.stringify(value));
+
+const newId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID().replace(/-/g, '').slice(0, 20)
+    : Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+
+async function hashPassword(email: string, password: string): Promise<string> {
+  const bytes = new TextEncoder().encode(`${email}:${password}`);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const reviveCard = (c: ReviewCard): ReviewCard => ({
+  ...c,
+  due: new Date(c.due),
+  lastReviewedAt: c.lastReviewedAt ? new Date(c.lastReviewedAt) : undefined,
+});
+
+const reviveMistake = (m: MistakeEntry): MistakeEntry => ({
+  ...m,
+  firstWrongAt: new Date(m.firstWrongAt),
+  lastWrongAt: new Date(m.lastWrongAt),
+  masteredAt: m.masteredAt ? new Date(m.masteredAt) : undefined,
+});
+
+const reviveAssignment = (a: Assignment): Assignment => ({
+  ...a,
+  opensAt: new Date(a.opensAt),
+  dueAt: new Date(a.dueAt),
+  createdAt: a.createdAt ? new Date(a.createdAt) : undefined,
+});
+
+const reviveSubmission = (s: AssignmentSubmission): AssignmentSubmission => ({
+  ...s,
+  results: Object.fromEntries(Object.entries(s.results).map(([k, r]) =>
+    [k, { ...r, answeredAt: r.answeredAt ? new Date(r.answeredAt) : undefined }])),
+  submittedAt: s.submittedAt ? new Date(s.submittedAt) : undefined,
+  updatedAt: s.updatedAt ? new Date(s.updatedAt) : undefined,
+});
+
+export function createLocalStorage(): Storage {
+  const loadQuestions = (): Question[] => {
+    if (localStorage.getItem(PREFIX + 'questions') === null) {
+      write('questions', seedQuestions.map(q => ({ ...q, createdAt: q.createdAt ?? new Date() })));
+    }
+    return read<unknown[]>('questions', []).flatMap(raw => {
+      const r = parseQuestion(raw);
+      return r.ok ? [r.question] : [];
+    });
+  };
+  const byNewest = (a: Question, b: Question) =>
+    (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0) || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+  const loadCards = (userId: string) => read<Record<string, ReviewCard>>(`cards:${userId}`, {});
+
+  const listeners = new Set<(user: AuthUser | null) => void>();
+  const currentUser = (): AuthUser | null => read<AuthUser | null>('session', null);
+  const setSession = (user: AuthUser | null) => {
+    if (user) write('session', user);
+    else localStorage.removeItem(PREFIX + 'session');
+    listeners.forEach(cb => cb(user));
+  };
+
+  const history: HistoryRepository = {
+    async recordAttempt(userId, attempt) {
+      const { attemptId, answeredAt, ...rest } = attempt;
+      const cards = loadCards(userId);
+      const key = cardIdOf(attempt.questionId, attempt.subItemId);
+      const previous = read<HistoryEntry[]>(`history:${userId}`, []);
+      if (attemptId && previous.some(h => h.id === attemptId) && cards[key]) return reviveCard(cards[key]);
+
+      const entry: HistoryEntry = {
+        ...rest,
+        id: attemptId ?? newId(),
+        score: attempt.score ?? (attempt.isCorrect ? 1 : 0),
+        hintLevel: attempt.hintLevel ?? 0,
+        timestamp: answeredAt ?? new Date(),
+      };
+      write(`history:${userId}`, [...previous, entry]);
+
+      const next = reviewAfterAttempt(
+        cards[key] ? reviveCard(cards[key]) : null,
+        attempt.questionId, attempt.subItemId, attempt.isCorrect, attempt.hintLevel, entry.timestamp,
+      );
+      write(`cards:${userId}`, { ...cards, [key]: next });
+
+      // 摘要還不存在時不建立，留待 stats() 由完整作答紀錄重建
+      const stats = read<LearningStats | null>(`stats:${userId}`, null);
+      if (stats) {
+        const question = loadQuestions().find(q => q.id === attempt.questionId) ?? null;
+        write(`stats:${userId}`, applyAttempt(stats, attempt, question, entry.timestamp ?? new Date()));
+      }
+
+      const mistakes = read<Record<string, MistakeEntry> | null>(`mistakes:${userId}`, null);
+      if (mistakes) {
+        const mistake = applyToMistake(mistakes[key] ? reviveMistake(mistakes[key]) : null, attempt, entry.timestamp ?? new Date());
+        if (mistake) write(`mistakes:${userId}`, { ...mistakes, [key]: mistake });
+      }
+      return next;
+    },
+    async listAttempts(userId) {
+      return read<HistoryEntry[]>(`history:${userId}`, [])
+        .map(h => ({ ...h, score: h.score ?? (h.isCorrect ? 1 : 0), timestamp: toDate(h.timestamp) }));
+    },
+    async dueCards(userId, max, now = new Date()) {
+      return Object.values(loadCards(userId))
+        .map(reviveCard)
+        .filter(c => c.due <= now)
+        .sort((a, b) => a.due.getTime() - b.due.getTime())
+        .slice(0, max);
+    },
+    async dueCount(userId, now = new Date()) {
+      return Object.values(loadCards(userId)).filter(c => new Date(c.due) <= now).length;
+    },
+    async stats(userId) {
+      const stored = read<LearningStats | null>(`stats:${userId}`, null);
+      if (stored) return { ...stored, updatedAt: toDate(stored.updatedAt) };
+      const rebuilt = rebuildStats(await history.listAttempts(userId), loadQuestions());
+      write(`stats:${userId}`, rebuilt);
+      return rebuilt;
+    },
+    async listMistakes(userId) {
+      let stored = read<Record<string, MistakeEntry> | null>(`mistakes:${userId}`, null);
+      if (!stored) {
+        stored = Object.fromEntries(rebuildMistakes(await history.listAttempts(userId)).map(m => [mistakeId(m), m]));
+        write(`mistakes:${userId}`, stored);
+      }
+      return Object.values(stored)
+        .map(reviveMistake)
+        .sort((a, b) => b.lastWrongAt.getTime() - a.lastWrongAt.getTime());
+    },
+  };
+
+  const exams: ExamRepository = {
+    async save(userId, session, sessionId) {
+      const id = sessionId ?? newId();
+      const saved = read<ExamSession[]>(`exams:${userId}`, []);
+      if (!saved.some(s => s.id === id)) write(`exams:${userId}`, [{ ...session, id }, ...saved]);
+      for (const [i, item] of session.items.entries()) {
+        await history.recordAttempt(userId, {
+          ...attemptFromExamItem(item, id), attemptId: `${id}-${i}`, answeredAt: session.finishedAt,
+        });
+      }
+      return id;
+    },
+    async list(userId, max = 20) {
+      return read<ExamSession[]>(`exams:${userId}`, [])
+        .slice(0, max)
+        .map(s => ({ ...s, startedAt: new Date(s.startedAt), finishedAt: new Date(s.finishedAt) }));
+    },
+  };
+
+  const loadClasses = () =>
+    read<Classroom[]>('classes', []).map(c => ({ ...c, createdAt: c.createdAt ? new Date(c.createdAt) : undefined }));
+  const loadMembers = (classId: string) =>
+    read<ClassMember[]>(`members:${classId}`, []).map(m => ({ ...m, joinedAt: m.joinedAt ? new Date(m.joinedAt) : undefined }));
+  // 學生端拿到的班級資料不帶加入代碼，與 Firestore 版一致
+  const withoutCode = ({ joinCode: _code, ...c }: Classroom): Classroom => c;
+  const uniqueJoinCode = () => {
+    const used = new Set(loadClasses().map(c => c.joinCode));
+    for (;;) {
+      const code = generateJoinCode();
+      if (!used.has(code)) return code;
+    }
+  };
+
+  const classes: ClassRepository = {
+    async listOwned(teacherId) {
+      return loadClasses()
+        .filter(c => c.teacherId === teacherId)
+        .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+    },
+    async listJoined(userId) {
+      const ids = read<string[]>(`enrollments:${userId}`, []);
+      return loadClasses().filter(c => ids.includes(c.id)).map(withoutCode);
+    },
+    async create(name, teacher) {
+      const cls: Classroom = {
+        id: newId(), name, teacherId: teacher.uid, teacherEmail: teacher.email, joinCode: uniqueJoinCode(), createdAt: new Date(),
+      };
+      write('classes', [...loadClasses(), cls]);
+      return cls;
+    },
+    async regenerateCode(classId) {
+      const joinCode = uniqueJoinCode();
+      write('classes', loadClasses().map(c => (c.id === classId ? { ...c, joinCode } : c)));
+      return joinCode;
+    },
+    async join(code, student) {
+      const cls = loadClasses().find(c => c.joinCode === code);
+      if (!cls) throw new Error('找不到這個班級代碼，請向老師確認。');
+      const members = loadMembers(cls.id);
+      if (!members.some(m => m.uid === student.uid)) {
+        write(`members:${cls.id}`, [...members, { uid: student.uid, email: student.email, joinedAt: new Date() }]);
+        write(`enrollments:${student.uid}`, [...read<string[]>(`enrollments:${student.uid}`, []), cls.id]);
+      }
+      return withoutCode(cls);
+    },
+    async members(classId) {
+      return loadMembers(classId);
+    },
+    async removeMember(classId, uid) {
+      write(`members:${classId}`, loadMembers(classId).filter(m => m.uid !== uid));
+      write(`enrollments:${uid}`, read<string[]>(`enrollments:${uid}`, []).filter(id => id !== classId));
+    },
+  };
+
+  const loadSubmissions = (assignmentId: string) =>
+    read<Record<string, AssignmentSubmission>>(`submissions:${assignmentId}`, {});
+  const saveSubmission = (assignmentId: string, sub: AssignmentSubmission) =>
+    write(`submissions:${assignmentId}`, { ...loadSubmissions(assignmentId), [sub.userId]: sub });
+
+  const assignments: AssignmentRepository = {
+    async listForClass(classId) {
+      return read<Assignment[]>(`assignments:${classId}`, [])
+        .map(reviveAssignment)
+        .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+    },
+    async create(input) {
+      const a: Assignment = { ...input, id: newId(), createdAt: new Date() };
+      write(`assignments:${input.classId}`, [...read<Assignment[]>(`assignments:${input.classId}`, []), a]);
+      return a;
+    },
+    async remove(classId, assignmentId) {
+      write(`assignments:${classId}`, read<Assignment[]>(`assignments:${classId}`, []).filter(a => a.id !== assignmentId));
+      localStorage.removeItem(PREFIX + `submissions:${assignmentId}`);
+    },
+    async submissions(_classId, assignmentId) {
+      return Object.values(loadSubmissions(assignmentId)).map(reviveSubmission);
+    },
+    async submission(_classId, assignmentId, userId) {
+      const s = loadSubmissions(assignmentId)[userId];
+      return s ? reviveSubmission(s) : null;
+    },
+    async recordResult(a, user, attempt) {
+      const stored = loadSubmissions(a.id)[user.uid];
+      const current: AssignmentSubmission = stored
+        ? reviveSubmission(stored)
+        : { userId: user.uid, email: user.email, results: {} };
+      const key = cardIdOf(attempt.questionId, attempt.subItemId);
+      if (current.submittedAt || current.results[key]) return current;
+      const next = { ...current, results: { ...current.results, [key]: resultFromAttempt(attempt) }, updatedAt: new Date() };
+      saveSubmission(a.id, next);
+      return next;
+    },
+    async submit(a, user) {
+      const stored = loadSubmissions(a.id)[user.uid];
+      const submittedAt = new Date();
+      saveSubmission(a.id, {
+        ...(stored ? reviveSubmission(stored) : { userId: user.uid, email: user.email, results: {} }),
+        submittedAt,
+        updatedAt: submittedAt,
+      });
+      return submittedAt;
+    },
+  };
+
+  const glossary: GlossaryRepository = {
+    async list() {
+      return read<GlossaryTerm[]>('glossary', [])
+        .map(t => ({ ...t, updatedAt: toDate(t.updatedAt) }))
+        .sort((a, b) => a.term.localeCompare(b.term, 'zh-Hant'));
+    },
+    async save(input, id) {
+      const term = input.term.trim();
+      const all = read<GlossaryTerm[]>('glossary', []);
+      if (all.some(t => t.term === term && t.id !== id)) throw new Error(`「${term}」已在詞庫中。`);
+      const saved: GlossaryTerm = stripUndefined({ ...input, term, id: id ?? newId(), updatedAt: new Date() });
+      write('glossary', [...all.filter(t => t.id !== saved.id), saved]);
+      return saved;
+    },
+    async remove(id) {
+      write('glossary', read<GlossaryTerm[]>('glossary', []).filter(t => t.id !== id));
+    },
+  };
+
+  return {
+    backend: 'local',
+
+    questions: {
+      async list(opts = {}) {
+        const all = loadQuestions().filter(q => opts.includeArchived || !q.archived).sort(byNewest);
+        return opts.max ? all.slice(0, opts.max) : all;
+      },
+      async page({ size, after }) {
+        const all = loadQuestions().sort(byNewest);
+        const start = after
+          ? all.findIndex(q => byNewest(q, { ...q, id: after.id, createdAt: new Date(after.createdAt) } as Question) > 0)
+          : 0;
+        const slice = start < 0 ? [] : all.slice(start, start + size);
+        const last = slice[slice.length - 1];
+        return {
+          questions: slice.filter(q => !q.archived),
+          next: slice.length === size && last && start + size < all.length
+            ? { createdAt: last.createdAt?.getTime() ?? 0, id: last.id }
+            : null,
+        };
+      },
+      async changedSince(since) {
+        return loadQuestions().filter(q => (q.updatedAt ?? q.createdAt ?? new Date(0)) > since);
+      },
+      async listArchived() {
+        return loadQuestions()
+          .filter(q => q.archived)
+          .sort((a, b) => (b.archivedAt?.getTime() ?? 0) - (a.archivedAt?.getTime() ?? 0));
+      },
+      async get(id) {
+        return loadQuestions().find(q => q.id === id) ?? null;
+      },
+      async getMany(ids) {
+        return loadQuestions().filter(q => ids.includes(q.id));
+      },
+      async add(draft) {
+        const id = newId();
+        write('questions', [
+          ...loadQuestions(),
+          { ...draft, id, schemaVersion: QUESTION_SCHEMA_VERSION, createdAt: new Date(), updatedAt: new Date() },
+        ]);
+        return id;
+      },
+      async addMany(questions) {
+        const current = loadQuestions();
+        const exists = new Set(current.map(q => q.id));
+        const skipped = questions.flatMap(q => (q.id && exists.has(q.id) ? [q.id] : []));
+        const added = questions
+          .filter(q => !q.id || !exists.has(q.id))
+          .map(q => ({ ...q, id: q.id || newId(), schemaVersion: QUESTION_SCHEMA_VERSION, createdAt: q.createdAt ?? new Date(), updatedAt: new Date() }));
+        write('questions', [...current, ...added]);
+        return { inserted: added.length, skipped, failed: 0, errors: [] };
+      },
+      async existingIds(ids) {
+        const exists = new Set(loadQuestions().map(q => q.id));
+        return ids.filter(id => exists.has(id));
+      },
+      async archive(ids, by) {
+        const now = new Date();
+        write('questions', loadQuestions().map(q => (ids.includes(q.id)
+          ? { ...q, archived: true, archivedAt: now, archivedBy: { uid: by.uid, email: by.email }, updatedAt: now }
+          : q)));
+      },
+      async backfillCreatedAt() {
+        const all = loadQuestions();
+        const missing = all.filter(q => !q.createdAt).length;
+        if (missing) write('questions', all.map(q => (q.createdAt ? q : { ...q, createdAt: q.updatedAt ?? new Date(0) })));
+        return missing;
+      },
+      async restore(id) {
+        write('questions', loadQuestions().map(q => {
+          if (q.id !== id) return q;
+          const { archivedAt: _at, archivedBy: _by, ...rest } = q;
+          return { ...rest, archived: false, updatedAt: new Date() };
+        }));
+      },
+      async purge(id) {
+        const all = loadQuestions();
+        const q = all.find(x => x.id === id);
+        if (!q || !canPurge(q)) throw new Error(`題目需封存滿 ${TRASH_RETENTION_DAYS} 天才能永久刪除。`);
+        write('questions', all.filter(x => x.id !== id));
+        localStorage.removeItem(PREFIX + `revisions:${id}`);
+      },
+      async update(id, content, by, note) {
+        const all = loadQuestions();
+        const current = all.find(q => q.id === id);
+        if (!current) throw new Error(`找不到題目 ${id}`);
+
+        const before = questionContent(current);
+        const after = stripUndefined(content);
+        const diff = diffQuestions(before, after);
+        if (diff.length === 0) return null;
+
+        const { archived, archivedAt, archivedBy } = current;
+        const updated = {
+          ...after,
+          id,
+          schemaVersion: QUESTION_SCHEMA_VERSION,
+          createdAt: current.createdAt,
+          updatedAt: new Date(),
+          ...(archived ? { archived, archivedAt, archivedBy } : {}),
+        };
+        write('questions', all.map(q => (q.id === id ? updated : q)));
+
+        const revision: QuestionRevision = {
+          id: newId(),
+          questionId: id,
+          by: { uid: by.uid, email: by.email },
+          at: new Date(),
+          diff,
+          before,
+          after,
+          ...(note ? { note } : {}),
+        };
+        write(`revisions:${id}`, [revision, ...read<QuestionRevision[]>(`revisions:${id}`, [])]);
+        return revision;
+      },
+      async listRevisions(id) {
+        return read<QuestionRevision[]>(`revisions:${id}`, []).map(r => ({ ...r, at: toDate(r.at) }));
+      },
+    },
+
+    history,
+    exams,
+    classes,
+    assignments,
+    glossary,
+
+    users: {
+      onAuthChange(cb) {
+        listeners.add(cb);
+        queueMicrotask(() => cb(currentUser()));
+        return () => { listeners.delete(cb); };
+      },
+      async signIn(email, password) {
+        const account = read<LocalAccount[]>('accounts', []).find(a => a.email === email);
+        if (!account || account.passwordHash !== await hashPassword(email, password)) {
+          throw new AuthError('auth/invalid-credential', '帳號或密碼錯誤');
+        }
+        setSession({ uid: account.uid, email: account.email });
+      },
+      async signUp(email, password) {
+        const accounts = read<LocalAccount[]>('accounts', []);
+        if (accounts.some(a => a.email === email)) {
+          throw new AuthError('auth/email-already-in-use', '此 Email 已被註冊');
+        }
+        const account = { uid: newId(), email, passwordHash: await hashPassword(email, password) };
+        write('accounts', [...accounts, account]);
+        setSession({ uid: account.uid, email });
+      },
+      async signOut() {
+        setSession(null);
+      },
+      async isAdmin() {
+        // 刻意讓每個本機帳號都是管理員：本機沒有可信任的一方能指定管理員，
+        // 而且得先進得了後台，才能指定教師、匯入題庫
+        return true;
+      },
+      async isTeacher(uid) {
+        return read<string[]>('teachers', []).includes(uid);
+      },
+      async listTeachers() {
+        const teachers = new Set(read<string[]>('teachers', []));
+        return read<LocalAccount[]>('accounts', [])
+          .filter(a => teachers.has(a.uid))
+          .map(a => ({ uid: a.uid, email: a.email }));
+      },
+      async setTeacher(uid, enabled) {
+        const account = read<LocalAccount[]>('accounts', []).find(a => a.uid === uid);
+        if (!account) throw new Error('找不到這個帳號，請對方先登入一次。');
+        const others = read<string[]>('teachers', []).filter(uid => uid !== account.uid);
+        write('teachers', enabled ? [...others, account.uid] : others);
+      },
+      async getPreferences(uid) {
+        return read<Partial<UserPreferences> | null>(`preferences:${uid}`, null);
+      },
+      async savePreferences(uid, patch) {
+        write(`preferences:${uid}`, { ...read<Partial<UserPreferences>>(`preferences:${uid}`, {}), ...patch });
+      },
+    },
+  };
+}
@@ -0,0 +1,182 @@
+// src/lib/storage/types.ts
+// 儲存層介面：各模組只透過這些 repository 存取資料，不直接碰 Firestore。
+import type {
+  Question,
+  QuestionDraft,
+  QuestionInput,
+  QuestionRevision,
+  QuestionType,
+} from '../../types/question';
+import type { ExamSession, ExamSessionInput } from '../../types/exam';
+import type { Classroom, ClassMember } from '../../types/classroom';
+import type { Assignment, AssignmentInput, AssignmentSubmission } from '../../types/assignment';
+import type { UserPreferences } from '../../types/preferences';
+import type { GlossaryTerm, GlossaryTermInput } from '../../types/glossary';
+import type { ReviewCard } from '../srs';
+import type { LearningStats } from '../stats';
+import type { MistakeEntry } from '../mistakes';
+
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+}
+
+export interface AttemptInput {
+  type: QuestionType;
+  questionId: string;
+  subItemId?: string;
+  chosen: string | string[];
+  isCorrect: boolean;
+  score?: number;           // 0–1 的得分比例；未提供時依 isCorrect 視為 1 或 0
+  hintLevel?: number;       // 用過的最高提示等級（0 為沒用提示）
+  questionTitle?: string;
+  examSessionId?: string;   // 模擬考中的作答
+  assignmentId?: string;    // 作業中的作答
+  attemptId?: string;       // 用戶端產生的 id：離線重送時同一筆只寫入一次
+  answeredAt?: Date;        // 實際作答時間；稍後才上傳的作答保留原本的時間
+}
+
+export interface HistoryEntry extends AttemptInput {
+  id: string;
+  score: number;
+  hintLevel: number;
+  timestamp?: Date;
+}
+
+export interface BulkWriteResult {
+  inserted: number;
+  skipped: string[];   // 已存在而略過的 id
+  failed: number;
+  errors: string[];
+}
+
+/** 分頁游標：上一頁最後一題的建立時間（毫秒）與 id，可直接存進 IndexedDB */
+export interface QuestionCursor {
+  createdAt: number;
+  id: string;
+}
+
+export interface QuestionPage {
+  questions: Question[];         // 不含已封存的題目，因此可能少於 size
+  next: QuestionCursor | null;   // null 代表已到最後一頁
+}
+
+export interface QuestionRepository {
+  /** 依建立時間由新到舊；預設不含已封存的題目 */
+  list(opts?: { max?: number; includeArchived?: boolean }): Promise<Question[]>;
+  /** 依建立時間由新到舊分頁讀取 */
+  page(opts: { size: number; after?: QuestionCursor | null }): Promise<QuestionPage>;
+  /** 建立或修改時間晚於 since 的題目（含已封存，供快取移除） */
+  changedSince(since: Date): Promise<Question[]>;
+  /** 回收桶：已封存的題目，依封存時間由新到舊 */
+  listArchived(): Promise<Question[]>;
+  get(id: string): Promise<Question | null>;
+  getMany(ids: string[]): Promise<Question[]>;
+  add(draft: QuestionDraft): Promise<string>;
+  /** 分批寫入；帶 id 的題目若已存在則略過 */
+  addMany(questions: QuestionInput[]): Promise<BulkWriteResult>;
+  /** 回傳其中已存在的 id */
+  existingIds(ids: string[]): Promise<string[]>;
+  /** 軟刪除：標記為封存 */
+  archive(ids: string[], by: AuthUser): Promise<void>;
+  restore(id: string): Promise<void>;
+  /** 永久刪除（含修訂紀錄）；未超過回收桶保留期限時拋出錯誤 */
+  purge(id: string): Promise<void>;
+  /** 覆寫題目內容並寫一筆修訂紀錄；內容沒有變動時不寫入並回傳 null */
+  update(id: string, content: QuestionDraft, by: AuthUser, note?: string): Promise<QuestionRevision | null>;
+  /** 修訂紀錄，由新到舊 */
+  listRevisions(id: string): Promise<QuestionRevision[]>;
+  /** 管理員用的一次性整理：替缺 createdAt 的舊題目補上建立時間（沒有修改時間就用 1970 年，排在最後），
+   *  分頁查詢才讀得到它們；回傳補了幾題 */
+  backfillCreatedAt(): Promise<number>;
+}
+
+export interface HistoryRepository {
+  /** 寫入一筆作答紀錄並更新對應的複習卡、分析摘要與錯題本，回傳更新後的卡；帶 attemptId 時重複呼叫不會重複計入 */
+  recordAttempt(userId: string, attempt: AttemptInput): Promise<ReviewCard>;
+  listAttempts(userId: string): Promise<HistoryEntry[]>;
+  /** 已到期的複習卡（依到期日排序） */
+  dueCards(userId: string, max: number, now?: Date): Promise<ReviewCard[]>;
+  /** 已到期的複習卡數量（複習待辦量） */
+  dueCount(userId: string, now?: Date): Promise<number>;
+  /** 學習分析摘要；舊帳號第一次讀取時由作答紀錄重建，之後隨每次作答增量更新 */
+  stats(userId: string): Promise<LearningStats>;
+  /** 錯題本（含已精熟），依最近答錯時間由新到舊；舊帳號第一次讀取時由作答紀錄重建 */
+  listMistakes(userId: string): Promise<MistakeEntry[]>;
+}
+
+export interface ExamRepository {
+  /**
+   * 寫入一筆模擬考紀錄，並為每個計分單位寫入作答紀錄（同時更新複習卡），回傳紀錄 id。
+   * 帶 id 時以該 id 寫入，重送同一筆不會重複（待上傳佇列使用）。
+   */
+  save(userId: string, session: ExamSessionInput, id?: string): Promise<string>;
+  /** 由新到舊 */
+  list(userId: string, max?: number): Promise<ExamSession[]>;
+}
+
+export interface UserRepository {
+  /** 訂閱登入狀態，回傳取消訂閱函式 */
+  onAuthChange(cb: (user: AuthUser | null) => void): () => void;
+  signIn(email: string, password: string): Promise<void>;
+  signUp(email: string, password: string): Promise<void>;
+  signOut(): Promise<void>;
+  isAdmin(uid: string): Promise<boolean>;
+  isTeacher(uid: string): Promise<boolean>;
+  /** 管理員用：目前的教師帳號 */
+  listTeachers(): Promise<AuthUser[]>;
+  /** 管理員用：依帳號 ID（uid）設定或取消教師身分；該帳號需至少登入過一次。
+   *  不以 Email 查帳號：個人資料上的 Email 是使用者自己寫入的 */
+  setTeacher(uid: string, enabled: boolean): Promise<void>;
+  /** 使用者偏好；沒有存過時回傳 null */
+  getPreferences(uid: string): Promise<Partial<UserPreferences> | null>;
+  /** 合併寫入：只覆蓋傳入的欄位 */
+  savePreferences(uid: string, patch: Partial<UserPreferences>): Promise<void>;
+}
+
+export interface ClassRepository {
+  /** 老師自己建立的班級 */
+  listOwned(teacherId: string): Promise<Classroom[]>;
+  /** 學生加入的班級 */
+  listJoined(userId: string): Promise<Classroom[]>;
+  create(name: string, teacher: AuthUser): Promise<Classroom>;
+  /** 換一組加入代碼，舊代碼立即失效 */
+  regenerateCode(classId: string): Promise<string>;
+  /** 以代碼加入班級；代碼不存在時丟出錯誤，已加入則直接回傳班級 */
+  join(code: string, student: AuthUser): Promise<Classroom>;
+  members(classId: string): Promise<ClassMember[]>;
+  removeMember(classId: string, uid: string): Promise<void>;
+}
+
+export interface AssignmentRepository {
+  /** 班級的作業，依截止時間由近到遠 */
+  listForClass(classId: string): Promise<Assignment[]>;
+  create(input: AssignmentInput): Promise<Assignment>;
+  remove(classId: string, assignmentId: string): Promise<void>;
+  /** 老師用：全班的繳交紀錄 */
+  submissions(classId: string, assignmentId: string): Promise<AssignmentSubmission[]>;
+  submission(classId: string, assignmentId: string, userId: string): Promise<AssignmentSubmission | null>;
+  /** 記下一個計分單位的作答；同一單位只保留第一次，已繳交後不再記錄 */
+  recordResult(a: Assignment, user: AuthUser, attempt: AttemptInput): Promise<AssignmentSubmission>;
+  /** 繳交，回傳繳交時間 */
+  submit(a: Assignment, user: AuthUser): Promise<Date>;
+}
+
+export interface GlossaryRepository {
+  /** 全部詞語，依詞排序 */
+  list(): Promise<GlossaryTerm[]>;
+  /** 新增（未帶 id）或修改；同一個詞已存在時丟出錯誤 */
+  save(input: GlossaryTermInput, id?: string): Promise<GlossaryTerm>;
+  remove(id: string): Promise<void>;
+}
+
+export interface Storage {
+  backend: 'firestore' | 'local';
+  questions: QuestionRepository;
+  history: HistoryRepository;
+  exams: ExamRepository;
+  users: UserRepository;
+  classes: ClassRepository;
+  assignments: AssignmentRepository;
+  glossary: GlossaryRepository;
+}
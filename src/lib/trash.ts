@@ -0,0 +1,16 @@
+// src/lib/trash.ts
+// 回收桶：封存的題目保留一段時間後才能永久刪除，避免誤刪仍被作答紀錄引用的題目。
+import type { Question } from '../types/question';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 可以永久刪除的時間；未封存的題目回傳 null */
+export const purgeableAt = (q: Question): Date | null =>
+  q.archived && q.archivedAt ? new Date(q.archivedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS) : null;
+
+export const canPurge = (q: Question, now = new Date()): boolean => {
+  const at = purgeableAt(q);
+  return !!at && at <= now;
+};
@@ -0,0 +1,142 @@
+// src/lib/zhuyin.ts
+// 注音符號與漢語拼音互轉（以音節為單位）。讀音可能是作者寫在 <rt> 裡的，也可能是詞庫填的，
+// 兩種寫法都有，顯示時統一轉成使用者選的系統。
+// 拼音 → 注音的對照表由注音 → 拼音列舉產生，兩個方向的拼寫規則只寫一次。
+
+export type RubySystem = 'zhuyin' | 'pinyin';
+
+const INITIALS: Record<string, string> = {
+  ㄅ: 'b', ㄆ: 'p', ㄇ: 'm', ㄈ: 'f', ㄉ: 'd', ㄊ: 't', ㄋ: 'n', ㄌ: 'l',
+  ㄍ: 'g', ㄎ: 'k', ㄏ: 'h', ㄐ: 'j', ㄑ: 'q', ㄒ: 'x',
+  ㄓ: 'zh', ㄔ: 'ch', ㄕ: 'sh', ㄖ: 'r', ㄗ: 'z', ㄘ: 'c', ㄙ: 's',
+};
+
+/** 韻母的完整拼法（有聲母時使用；無聲母另見 STANDALONE） */
+const FINALS: Record<string, string> = {
+  ㄚ: 'a', ㄛ: 'o', ㄜ: 'e', ㄝ: 'ê', ㄞ: 'ai', ㄟ: 'ei', ㄠ: 'ao', ㄡ: 'ou',
+  ㄢ: 'an', ㄣ: 'en', ㄤ: 'ang', ㄥ: 'eng', ㄦ: 'er',
+  ㄧ: 'i', ㄧㄚ: 'ia', ㄧㄛ: 'io', ㄧㄝ: 'ie', ㄧㄞ: 'iai', ㄧㄠ: 'iao', ㄧㄡ: 'iu',
+  ㄧㄢ: 'ian', ㄧㄣ: 'in', ㄧㄤ: 'iang', ㄧㄥ: 'ing',
+  ㄨ: 'u', ㄨㄚ: 'ua', ㄨㄛ: 'uo', ㄨㄞ: 'uai', ㄨㄟ: 'ui', ㄨㄢ: 'uan', ㄨㄣ: 'un',
+  ㄨㄤ: 'uang', ㄨㄥ: 'ong',
+  ㄩ: 'ü', ㄩㄝ: 'üe', ㄩㄢ: 'üan', ㄩㄣ: 'ün', ㄩㄥ: 'iong',
+};
+
+/** 零聲母的拼法 */
+const STANDALONE: Record<string, string> = {
+  ㄧ: 'yi', ㄧㄚ: 'ya', ㄧㄛ: 'yo', ㄧㄝ: 'ye', ㄧㄞ: 'yai', ㄧㄠ: 'yao', ㄧㄡ: 'you',
+  ㄧㄢ: 'yan', ㄧㄣ: 'yin', ㄧㄤ: 'yang', ㄧㄥ: 'ying',
+  ㄨ: 'wu', ㄨㄚ: 'wa', ㄨㄛ: 'wo', ㄨㄞ: 'wai', ㄨㄟ: 'wei', ㄨㄢ: 'wan', ㄨㄣ: 'wen',
+  ㄨㄤ: 'wang', ㄨㄥ: 'weng',
+  ㄩ: 'yu', ㄩㄝ: 'yue', ㄩㄢ: 'yuan', ㄩㄣ: 'yun', ㄩㄥ: 'yong',
+};
+
+/** 只有聲母的音節（知、吃、詩、日、資、雌、思） */
+const APICAL = new Set(['ㄓ', 'ㄔ', 'ㄕ', 'ㄖ', 'ㄗ', 'ㄘ', 'ㄙ']);
+
+// 注音聲調符號 → 聲調（一聲通常不標）
+const ZHUYIN_TONES: Record<string, number> = { 'ˉ': 1, 'ˊ': 2, 'ˇ': 3, 'ˋ': 4, '˙': 5 };
+const TONE_MARK = ['', 'ˉ', 'ˊ', 'ˇ', 'ˋ'];
+const PINYIN_TONED: Record<string, string[]> = {
+  a: ['ā', 'á', 'ǎ', 'à'], e: ['ē', 'é', 'ě', 'è'], ê: ['ê̄', 'ế', 'ê̌', 'ề'], i: ['ī', 'í', 'ǐ', 'ì'],
+  o: ['ō', 'ó', 'ǒ', 'ò'], u: ['ū', 'ú', 'ǔ', 'ù'], ü: ['ǖ', 'ǘ', 'ǚ', 'ǜ'],
+};
+
+const ZHUYIN_RE = /[ㄅ-ㄩㆠ-ㆺˉˊˇˋ˙]/;
+
+/** 去掉聲調的注音 → 拼音（不成音節時回傳 null） */
+function bareZhuyinToPinyin(bare: string): string | null {
+  const initial = INITIALS[bare[0]] ? bare[0] : '';
+  const rest = bare.slice(initial.length);
+  if (!initial) return STANDALONE[rest] ?? FINALS[rest] ?? null;
+  if (!rest) return APICAL.has(initial) ? `${INITIALS[initial]}i` : null;
+  let final = FINALS[rest];
+  if (!final) return null;
+  const i = INITIALS[initial];
+  // ㄐㄑㄒ 只接ㄧ、ㄩ；ㄍㄎㄏ與捲舌、平舌音不接ㄧ、ㄩ
+  const medial = /^[ㄧㄩ]/.test(rest);
+  if ('jqx'.includes(i) ? !medial : medial && /^([gkhrzcs]|zh|ch|sh)$/.test(i)) return null;
+  // ㄐㄑㄒ 後的 ü 寫成 u；ㄋㄌ 後保留 ü
+  if ('jqx'.includes(i)) final = final.replace('ü', 'u');
+  if (rest === 'ㄛ' && !'bpmf'.includes(i)) return null;
+  return i + final;
+}
+
+/** 在拼音上加聲調符號：a、e 優先，ou 標在 o，其餘標在最後一個母音 */
+function markTone(bare: string, tone: number): string {
+  if (tone < 1 || tone > 4) return bare;
+  const chars = [...bare];
+  let at = chars.findIndex(c => c === 'a' || c === 'e' || c === 'ê');
+  if (at < 0) at = bare.includes('ou') ? chars.indexOf('o') : chars.reduce((last, c, k) => (c in PINYIN_TONED ? k : last), -1);
+  if (at < 0) return bare;
+  chars[at] = PINYIN_TONED[chars[at]][tone - 1];
+  return chars.join('');
+}
+
+/** 一個注音音節 → 拼音（如 ㄒㄩㄝˊ → xué）；無法辨識時原樣回傳 */
+export function zhuyinToPinyin(syllable: string): string {
+  let tone = 1;
+  let bare = '';
+  for (const ch of syllable) {
+    if (ch in ZHUYIN_TONES) tone = ZHUYIN_TONES[ch];
+    else bare += ch;
+  }
+  const py = bareZhuyinToPinyin(bare);
+  return py ? markTone(py, tone) : syllable;
+}
+
+// 拼音（無聲調）→ 注音；由所有聲母 × 韻母組合列舉
+let pinyinTable: Map<string, string> | null = null;
+const pinyinToBareZhuyin = () => {
+  if (pinyinTable) return pinyinTable;
+  pinyinTable = new Map();
+  for (const ini of ['', ...Object.keys(INITIALS)]) {
+    for (const fin of ['', ...Object.keys(FINALS)]) {
+      const zy = ini + fin;
+      const py = zy && bareZhuyinToPinyin(zy);
+      if (py && !pinyinTable.has(py)) pinyinTable.set(py, zy);
+    }
+  }
+  // 常見的 v／u: 寫法
+  [...pinyinTable].forEach(([py, zy]) => {
+    if (py.includes('ü')) pinyinTable!.set(py.replace('ü', 'v'), zy);
+  });
+  return pinyinTable;
+};
+
+const TONED_VOWEL = new Map(
+  Object.entries(PINYIN_TONED).flatMap(([base, marks]) => marks.map((m, k) => [m.normalize('NFC'), [base, k + 1]] as const)),
+);
+
+/** 一個拼音音節 → 注音（如 xué、xue2 → ㄒㄩㄝˊ）；無法辨識時原樣回傳 */
+export function pinyinToZhuyin(syllable: string): string {
+  let tone = 0;
+  let bare = '';
+  const lower = syllable.normalize('NFC').toLowerCase();
+  const digit = lower.match(/^(.*?)([1-5])$/);
+  for (const ch of digit ? digit[1] : lower) {
+    const hit = TONED_VOWEL.get(ch);
+    if (hit) { bare += hit[0]; tone = hit[1]; } else bare += ch;
+  }
+  if (digit) tone = Number(digit[2]);
+  const zy = pinyinToBareZhuyin().get(bare.replace('u:', 'ü'));
+  if (!zy) return syllable;
+  return tone === 5 ? `˙${zy}` : zy + (tone > 1 ? TONE_MARK[tone] : '');
+}
+
+/** 讀音寫的是注音還是拼音 */
+export const readingSystem = (reading: string): RubySystem => (ZHUYIN_RE.test(reading) ? 'zhuyin' : 'pinyin');
+
+/** 把讀音切成音節：以空白分隔；注音也接受輕聲符號開頭、聲調結尾的連寫 */
+export function splitReading(reading: string): string[] {
+  const words = reading.trim().split(/\s+/).filter(Boolean);
+  if (readingSystem(reading) === 'pinyin') return words;
+  return words.flatMap(w => w.match(/˙?[ㄅ-ㄩㆠ-ㆺ]+[ˉˊˇˋ]?/g) ?? [w]);
+}
+
+/** 讀音轉成指定系統（音節以空白分隔；已是該系統則不變） */
+export function convertReading(reading: string, to: RubySystem): string {
+  if (readingSystem(reading) === to) return reading;
+  const convert = to === 'pinyin' ? zhuyinToPinyin : pinyinToZhuyin;
+  return splitReading(reading).map(convert).join(' ');
+}
@@ -0,0 +1,35 @@
+// 作業：老師把指定題目發給班級，設定開放與截止時間；每位學生一份繳交紀錄。
+import type { QuestionType } from './question';
+
+export interface Assignment {
+  id: string;
+  classId: string;
+  teacherId: string;
+  title: string;
+  questionIds: string[];   // 依出題順序
+  opensAt: Date;
+  dueAt: Date;
+  createdAt?: Date;
+}
+
+export type AssignmentInput = Omit<Assignment, 'id' | 'createdAt'>;
+
+/** 一個計分單位的作答結果（作業以第一次作答為準） */
+export interface AssignmentResult {
+  questionId: string;
+  subItemId?: string;
+  type: QuestionType;
+  chosen: string | string[];
+  isCorrect: boolean;
+  score: number;           // 0–1，已含提示折扣
+  hintLevel: number;
+  answeredAt?: Date;
+}
+
+export interface AssignmentSubmission {
+  userId: string;
+  email: string | null;
+  results: Record<string, AssignmentResult>;   // 複習卡 id → 結果
+  submittedAt?: Date;                          // 按下「繳交」的時間
+  updatedAt?: Date;
+}
@@ -0,0 +1,28 @@
+// 班級：老師建立班級並發出加入代碼，學生輸入代碼加入；老師只看得到自己班級學生的作答資料。
+
+export interface Classroom {
+  id: string;
+  name: string;
+  teacherId: string;
+  teacherEmail: string | null;
+  joinCode?: string;       // 只有班級老師拿得到；學生端的班級資料不含代碼
+  createdAt?: Date;
+}
+
+export interface ClassMember {
+  uid: string;
+  email: string | null;
+  joinedAt?: Date;
+}
+
+/** 班級儀表板上一位學生的摘要（由該生的作答紀錄與複習卡計算） */
+export interface StudentSummary {
+  uid: string;
+  email: string | null;
+  attempts: number;
+  correct: number;        // 完全答對
+  rate: number;           // 得分率（含部分給分與提示折扣）
+  recentAttempts: number; // 最近 7 天
+  dueCount: number;       // 待複習題數
+  lastActiveAt?: Date;
+}
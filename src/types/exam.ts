@@ -0,0 +1,46 @@
+// 模擬考：組卷設定、每個計分單位的結果與整份考卷的紀錄。
+import type { QuestionType, ScoringRule } from './question';
+
+export interface ExamConfig {
+  counts: Record<QuestionType, number>;  // 各題型題數（閱讀以題組計）
+  tags?: string[];                       // 符合任一標籤即可入選；空陣列代表不限
+  durationMinutes: number;
+  scoring?: ScoringRule;                 // 整份考卷統一的多選計分方式；未指定時依各題設定
+}
+
+/** 一個計分單位：單選、多選各一題；閱讀題組的每個小題各一個 */
+export interface ExamItemResult {
+  questionId: string;
+  subItemId?: string;
+  type: QuestionType;
+  subtype: 'single_choice' | 'multi_select';
+  chosen: string | string[];    // 未作答為 '' 或 []
+  correct: string | string[];
+  isCorrect: boolean;           // 完全正確
+  score: number;                // 實得分數（可能是部分給分）
+  maxScore: number;
+  timeMs: number;               // 閱讀題組的作答時間平均分給各小題
+}
+
+export interface ExamTypeBreakdown {
+  count: number;
+  correct: number;
+  score: number;
+  maxScore: number;
+}
+
+export interface ExamSession {
+  id: string;
+  startedAt: Date;
+  finishedAt: Date;
+  usedSec: number;
+  autoSubmitted: boolean;       // 時間到自動交卷
+  config: ExamConfig;
+  questionIds: string[];        // 考卷題目順序
+  items: ExamItemResult[];
+  totalScore: number;
+  maxScore: number;
+  byType: Record<QuestionType, ExamTypeBreakdown>;
+}
+
+export type ExamSessionInput = Omit<ExamSession, 'id'>;
@@ -0,0 +1,12 @@
+// 詞語註釋：管理員維護一份詞庫，題幹、選項與文章在顯示時自動標出詞語並提供釋義。
+
+export interface GlossaryTerm {
+  id: string;
+  term: string;         // 要比對的詞，如「不恥相師」
+  reading?: string;     // 讀音（注音或漢語拼音）
+  definition: string;
+  lesson?: string;      // 出處課次，如「第三課 師說」
+  updatedAt?: Date;
+}
+
+export type GlossaryTermInput = Omit<GlossaryTerm, 'id' | 'updatedAt'>;
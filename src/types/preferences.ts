@@ -0,0 +1,19 @@
+// 使用者偏好：跟著帳號走，換裝置登入也保留。
+
+export interface ReadAloudSettings {
+  voiceURI: string;        // 空字串＝瀏覽器預設的中文語音
+  rate: number;            // 0.5–2
+  pitch: number;           // 0–2
+  classicalSlow: boolean;  // 文言文放慢並在句間多停頓
+}
+
+export interface DisplaySettings {
+  script: 'traditional' | 'simplified';   // 題目文字以繁體或簡體顯示（題庫一律存繁體）
+  ruby: boolean;                          // 顯示讀音（作者標的 ruby 與詞庫讀音）
+  rubySystem: 'zhuyin' | 'pinyin';        // 讀音以注音或拼音顯示
+}
+
+export interface UserPreferences {
+  readAloud: ReadAloudSettings;
+  display: DisplaySettings;
+}
@@ -0,0 +1,101 @@
+// 題目的標準資料模型（Firestore、本地資料、各渲染器共用）
+// 舊格式（QAItem、缺 schemaVersion 的 Firestore 文件）一律經 lib/question-schema 轉成這個模型。
+
+export const QUESTION_SCHEMA_VERSION = 1;
+
+export type Difficulty = '易' | '中' | '難';
+
+/** 多選計分：全對才給分／學測部分給分／逐選項給分 */
+export type ScoringRule = 'all_or_nothing' | 'gsat_partial' | 'per_option';
+
+export interface QuestionMeta {
+  difficulty?: Difficulty;
+  tags?: string[];   // 能力標籤，如 字音字形、成語、修辭、文意理解
+  source?: string;
+  unit?: string;     // 龍騰版冊別，如「第一冊」
+  lesson?: string;   // 課次與課名，如「第三課 師說」
+}
+
+export interface BaseQuestion {
+  id: string;
+  schemaVersion: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+  archived?: boolean;      // 軟刪除：封存後不出現在練習與複習，可於回收桶還原
+  archivedAt?: Date;
+  archivedBy?: { uid: string; email: string | null };
+  explanation?: string;
+  errorAnalysis?: Record<string, string>; // 選項字母 → 錯因
+  scoring?: ScoringRule;  // 多選（含閱讀題組的多選小題）的計分方式，未指定時用學測部分給分
+  meta?: QuestionMeta;
+}
+
+export interface SingleChoiceQuestion extends BaseQuestion {
+  type: 'single_choice';
+  title: string;          // 題幹（可含 HTML：.definition / .translation）
+  options: string[];      // 選項（可含 HTML）
+  correctAnswer: string;  // 'A' | 'B' | ...
+}
+
+export interface MultiSelectQuestion extends BaseQuestion {
+  type: 'multi_select';
+  title: string;
+  options: string[];
+  correctAnswers: string[]; // 如 ['A','C']
+}
+
+export interface ReadingSubItem {
+  id: string;
+  subtype: 'single_choice' | 'multi_select';
+  stem: string;
+  options: string[];
+  answer?: string;
+  correctAnswers?: string[];
+  explanation?: string;
+  errorAnalysis?: Record<string, string>;
+  evidenceRefs?: string[];
+}
+
+export interface ReadingQuestion extends BaseQuestion {
+  type: 'reading';
+  passage: {
+    title: string;
+    textHtml: string;
+    plainText?: string;
+    audioUrl?: string;
+  };
+  items: ReadingSubItem[];
+}
+
+export type Question = SingleChoiceQuestion | MultiSelectQuestion | ReadingQuestion;
+export type QuestionType = Question['type'];
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** 由儲存層維護、不屬於題目內容的欄位 */
+export type QuestionSystemField = 'id' | 'createdAt' | 'updatedAt' | 'schemaVersion' | 'archived' | 'archivedAt' | 'archivedBy';
+
+/** 新增題目時的輸入（id、時間戳記、版本與封存狀態由儲存層補上） */
+export type QuestionDraft = DistributiveOmit<Question, QuestionSystemField>;
+
+/** 匯入時可保留原本的 id 與建立時間（JSON 匯出再匯入不遺失資訊） */
+export type QuestionInput = QuestionDraft & { id?: string; createdAt?: Date };
+
+/** 單一欄位的變更（path 如 options.1、items.0.answer） */
+export interface FieldChange {
+  path: string;
+  before?: string;
+  after?: string;
+}
+
+/** 題目修訂紀錄：每次編輯或還原各一筆 */
+export interface QuestionRevision {
+  id: string;
+  questionId: string;
+  by: { uid: string; email: string | null };
+  at?: Date;
+  diff: FieldChange[];
+  before: QuestionDraft;
+  after: QuestionDraft;
+  note?: string;
+}